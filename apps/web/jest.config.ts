@@ -3,9 +3,22 @@ export default {
   displayName: 'web',
   preset: '../../jest.preset.js',
   transform: {
-    '^(?!.*\\.(js|jsx|ts|tsx|css|json)$)': '@nx/react/plugins/jest',
-    '^.+\\.[tj]sx?$': ['babel-jest', { presets: ['@nx/react/babel'] }],
+    '^(?!.*\\.(m?js|jsx|ts|tsx|css|json)$)': '@nx/react/plugins/jest',
+    '^.+\\.m?[tj]sx?$': [
+      'babel-jest',
+      {
+        // 与 @nx/react/babel 相同，只是允许 drawnix 图标里 xmlns:xlink 这样的命名空间属性
+        presets: [
+          '@nx/js/babel',
+          ['@babel/preset-react', { runtime: 'automatic', useBuiltIns: true, throwIfNamespace: false }],
+        ],
+        plugins: ['@babel/plugin-transform-class-static-block'],
+      },
+    ],
   },
-  moduleFileExtensions: ['ts', 'tsx', 'js', 'jsx'],
+  transformIgnorePatterns: [
+    '/node_modules/(?!(@plait|roughjs|points-on-curve|hachure-fill|path-data-parser|points-on-path)/)',
+  ],
+  moduleFileExtensions: ['ts', 'tsx', 'js', 'jsx', 'mjs'],
   coverageDirectory: '../../coverage/apps/web',
 };
@@ -7,33 +7,78 @@ import {
   useRef,
   useMemo,
 } from 'react';
-import { Drawnix, DRAWNIX_LANGUAGE_CHANGE_EVENT } from '@drawnix/drawnix';
-import type { Language } from '@drawnix/drawnix';
+import { download, Drawnix, DRAWNIX_LANGUAGE_CHANGE_EVENT } from '@drawnix/drawnix';
+import type { Language, PlanPlaybackControls } from '@drawnix/drawnix';
 import {
   PlaitBoard,
   PlaitElement,
   PlaitPointerType,
   Selection,
+  getRectangleByElements,
   getSelectedElements,
   getHitElementByPoint,
   toHostPoint,
   toViewBoxPoint,
 } from '@plait/core';
-import { BasicShapes } from '@plait/draw';
+import { ArrowLineMarkerType, ArrowLineShape, BasicShapes } from '@plait/draw';
 import localforage from 'localforage';
 import styles from './app.module.scss';
 import {
   PddlDomain,
-  PddlParseResponse,
+  PddlGraphElement,
+  PddlMetric,
   PddlProblem,
-} from './pddl-types';
-import { convertPddlDomainToGraph, convertPddlProblemToGraph } from '../utils/pddl-to-graph';
+  SolvePlanResponse,
+  SolverPlanStep,
+} from './pddl_types';
+import { convertPddlDomainToGraph, convertPddlProblemToGraph, createPlanCausalGraph } from '../utils/pddl-to-graph';
+import { buildPlanPartialOrder } from '../utils/pddl-partial-order';
+import { getGanttTickStep, layoutPlanGantt } from '../utils/plan-gantt';
+import { parsePddl, parsePddlPlan } from '../utils/pddl-parser';
+import {
+  convertGraphToPddlDomain,
+  convertGraphToPddlProblem,
+  getElementText,
+} from '../utils/graph-to-pddl';
+import { formatPddlArgument, formatPddlDomain, formatPddlPlan, formatPddlProblem } from '../utils/pddl-writer';
+import {
+  ChatContext,
+  ChatMessage,
+  ChatSelectedElement,
+  toChatHistory,
+} from '../utils/chat-client';
+import { generatePddlFromDescription, PddlGenerationError } from '../utils/pddl-generation';
+import {
+  applyPddlDiff,
+  diffPddl,
+  PddlDiffHunk,
+  PddlDiffResult,
+  PddlDiffTarget,
+  preserveBoardLayout,
+} from '../utils/pddl-diff';
+import {
+  createLlmProvider,
+  DEFAULT_LLM_SETTINGS,
+  LLM_PROVIDER_KINDS,
+  LlmSettings,
+  normalizeLlmSettings,
+} from '../utils/llm-providers';
+import { DEFAULT_PLANNER_OPTIONS, PlannerOptions, PlannerStatistics } from '../utils/pddl-planner';
+import { solveWithBrowserPlanner } from '../utils/pddl-planner-client';
+import {
+  diffPlanStates,
+  PlanStateSnapshot,
+  PlanValidationResult,
+  simulatePddlPlan,
+  validatePddlPlan,
+} from '../utils/pddl-validator';
 import {
   AppValue,
   BoardEntry,
   BoardFileEntry,
   FileType,
   LegacyStoredFile,
+  PlanFileSource,
   FILE_TYPE_ICON_MAP,
   FILE_TYPE_OPTIONS,
   addEntryToFolder,
@@ -57,7 +102,9 @@ import {
 } from './file-manager';
 import {
   detectPddlFileType,
+  formatPddlDiagnostics,
   isDomainPayload,
+  isDurativeAction,
   isProblemPayload,
   stripFileExtension,
 } from './pddl-utils';
@@ -77,25 +124,6 @@ type DeleteTarget = {
 
 type IconProps = SVGProps<SVGSVGElement>;
 
-type SolverPlanStep = {
-  action: string;
-  parameters?: string[];
-  time?: number;
-  duration?: number;
-  annotation?: string;
-  Annotation?: string;
-};
-
-type SolvePlanResponse = {
-  success?: boolean;
-  solver?: string;
-  plan?: SolverPlanStep[];
-  cost?: number | string;
-  metric?: number | string;
-  message?: string;
-  error?: string;
-};
-
 const PLAN_NODE_HEIGHT = 70;
 const PLAN_NODE_GAP = 18;
 const PLAN_COLUMN_GAP = 24;
@@ -105,6 +133,22 @@ const PLAN_TIME_COL_WIDTH = 140;
 const PLAN_ACTION_COL_WIDTH = 220;
 const PLAN_PARAM_COL_WIDTH = 150;
 const PLAN_COMMENT_COL_WIDTH = 360;
+const PLAN_HEADER_LINE_HEIGHT = 22;
+const PLAN_GANTT_LABEL_WIDTH = 160;
+const PLAN_GANTT_BAR_HEIGHT = 36;
+const PLAN_GANTT_ROW_GAP = 6;
+const PLAN_GANTT_LANE_GAP = 14;
+const PLAN_GANTT_AXIS_HEIGHT = 40;
+const PLAN_GANTT_TARGET_WIDTH = 1200;
+const PLAN_GANTT_MIN_BAR_WIDTH = 6;
+const PLAN_GANTT_COLORS = [
+  { fill: '#dbeafe', stroke: '#2563eb' },
+  { fill: '#dcfce7', stroke: '#16a34a' },
+  { fill: '#fef9c3', stroke: '#ca8a04' },
+  { fill: '#f3e8ff', stroke: '#9333ea' },
+  { fill: '#ffe4e6', stroke: '#e11d48' },
+  { fill: '#ccfbf1', stroke: '#0d9488' },
+];
 
 const createPlanElementId = (prefix: string) =>
   typeof crypto !== 'undefined' && 'randomUUID' in crypto
@@ -124,6 +168,20 @@ const formatPlanCost = (value?: number | string) => {
   return '未知';
 };
 
+const formatPlanMetric = (metric?: PddlMetric | null) =>
+  metric && Array.isArray(metric.arguments) && metric.arguments.length
+    ? `${metric.type} ${formatPddlArgument(metric.arguments[0])}`
+    : '未定义（按动作数计）';
+
+// 求解器给出的代价与重新模拟出的代价差异超出浮点误差时视为不一致
+const isPlanCostMismatch = (reported?: number | string, recomputed?: number | null) => {
+  const reportedValue = typeof reported === 'string' ? Number(reported.trim()) : reported;
+  if (typeof reportedValue !== 'number' || Number.isNaN(reportedValue) || typeof recomputed !== 'number') {
+    return false;
+  }
+  return Math.abs(reportedValue - recomputed) > 1e-6 * Math.max(1, Math.abs(recomputed));
+};
+
 const formatPlanParameters = (parameters?: string[]) => {
   if (!Array.isArray(parameters) || parameters.length === 0) {
     return '无参数';
@@ -138,7 +196,8 @@ const createPlanNodeElement = (
   width: number,
   height: number,
   lines: string[],
-  isHeader = false
+  isHeader = false,
+  invalid = false
 ): PlaitElement => {
   return {
     id,
@@ -150,8 +209,8 @@ const createPlanNodeElement = (
     ],
     angle: 0,
     opacity: 1,
-    fill: isHeader ? '#e0f2fe' : '#fff7ed',
-    strokeColor: isHeader ? '#0284c7' : '#fb923c',
+    fill: invalid ? '#fee2e2' : isHeader ? '#e0f2fe' : '#fff7ed',
+    strokeColor: invalid ? '#dc2626' : isHeader ? '#0284c7' : '#fb923c',
     strokeWidth: 2,
     text: {
       children: lines.map((line) => ({
@@ -167,10 +226,144 @@ const createPlanNodeElement = (
   } as PlaitElement;
 };
 
+const createPlanTextElement = (id: string, x: number, y: number, width: number, text: string): PlaitElement =>
+  ({
+    id,
+    type: 'geometry',
+    shape: BasicShapes.text,
+    points: [
+      [x, y],
+      [x + width, y + 20],
+    ],
+    angle: 0,
+    opacity: 1,
+    autoSize: true,
+    text: {
+      children: [{ type: 'paragraph', align: 'center', children: [{ text }] }],
+    },
+  } as PlaitElement);
+
+const createPlanAxisLine = (id: string, from: [number, number], to: [number, number], arrow = false): PlaitElement =>
+  ({
+    id,
+    type: 'arrow-line',
+    shape: ArrowLineShape.straight,
+    points: [from, to],
+    source: { marker: ArrowLineMarkerType.none },
+    target: { marker: arrow ? ArrowLineMarkerType.arrow : ArrowLineMarkerType.none },
+    texts: [],
+    strokeColor: '#64748b',
+    strokeWidth: arrow ? 2 : 1,
+    opacity: 1,
+  } as PlaitElement);
+
+/**
+ * 时序计划的甘特图：按 layoutPlanGantt 的泳道与分行摆放条形，位置和长度对应开始时间和持续时间，
+ * 一眼就能看出并发；校验失败的步骤标红。没有持续时间的动作画成最窄的条。
+ */
+const buildPlanGanttElements = (
+  planSteps: SolverPlanStep[],
+  startY: number,
+  validation?: PlanValidationResult | null
+): PlaitElement[] => {
+  const layout = layoutPlanGantt(planSteps);
+  if (!layout) {
+    return [];
+  }
+  const { makespan } = layout;
+  const scale = PLAN_GANTT_TARGET_WIDTH / makespan;
+  const chartX = PLAN_LIST_START_X + PLAN_GANTT_LABEL_WIDTH + PLAN_COLUMN_GAP;
+  const chartWidth = makespan * scale;
+  const actionColors = new Map<string, (typeof PLAN_GANTT_COLORS)[number]>();
+  const colorOf = (action: string) => {
+    const key = action.toLowerCase();
+    const known = actionColors.get(key);
+    if (known) {
+      return known;
+    }
+    const color = PLAN_GANTT_COLORS[actionColors.size % PLAN_GANTT_COLORS.length];
+    actionColors.set(key, color);
+    return color;
+  };
+
+  const elements: PlaitElement[] = [];
+  let currentY = startY;
+  elements.push(
+    createPlanNodeElement(
+      createPlanElementId('plan-gantt-header'),
+      PLAN_LIST_START_X,
+      currentY,
+      PLAN_GANTT_LABEL_WIDTH + PLAN_COLUMN_GAP + chartWidth,
+      PLAN_NODE_HEIGHT,
+      [`甘特图  总时长：${formatPlanNumber(makespan)}`, '泳道按动作的第一个参数划分'],
+      true
+    )
+  );
+  currentY += PLAN_NODE_HEIGHT + PLAN_NODE_GAP;
+
+  layout.lanes.forEach(({ name, rows, bars }) => {
+    const laneHeight = rows * (PLAN_GANTT_BAR_HEIGHT + PLAN_GANTT_ROW_GAP) - PLAN_GANTT_ROW_GAP;
+    elements.push(
+      createPlanNodeElement(
+        createPlanElementId('plan-gantt-lane'),
+        PLAN_LIST_START_X,
+        currentY,
+        PLAN_GANTT_LABEL_WIDTH,
+        laneHeight,
+        [name],
+        true
+      )
+    );
+    bars.forEach(({ step, index, start, end, row }) => {
+      const invalid = validation?.steps[index]?.status === 'invalid';
+      const color = colorOf(step.action);
+      const bar = createPlanNodeElement(
+        createPlanElementId(`plan-gantt-bar-${index}`),
+        chartX + start * scale,
+        currentY + row * (PLAN_GANTT_BAR_HEIGHT + PLAN_GANTT_ROW_GAP),
+        Math.max((end - start) * scale, PLAN_GANTT_MIN_BAR_WIDTH),
+        PLAN_GANTT_BAR_HEIGHT,
+        [step.action],
+        false,
+        invalid
+      ) as PlaitElement & { fill: string; strokeColor: string };
+      if (!invalid) {
+        bar.fill = color.fill;
+        bar.strokeColor = color.stroke;
+      }
+      elements.push(bar);
+    });
+    currentY += laneHeight + PLAN_GANTT_LANE_GAP;
+  });
+
+  const axisY = currentY + PLAN_GANTT_ROW_GAP;
+  elements.push(
+    createPlanAxisLine(createPlanElementId('plan-gantt-axis'), [chartX, axisY], [chartX + chartWidth + 24, axisY], true)
+  );
+  const tickStep = getGanttTickStep(makespan);
+  for (let tick = 0; tick <= makespan + 1e-9; tick += tickStep) {
+    const x = chartX + tick * scale;
+    elements.push(createPlanAxisLine(createPlanElementId('plan-gantt-tick'), [x, axisY - 6], [x, axisY + 6]));
+    elements.push(
+      createPlanTextElement(
+        createPlanElementId('plan-gantt-tick-label'),
+        x - 30,
+        axisY + PLAN_GANTT_AXIS_HEIGHT / 4,
+        60,
+        `${Number(tick.toFixed(3))}`
+      )
+    );
+  }
+
+  return elements;
+};
+
 const buildPlanElements = (
   planSteps: SolverPlanStep[],
   totalCost?: number | string,
-  solverName?: string
+  solverName?: string,
+  validation?: PlanValidationResult | null,
+  metric?: PddlMetric | null
 ): PlaitElement[] => {
   const elements: PlaitElement[] = [];
   let currentY = PLAN_LIST_START_Y;
@@ -188,23 +381,40 @@ const buildPlanElements = (
   const summaryWidth =
     commentColumnX + PLAN_COMMENT_COL_WIDTH - PLAN_LIST_START_X;
 
+  const costMismatch = isPlanCostMismatch(totalCost, validation?.cost);
   const headerLines = [
-    `求解器：${solverName || '未提供'}  总成本：90`,
-    `总代价：${90}`,
-    `动作总数：${planSteps.length}`,
+    `求解器：${solverName || '未提供'}  动作总数：${planSteps.length}`,
+    `度量：${formatPlanMetric(metric)}`,
+    `求解器代价：${formatPlanCost(totalCost)}  重新计算：${
+      typeof validation?.cost === 'number' ? formatPlanCost(validation.cost) : '—'
+    }${costMismatch ? '  ⚠ 代价不一致' : ''}`,
   ];
+  if (validation) {
+    headerLines.push(
+      validation.failedStep !== null
+        ? `校验未通过：第 ${validation.failedStep + 1} 步无法执行`
+        : validation.unsatisfiedGoal
+        ? `校验未通过：目标未满足 ${validation.unsatisfiedGoal}`
+        : '校验：通过'
+    );
+  } else if (validation === null) {
+    // 调用方对含持续动作的 domain 传 null：时间规划需要按时间线模拟，目前不做校验
+    headerLines.push('校验：时间规划暂不校验');
+  }
+  const headerHeight = Math.max(PLAN_NODE_HEIGHT, headerLines.length * PLAN_HEADER_LINE_HEIGHT + 10);
   elements.push(
     createPlanNodeElement(
       createPlanElementId('plan-header'),
       PLAN_LIST_START_X,
       currentY,
       summaryWidth,
-      PLAN_NODE_HEIGHT,
+      headerHeight,
       headerLines,
-      true
+      true,
+      costMismatch || (validation ? !validation.valid : false)
     )
   );
-  currentY += PLAN_NODE_HEIGHT + PLAN_NODE_GAP;
+  currentY += headerHeight + PLAN_NODE_GAP;
 
   elements.push(
     createPlanNodeElement(
@@ -271,6 +481,14 @@ const buildPlanElements = (
       `执行 ${step.action}${
         paramTextJoined !== '无参数' ? `，涉及 ${paramTextJoined}` : ''
       }`;
+    // 校验失败的那一步整行标红，并在说明列写出不满足的前提
+    const stepValidation = validation?.steps[index];
+    const invalid = stepValidation?.status === 'invalid';
+    const commentLines = invalid
+      ? [zhLine, stepValidation.message || '校验未通过']
+      : stepValidation?.status === 'unchecked'
+      ? [zhLine, '未校验']
+      : [zhLine];
 
     elements.push(
       createPlanNodeElement(
@@ -280,7 +498,8 @@ const buildPlanElements = (
         PLAN_TIME_COL_WIDTH,
         PLAN_NODE_HEIGHT,
         [`t=${formatPlanNumber(step.time)}`],
-        false
+        false,
+        invalid
       )
     );
     elements.push(
@@ -291,7 +510,8 @@ const buildPlanElements = (
         PLAN_ACTION_COL_WIDTH,
         PLAN_NODE_HEIGHT,
         [step.action],
-        false
+        false,
+        invalid
       )
     );
     for (let i = 0; i < maxParamCount; i += 1) {
@@ -308,7 +528,8 @@ const buildPlanElements = (
           PLAN_PARAM_COL_WIDTH,
           PLAN_NODE_HEIGHT,
           [paramValue],
-          false
+          false,
+          invalid
         )
       );
     }
@@ -319,13 +540,19 @@ const buildPlanElements = (
         currentY,
         PLAN_COMMENT_COL_WIDTH,
         PLAN_NODE_HEIGHT,
-        [zhLine],
-        false
+        commentLines,
+        false,
+        invalid
       )
     );
     currentY += PLAN_NODE_HEIGHT + PLAN_NODE_GAP;
   });
 
+  // 带持续时间的时序计划在表格下方再画一份甘特图
+  if (planSteps.some((step) => typeof step.duration === 'number')) {
+    elements.push(...buildPlanGanttElements(planSteps, currentY + PLAN_NODE_GAP, validation));
+  }
+
   return elements;
 };
 
@@ -382,6 +609,9 @@ const LEGACY_MAIN_BOARD_CONTENT_KEY = 'main_board_content';
 const LEGACY_BOARD_FILES_KEY = 'board_files';
 const BOARD_ENTRIES_KEY = 'board_entries';
 const CURRENT_FILE_ID_KEY = 'current_board_file_id';
+const LLM_SETTINGS_KEY = 'llm_settings';
+// 选中元素过多时只把前面这些作为聊天上下文
+const CHAT_MAX_SELECTED_ELEMENTS = 50;
 
 localforage.config({
   name: 'Drawnix',
@@ -412,6 +642,71 @@ const buildApiUrl = (path: string) => {
   return `${normalizedBase}${normalizedPath}`;
 };
 
+// 把 domain/problem 画布还原成 PDDL 文本，失败时给出可直接提示给用户的原因；
+// 画布上任意编辑都可能让还原失败，这里不向外抛出异常
+const buildPddlTextFromBoard = (
+  fileType: FileType,
+  elements: PlaitElement[],
+  baseName: string
+): { text: string; pddl: PddlDomain | PddlProblem } | { error: string } => {
+  const issues: string[] = [];
+  try {
+    if (fileType === 'domain') {
+      const domain = convertGraphToPddlDomain(elements, baseName, issues);
+      if (issues.length) {
+        return { error: issues.join('\n') };
+      }
+      if (domain.actions.length === 0) {
+        return { error: '画布上没有可导出的 action。' };
+      }
+      return { text: formatPddlDomain(domain), pddl: domain };
+    }
+    if (fileType === 'problem') {
+      const problem = convertGraphToPddlProblem(elements, baseName, issues);
+      if (!problem) {
+        return { error: '画布上没有可导出的 problem。' };
+      }
+      if (issues.length) {
+        return { error: issues.join('\n') };
+      }
+      return { text: formatPddlProblem(problem), pddl: problem };
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    return { error: `画布内容无法还原为 PDDL：${message}` };
+  }
+  return { error: '只支持导出 domain 或 problem 类型的文件。' };
+};
+
+type SolveEngine = keyof FileManagerCopy['solveDialog']['engines'];
+
+const BROWSER_PLANNER_OPTIONS: Record<Exclude<SolveEngine, 'backend'>, Omit<PlannerOptions, 'maxNodes'>> = {
+  bfs: { search: 'bfs', heuristic: 'h_add' },
+  ucs: { search: 'ucs', heuristic: 'h_add' },
+  'gbfs-hadd': { search: 'gbfs', heuristic: 'h_add' },
+  'gbfs-hff': { search: 'gbfs', heuristic: 'h_ff' },
+  'astar-hadd': { search: 'astar', heuristic: 'h_add' },
+};
+
+const EDIT_REVIEW_KIND_CLASS: Record<PddlDiffHunk['kind'], string> = {
+  added: styles.editReviewAdded,
+  removed: styles.editReviewRemoved,
+  changed: styles.editReviewChanged,
+};
+
+/** 助手给出的 PDDL 与当前画布的差异，等待用户逐条确认 */
+type PendingPddlEdit = {
+  fileId: string;
+  target: PddlDiffTarget;
+  hunks: PddlDiffHunk[];
+  /** 勾选接受的 hunk id */
+  accepted: string[];
+  /** 当前画布无法还原为同类型的 PDDL，应用时整体重建而不沿用布局 */
+  replacesBoard: boolean;
+};
+
+const isAbortError = (error: unknown) => error instanceof DOMException && error.name === 'AbortError';
+
 const NODE_HIGHLIGHT_CLASS = 'drawnix-highlight-node';
 const EDGE_HIGHLIGHT_CLASS = 'drawnix-highlight-edge';
 
@@ -428,6 +723,103 @@ const flattenPlaitElements = (elements: PlaitElement[]): PlaitElement[] => {
   return result;
 };
 
+const PLAN_FADE_NODE_CLASS = 'drawnix-fade-node';
+const PLAN_FADE_EDGE_CLASS = 'drawnix-fade-edge';
+const PLAN_VALUE_CLASS = 'drawnix-plan-value';
+const PLAN_PLAYBACK_INTERVAL = 1200;
+const PLAN_VALUE_MAX_INSTANCES = 4;
+
+/**
+ * 在 problem 画布上展示计划执行到某一步的状态：成立的 init/goal 谓词节点与对应连线高亮，
+ * 不再成立的淡出，当前动作涉及的对象高亮，数值函数节点下方写出当前取值。
+ * 只改动 DOM，不写回画布数据；返回的函数用于撤销这些改动。
+ */
+const decoratePlanState = (
+  board: PlaitBoard,
+  state: PlanStateSnapshot,
+  actingObjects: string[]
+): (() => void) => {
+  const facts = new Set(state.facts.map((fact) => fact.toLowerCase()));
+  const values = new Map(state.fluents.map(({ name, value }) => [name.toLowerCase(), value]));
+  const acting = new Set(actingObjects.map((name) => name.toLowerCase()));
+  const keyOf = (name: string, args: string[]) => `(${[name, ...args].join(' ')})`.toLowerCase();
+  const decorated: Array<{ g: SVGGElement; className: string }> = [];
+  const overlays: SVGTextElement[] = [];
+  const decorate = (element: PlaitElement, className: string) => {
+    const g = PlaitElement.getElementG(element);
+    if (g) {
+      g.classList.add(className);
+      decorated.push({ g, className });
+    }
+  };
+
+  const allElements = flattenPlaitElements(board.children as PlaitElement[]);
+  const predicateNodes = new Map<string, { instances: string[][]; holds: boolean[] }>();
+  allElements.forEach((element) => {
+    const metadata = (element as PddlGraphElement).pddl;
+    const name = metadata?.name;
+    if (!metadata || !name) {
+      return;
+    }
+    if (metadata.role === 'init' || metadata.role === 'goal') {
+      const instances = metadata.instances ?? [[]];
+      const holds = instances.map(
+        (args) => facts.has(keyOf(name, args)) !== (metadata.polarity === 'negative')
+      );
+      predicateNodes.set(element.id, { instances, holds });
+      decorate(element, holds.some(Boolean) ? NODE_HIGHLIGHT_CLASS : PLAN_FADE_NODE_CLASS);
+    } else if (metadata.role === 'object' && acting.has(name.toLowerCase())) {
+      decorate(element, NODE_HIGHLIGHT_CLASS);
+    } else if (metadata.role === 'function') {
+      const g = PlaitElement.getElementG(element);
+      const points = (element as PlaitElement & { points?: [number, number][] }).points;
+      if (!g || !points || points.length < 2) {
+        return;
+      }
+      const instances = metadata.instances ?? [[]];
+      const parts = instances.slice(0, PLAN_VALUE_MAX_INSTANCES).map((args) => {
+        const value = values.get(keyOf(name, args));
+        return `${args.length ? args.join(' ') : name} = ${value ?? '?'}`;
+      });
+      if (instances.length > PLAN_VALUE_MAX_INSTANCES) {
+        parts.push('…');
+      }
+      const text = document.createElementNS('http://www.w3.org/2000/svg', 'text');
+      text.setAttribute('x', `${(points[0][0] + points[1][0]) / 2}`);
+      text.setAttribute('y', `${Math.max(points[0][1], points[1][1]) + 16}`);
+      text.setAttribute('text-anchor', 'middle');
+      text.classList.add(PLAN_VALUE_CLASS);
+      text.textContent = parts.join(', ');
+      g.appendChild(text);
+      overlays.push(text);
+    }
+  });
+
+  // 谓词节点按名字合并，连线上记着实参，据此判断这条线对应的事实是否成立
+  allElements.forEach((element) => {
+    const metadata = (element as PddlGraphElement).pddl;
+    const argumentIndex = metadata?.argumentIndex;
+    if (metadata?.role !== 'argument-edge' || argumentIndex === undefined) {
+      return;
+    }
+    const line = element as PlaitElement & { source?: { boundId?: string }; target?: { boundId?: string } };
+    const predicate =
+      predicateNodes.get(line.source?.boundId ?? '') ?? predicateNodes.get(line.target?.boundId ?? '');
+    if (!predicate) {
+      return;
+    }
+    const lit = predicate.instances.some(
+      (args, index) => predicate.holds[index] && args[argumentIndex] === metadata.name
+    );
+    decorate(element, lit ? EDGE_HIGHLIGHT_CLASS : PLAN_FADE_EDGE_CLASS);
+  });
+
+  return () => {
+    decorated.forEach(({ g, className }) => g.classList.remove(className));
+    overlays.forEach((overlay) => overlay.remove());
+  };
+};
+
 const clamp = (value: number, min: number, max: number) => {
   if (Number.isNaN(value)) {
     return min;
@@ -468,6 +860,16 @@ const getElementTextContent = (element: PlaitElement): string => {
 
 // 从节点label中提取type
 const getElementType = (element: PlaitElement): string => {
+  // 由 PDDL 生成的节点直接使用元数据
+  const metadata = (element as PddlGraphElement).pddl;
+  if (metadata?.role === 'parameter' || metadata?.role === 'object') {
+    return metadata.type ?? metadata.name ?? '';
+  }
+  if (metadata?.name) {
+    // 否定文字与同名的肯定文字不是同一类节点，与按标签 "not at" 判断时保持一致
+    return metadata.polarity === 'negative' ? `not ${metadata.name}` : metadata.name;
+  }
+
   const textContent = getElementTextContent(element);
   if (!textContent.trim()) return '';
   
@@ -556,14 +958,26 @@ export function App() {
   const [tutorial, setTutorial] = useState(false);
   const [uploading, setUploading] = useState(false);
   const [chatOpen, setChatOpen] = useState(false);
-  const [messages, setMessages] = useState<Array<{
-    id: string;
-    role: 'user' | 'assistant';
-    content: string;
-    timestamp: number;
-  }>>([]);
+  const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [isLoading, setIsLoading] = useState(false);
+  const [llmSettings, setLlmSettings] = useState<LlmSettings>(DEFAULT_LLM_SETTINGS);
+  const [llmSettingsDraft, setLlmSettingsDraft] = useState<LlmSettings | null>(null);
+  const [pendingEdit, setPendingEdit] = useState<PendingPddlEdit | null>(null);
+  const [editReviewOpen, setEditReviewOpen] = useState(false);
   const [solvingPlan, setSolvingPlan] = useState(false);
+  const [solveDialogOpen, setSolveDialogOpen] = useState(false);
+  const [solveDomainId, setSolveDomainId] = useState('');
+  const [solveProblemId, setSolveProblemId] = useState('');
+  const [solveEngine, setSolveEngine] = useState<SolveEngine>('backend');
+  const [solveNodeBudget, setSolveNodeBudget] = useState(DEFAULT_PLANNER_OPTIONS.maxNodes);
+  const [solveProgress, setSolveProgress] = useState<PlannerStatistics | null>(null);
+  const solveAbortRef = useRef<AbortController | null>(null);
+  const chatAbortRef = useRef<AbortController | null>(null);
+  const [simulatorOpen, setSimulatorOpen] = useState(false);
+  const [simulatorDomainId, setSimulatorDomainId] = useState('');
+  const [simulatorProblemId, setSimulatorProblemId] = useState('');
+  const [simulatorPosition, setSimulatorPosition] = useState(0);
+  const [planPlayback, setPlanPlayback] = useState<{ position: number; playing: boolean } | null>(null);
   const boardRef = useRef<PlaitBoard | null>(null);
   const highlightedElementsRef = useRef<Set<string>>(new Set());
   const previousElementsRef = useRef<Map<string, any>>(new Map());
@@ -1028,6 +1442,78 @@ export function App() {
   const triggerUploadDialog = useCallback(() => {
     fileInputRef.current?.click();
   }, []);
+  const solveCandidates = useMemo(() => {
+    const files = flattenFiles(entries);
+    return {
+      domains: files.filter((file) => file.fileType === 'domain'),
+      problems: files.filter((file) => file.fileType === 'problem'),
+    };
+  }, [entries]);
+
+  // 当前打开的文件以画布上的最新内容为准，其余文件读取已保存的数据
+  const readBoardPddl = useCallback(
+    (fileId: string) => {
+      const file = findFileById(entries, fileId);
+      if (!file) {
+        return { error: '所选文件不存在。' };
+      }
+      const baseName = stripFileExtension(file.name) || file.name;
+      const elements = file.id === currentFileId ? value.children : file.data.children;
+      const result = buildPddlTextFromBoard(file.fileType, elements, baseName);
+      return 'error' in result ? { error: `${file.name}：${result.error}` } : result;
+    },
+    [currentFileId, entries, value.children]
+  );
+
+  // 用找到的 domain/problem 校验计划；时间规划需要按时间线模拟，暂时只校验经典计划
+  const validatePlanAgainstFiles = useCallback(
+    (domainFileId: string, problemFileId: string, steps: SolverPlanStep[]) => {
+      const domainResult = readBoardPddl(domainFileId);
+      if ('error' in domainResult) {
+        return { error: domainResult.error };
+      }
+      const problemResult = readBoardPddl(problemFileId);
+      if ('error' in problemResult) {
+        return { error: problemResult.error };
+      }
+      const domain = domainResult.pddl as PddlDomain;
+      const problem = problemResult.pddl as PddlProblem;
+      try {
+        return {
+          validation: domain.actions.some(isDurativeAction) ? null : validatePddlPlan(domain, problem, steps),
+          metric: problem.metrics ?? null,
+        };
+      } catch (error) {
+        return { error: error instanceof Error ? error.message : String(error) };
+      }
+    },
+    [readBoardPddl]
+  );
+
+  // 导入的计划文件不带 domain/problem：当前打开的 problem 优先，其次唯一的 problem；
+  // domain 依次取 problem 记下的、名字与 (:domain …) 一致的、唯一的 domain
+  const findPlanTargets = useCallback(() => {
+    const { domains, problems } = solveCandidates;
+    const problemFile =
+      problems.find((file) => file.id === currentFileId) ?? (problems.length === 1 ? problems[0] : undefined);
+    if (!problemFile) {
+      return null;
+    }
+    const problemResult = readBoardPddl(problemFile.id);
+    const problem = 'error' in problemResult ? null : (problemResult.pddl as PddlProblem);
+    const domainName = problem?.domain ?? problem?.domain_name;
+    const domainFile =
+      domains.find((file) => file.id === problemFile.domainFileId) ??
+      (domainName
+        ? domains.find((file) => {
+            const domainResult = readBoardPddl(file.id);
+            return !('error' in domainResult) && (domainResult.pddl as PddlDomain).name === domainName;
+          })
+        : undefined) ??
+      (domains.length === 1 ? domains[0] : undefined);
+    return domainFile ? { domainFileId: domainFile.id, problemFileId: problemFile.id } : null;
+  }, [currentFileId, readBoardPddl, solveCandidates]);
+
   const handlePddlUpload = useCallback(
     async (event: ChangeEvent<HTMLInputElement>) => {
       const file = event.target.files?.[0];
@@ -1043,57 +1529,54 @@ export function App() {
       }
       const detectedType = detectPddlFileType(content);
       if (!detectedType) {
-        window.alert('无法识别上传的 PDDL 文件类型（domain 或 problem）。');
+        window.alert('无法识别上传文件的类型（domain、problem 或计划）。');
         return;
       }
       setUploading(true);
       try {
-        const response = await fetch(
-          buildApiUrl(
-            detectedType === 'domain'
-              ? '/pddl/parse_domain'
-              : '/pddl/parse_problem'
-          ),
-          {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-              [detectedType]: content,
-            }),
-          }
-        );
-        let payload: PddlParseResponse<PddlDomain | PddlProblem>;
-        try {
-          payload = (await response.json()) as PddlParseResponse<
-            PddlDomain | PddlProblem
-          >;
-        } catch {
-          throw new Error('解析接口返回了无效的 JSON 数据。');
-        }
-        if (!response.ok) {
-          const errorMessage =
-            !payload.success && payload.error
-              ? payload.error
-              : `${response.status} ${response.statusText}`;
-          throw new Error(errorMessage);
-        }
-        if (!payload.success) {
-          throw new Error(payload.error || '解析失败，请稍后重试。');
-        }
-        const parsedName =
-          detectedType === 'domain'
-            ? (payload.content as PddlDomain).name
-            : (payload.content as PddlProblem).name;
-        const fallbackTypeKey = detectedType === 'domain' ? 'domain' : 'problem';
-        const fallbackTypeLabel = fileManagerText.fileTypes[fallbackTypeKey];
-        const fallbackSuffix = isChineseLanguage(uiLanguage) ? '文件' : ' file';
-        const fallbackName =
-          stripFileExtension(file.name) || `${fallbackTypeLabel}${fallbackSuffix}`;
-        const uniqueName = ensureUniqueFileName(entries, parsedName, fallbackName);
-        
-        // 为domain文件创建图形元素
+        let parsedName: string;
         let initialData: AppValue = { children: [] };
-        if (detectedType === 'domain' || detectedType === 'problem') {
+        let planSource: PlanFileSource | undefined;
+        let planNotice: string | null = null;
+        if (detectedType === 'plan') {
+          const payload = parsePddlPlan(content);
+          if (!payload.success) {
+            throw new Error(payload.error);
+          }
+          // 计划文件只有动作序列，找得到对应的 domain/problem 时立即校验，否则提示用户在模拟面板中关联
+          const steps = payload.content.steps;
+          const cost = payload.content.cost ?? undefined;
+          const targets = findPlanTargets();
+          const checked = targets ? validatePlanAgainstFiles(targets.domainFileId, targets.problemFileId, steps) : null;
+          parsedName = stripFileExtension(file.name);
+          if (targets && checked && !('error' in checked)) {
+            planSource = { steps, cost, ...targets };
+            initialData = {
+              children: buildPlanElements(steps, cost, undefined, checked.validation, checked.metric),
+            };
+          } else {
+            planSource = { steps, cost };
+            initialData = { children: buildPlanElements(steps, cost) };
+            planNotice = `计划已导入，但${
+              checked && 'error' in checked ? `校验时出错：${checked.error}\n` : '没有找到对应的 domain 和 problem，'
+            }请在模拟面板中选择 domain 和 problem，关联后会重新校验。`;
+          }
+        } else {
+          const payload = parsePddl(content, detectedType);
+          if (!payload.success) {
+            const diagnostics = payload.details?.diagnostics ?? [];
+            throw new Error(
+              diagnostics.length
+                ? formatPddlDiagnostics(content, diagnostics)
+                : payload.error || '解析失败，请稍后重试。'
+            );
+          }
+          parsedName =
+            detectedType === 'domain'
+              ? (payload.content as PddlDomain).name
+              : (payload.content as PddlProblem).name;
+
+          // 为domain文件创建图形元素
           try {
             const graphElements = detectedType === 'domain'
               ? convertPddlDomainToGraph(payload.content as PddlDomain)
@@ -1104,8 +1587,16 @@ export function App() {
             // 继续创建空白画布，不中断上传流程
           }
         }
-        
-        const newFile = createBlankFile(uniqueName, initialData, detectedType);
+        const fallbackTypeLabel = fileManagerText.fileTypes[detectedType];
+        const fallbackSuffix = isChineseLanguage(uiLanguage) ? '文件' : ' file';
+        const fallbackName =
+          stripFileExtension(file.name) || `${fallbackTypeLabel}${fallbackSuffix}`;
+        const uniqueName = ensureUniqueFileName(entries, parsedName, fallbackName);
+
+        const newFile: BoardFileEntry = {
+          ...createBlankFile(uniqueName, initialData, detectedType),
+          plan: planSource,
+        };
         updateEntriesState((prev) => {
           if (!selectedFolderId) {
             return [...prev, newFile];
@@ -1121,6 +1612,9 @@ export function App() {
         setTutorial(!hasContent(newFile.data));
         setSidebarOpen(false);
         await localforage.setItem(CURRENT_FILE_ID_KEY, newFile.id);
+        if (planNotice) {
+          window.alert(planNotice);
+        }
       } catch (error) {
         console.error(error);
         window.alert(
@@ -1135,6 +1629,7 @@ export function App() {
     [
       entries,
       fileManagerText,
+      findPlanTargets,
       selectedFolderId,
       setCurrentFileId,
       setSidebarOpen,
@@ -1142,42 +1637,95 @@ export function App() {
       setValue,
       uiLanguage,
       updateEntriesState,
+      validatePlanAgainstFiles,
     ]
   );
-  
-  const handleSolvePlanRequest = useCallback(async () => {
+
+  // 当前文件优先，其次当前 problem 关联的 domain，最后是同类型的第一个文件
+  const openSolveDialog = useCallback(() => {
+    const pickDefault = (files: BoardFileEntry[], preferredId?: string) =>
+      files.find((file) => file.id === currentFileId)?.id ??
+      files.find((file) => file.id === preferredId)?.id ??
+      files[0]?.id ??
+      '';
+    const linkedDomainId = solveCandidates.problems.find((file) => file.id === currentFileId)?.domainFileId;
+    setSolveDomainId(pickDefault(solveCandidates.domains, linkedDomainId));
+    setSolveProblemId(pickDefault(solveCandidates.problems));
+    setSolveDialogOpen(true);
+  }, [currentFileId, solveCandidates]);
+
+  // 求解中关闭对话框即取消求解
+  const closeSolveDialog = useCallback(() => {
+    solveAbortRef.current?.abort();
+    setSolveDialogOpen(false);
+  }, []);
+
+  const handleSolvePlanRequest = useCallback(async (domainFileId: string, problemFileId: string) => {
     if (solvingPlan) {
       window.alert('正在求解计划，请稍后…');
       return;
     }
+    const domainResult = readBoardPddl(domainFileId);
+    if ('error' in domainResult) {
+      window.alert(domainResult.error);
+      return;
+    }
+    const problemResult = readBoardPddl(problemFileId);
+    if ('error' in problemResult) {
+      window.alert(problemResult.error);
+      return;
+    }
+    const abortController = new AbortController();
+    solveAbortRef.current = abortController;
+    setSolveProgress(null);
     setSolvingPlan(true);
     try {
-      const currentFile =
-        currentFileId && entries.length > 0
-          ? findFileById(entries, currentFileId)
-          : null;
-
-      const response = await fetch(buildApiUrl('/pddl/solve'), {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          fileId: currentFileId,
-          fileType: currentFile?.fileType ?? 'others',
-        }),
-      });
-
       let payload: SolvePlanResponse;
-      try {
-        payload = (await response.json()) as SolvePlanResponse;
-      } catch {
-        throw new Error('后端返回了无效的 JSON 响应。');
-      }
+      if (solveEngine === 'backend') {
+        const response = await fetch(buildApiUrl('/pddl/solve'), {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            domain: domainResult.text,
+            problem: problemResult.text,
+            domainFileId,
+            problemFileId,
+          }),
+          signal: abortController.signal,
+        });
+
+        try {
+          payload = (await response.json()) as SolvePlanResponse;
+        } catch {
+          throw new Error('后端返回了无效的 JSON 响应。');
+        }
 
-      if (!response.ok || !payload?.success) {
-        const reason =
-          (payload && (payload.message || payload.error)) ||
-          `${response.status} ${response.statusText}`;
-        throw new Error(reason);
+        if (!response.ok || !payload?.success) {
+          const reason =
+            (payload && (payload.message || payload.error)) ||
+            `${response.status} ${response.statusText}`;
+          throw new Error(reason);
+        }
+      } else {
+        const options: PlannerOptions = { ...BROWSER_PLANNER_OPTIONS[solveEngine], maxNodes: solveNodeBudget };
+        const result = await solveWithBrowserPlanner(
+          domainResult.pddl as PddlDomain,
+          problemResult.pddl as PddlProblem,
+          options,
+          { signal: abortController.signal, onProgress: setSolveProgress }
+        );
+        if (result.status === 'unsolvable') {
+          throw new Error('内置规划器已搜索完全部可达状态，该问题无解。');
+        }
+        if (result.status === 'budget-exceeded') {
+          throw new Error(`已展开 ${result.statistics.expanded} 个节点仍未找到计划，可以调大节点上限或改用后端求解器。`);
+        }
+        payload = {
+          success: true,
+          solver: fileManagerText.solveDialog.engines[solveEngine],
+          plan: result.plan,
+          cost: result.cost,
+        };
       }
 
       const planSteps = Array.isArray(payload.plan) ? payload.plan : [];
@@ -1185,10 +1733,17 @@ export function App() {
         throw new Error('求解成功但未返回可用的 plan 序列。');
       }
 
+      // 时间规划需要按时间线模拟，暂时只校验经典计划
+      const domain = domainResult.pddl as PddlDomain;
+      const validation = domain.actions.some(isDurativeAction)
+        ? null
+        : validatePddlPlan(domain, problemResult.pddl as PddlProblem, planSteps);
       const planElements = buildPlanElements(
         planSteps,
         payload.cost ?? payload.metric,
-        payload.solver
+        payload.solver,
+        validation,
+        (problemResult.pddl as PddlProblem).metrics
       );
       const planData: AppValue = {
         children: planElements,
@@ -1201,7 +1756,16 @@ export function App() {
         ? `${payload.solver} ${planLabel}`
         : defaultPlanName;
       const planName = ensureUniqueFileName(entries, preferredName, planLabel);
-      const planFile = createBlankFile(planName, planData, 'plan');
+      const planFile: BoardFileEntry = {
+        ...createBlankFile(planName, planData, 'plan'),
+        plan: {
+          steps: planSteps,
+          domainFileId,
+          problemFileId,
+          cost: payload.cost ?? payload.metric,
+          solver: payload.solver,
+        },
+      };
 
       updateEntriesState((prev) => {
         if (!selectedFolderId) {
@@ -1218,91 +1782,164 @@ export function App() {
       setValue(planData);
       setTutorial(!hasContent(planData));
       setSidebarOpen(false);
+      setSolveDialogOpen(false);
       await localforage.setItem(CURRENT_FILE_ID_KEY, planFile.id);
     } catch (error) {
+      if (isAbortError(error)) {
+        return;
+      }
       window.alert(
         error instanceof Error
           ? `求解失败：${error.message}`
           : '求解失败，请稍后重试。'
       );
     } finally {
+      if (solveAbortRef.current === abortController) {
+        solveAbortRef.current = null;
+      }
       setSolvingPlan(false);
+      setSolveProgress(null);
     }
   }, [
-    currentFileId,
     entries,
     fileManagerText,
+    readBoardPddl,
     selectedFolderId,
     setCurrentFileId,
     setSidebarOpen,
     setTutorial,
     setValue,
+    solveEngine,
+    solveNodeBudget,
     solvingPlan,
     uiLanguage,
     updateEntriesState,
   ]);
+
+  const handleSolveDialogConfirm = useCallback(() => {
+    if (!solveDomainId || !solveProblemId) {
+      return;
+    }
+    void handleSolvePlanRequest(solveDomainId, solveProblemId);
+  }, [handleSolvePlanRequest, solveDomainId, solveProblemId]);
   
   useEffect(() => {
-    const listener = () => {
-      void handleSolvePlanRequest();
+    window.addEventListener('drawnix:pddl-solve-request', openSolveDialog);
+    return () => {
+      window.removeEventListener('drawnix:pddl-solve-request', openSolveDialog);
     };
-    window.addEventListener('drawnix:pddl-solve-request', listener);
+  }, [openSolveDialog]);
+
+  // 把当前画布还原成 PDDL 文本并下载
+  const handlePddlExportRequest = useCallback(() => {
+    const currentFile =
+      currentFileId && entries.length > 0
+        ? findFileById(entries, currentFileId)
+        : null;
+    if (!currentFile) {
+      window.alert('请先打开一个 domain 或 problem 文件。');
+      return;
+    }
+    const baseName = stripFileExtension(currentFile.name) || currentFile.name;
+    const result = buildPddlTextFromBoard(currentFile.fileType, value.children, baseName);
+    if ('error' in result) {
+      window.alert(result.error);
+      return;
+    }
+    download(new Blob([result.text], { type: 'text/plain' }), `${baseName}.pddl`);
+  }, [currentFileId, entries, value]);
+
+  useEffect(() => {
+    window.addEventListener('drawnix:pddl-export-request', handlePddlExportRequest);
     return () => {
-      window.removeEventListener('drawnix:pddl-solve-request', listener);
+      window.removeEventListener('drawnix:pddl-export-request', handlePddlExportRequest);
     };
-  }, [handleSolvePlanRequest]);
+  }, [handlePddlExportRequest]);
   
   // LLM 聊天相关函数
   const toggleChat = useCallback(() => {
+    setSimulatorOpen(false);
     setChatOpen(prev => !prev);
   }, []);
 
+  // 发给助手的上下文：当前文件还原出的 PDDL/计划文本，以及画布上选中的元素
+  const collectChatContext = useCallback((): ChatContext => {
+    const file = currentFileId ? findFileById(entries, currentFileId) : null;
+    const board = boardRef.current;
+    const selection: ChatSelectedElement[] = board
+      ? getSelectedElements(board)
+          .filter((element) => element?.id && element.type !== 'group')
+          .slice(0, CHAT_MAX_SELECTED_ELEMENTS)
+          .map((element) => {
+            const text = getElementText(element);
+            const pddl = (element as PddlGraphElement).pddl;
+            return {
+              id: element.id,
+              type: element.type ?? 'unknown',
+              ...(text ? { text } : {}),
+              ...(pddl ? { pddl } : {}),
+            };
+          })
+      : [];
+    if (!file) {
+      return { file: null, selection };
+    }
+    const base = { name: file.name, type: file.fileType };
+    if (file.fileType === 'domain' || file.fileType === 'problem') {
+      const result = readBoardPddl(file.id);
+      return {
+        file: 'error' in result ? { ...base, content: null, error: result.error } : { ...base, content: result.text },
+        selection,
+      };
+    }
+    if (file.fileType === 'plan' && file.plan?.steps.length) {
+      return { file: { ...base, content: formatPddlPlan(file.plan.steps) }, selection };
+    }
+    return { file: { ...base, content: null }, selection };
+  }, [currentFileId, entries, readBoardPddl]);
+
   const handleSendMessage = useCallback(async (content: string) => {
-    const userMessage = {
+    const userMessage: ChatMessage = {
       id: `user-${Date.now()}`,
-      role: 'user' as const,
+      role: 'user',
       content,
       timestamp: Date.now(),
     };
     
     setMessages(prev => [...prev, userMessage]);
     setIsLoading(true);
-    
-    try {
-      type ChatGenerateResponse = {
-        initial_pddl?: unknown;
-        content?: unknown;
-      };
-
-      const currentFile =
-        currentFileId && entries.length > 0
-          ? findFileById(entries, currentFileId)
-          : null;
-      const requestedPddlType: FileType =
-        currentFile && currentFile.type === 'file'
-          ? currentFile.fileType
-          : 'others';
-
-      const response = await fetch(buildApiUrl('/chat/generate'), {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ pddl_type: requestedPddlType }),
-      });
 
-      let payload: ChatGenerateResponse;
-      try {
-        payload = (await response.json()) as ChatGenerateResponse;
-      } catch {
-        throw new Error('后端返回了无效的 JSON 响应。');
-      }
+    // 助手的回复边收边显示：第一段文本到达时插入消息，之后原地更新
+    const assistantId = `assistant-${Date.now()}`;
+    const updateAssistantMessage = (patch: Partial<ChatMessage>) => {
+      setMessages((prev) =>
+        prev.some((message) => message.id === assistantId)
+          ? prev.map((message) => (message.id === assistantId ? { ...message, ...patch } : message))
+          : [...prev, { id: assistantId, role: 'assistant', content: '', timestamp: Date.now(), ...patch }]
+      );
+    };
+    const abortController = new AbortController();
+    chatAbortRef.current = abortController;
+    let receivedText = '';
 
-      if (!response.ok) {
-        const reason =
-          typeof payload.content === 'string' && payload.content
-            ? payload.content
-            : `${response.status} ${response.statusText}`;
-        throw new Error(reason);
-      }
+    try {
+      const context = collectChatContext();
+      const requestedPddlType: FileType = context.file?.type ?? 'others';
+      const provider = createLlmProvider(llmSettings, buildApiUrl('/chat/generate'));
+      const payload = await provider.generate(
+        {
+          pddl_type: requestedPddlType,
+          messages: toChatHistory([...messages, userMessage]),
+          context,
+        },
+        {
+          signal: abortController.signal,
+          onText: (text) => {
+            receivedText = text;
+            updateAssistantMessage({ content: text, streaming: true });
+          },
+        }
+      );
 
       if (payload.initial_pddl) {
         let parsedPayload: unknown = payload.initial_pddl;
@@ -1317,12 +1954,14 @@ export function App() {
 
         let inferredType: FileType = requestedPddlType;
         let nextValue: AppValue | null = null;
+        let proposed: PddlDiffResult | null = null;
 
         if (isDomainPayload(parsedPayload)) {
           try {
             const graphElements = convertPddlDomainToGraph(parsedPayload);
             nextValue = { children: graphElements };
             inferredType = 'domain';
+            proposed = { kind: 'domain', pddl: parsedPayload };
           } catch (graphError) {
             console.warn('初始 Domain PDDL 转换为画布失败:', graphError);
           }
@@ -1331,6 +1970,7 @@ export function App() {
             const graphElements = convertPddlProblemToGraph(parsedPayload);
             nextValue = { children: graphElements };
             inferredType = 'problem';
+            proposed = { kind: 'problem', pddl: parsedPayload };
           } catch (graphError) {
             console.warn('初始 Problem PDDL 转换为画布失败:', graphError);
           }
@@ -1338,7 +1978,51 @@ export function App() {
           console.warn('初始 PDDL 数据无法识别为 domain 或 problem:', parsedPayload);
         }
 
-        if (nextValue) {
+        const currentFile = currentFileId ? findFileById(entries, currentFileId) : null;
+        if (nextValue && proposed && currentFile && hasContent(value)) {
+          // 画布上已有内容时不直接覆盖，先与画布还原出的 PDDL 比较，交给用户逐条确认
+          const boardResult = currentFile.fileType === proposed.kind ? readBoardPddl(currentFile.id) : null;
+          const current = boardResult && !('error' in boardResult) ? boardResult.pddl : null;
+          const target: PddlDiffTarget =
+            proposed.kind === 'domain'
+              ? {
+                  kind: 'domain',
+                  proposed: proposed.pddl,
+                  current: (current as PddlDomain | null) ?? {
+                    ...proposed.pddl,
+                    requirements: [],
+                    types: [],
+                    constants: [],
+                    predicates: [],
+                    functions: [],
+                    actions: [],
+                  },
+                }
+              : {
+                  kind: 'problem',
+                  proposed: proposed.pddl,
+                  current: (current as PddlProblem | null) ?? {
+                    ...proposed.pddl,
+                    requirements: [],
+                    objects: [],
+                    init: [],
+                    goal: null,
+                    metrics: null,
+                  },
+                };
+          const hunks = diffPddl(target);
+          if (hunks.length) {
+            setPendingEdit({
+              fileId: currentFile.id,
+              target,
+              hunks,
+              accepted: hunks.map((hunk) => hunk.id),
+              replacesBoard: current === null,
+            });
+            setEditReviewOpen(true);
+          }
+        } else if (nextValue) {
+          // 空白画布没有可丢失的布局，直接使用建议的内容
           setValue(nextValue);
           setTutorial(!hasContent(nextValue));
           if (currentFileId) {
@@ -1359,42 +2043,298 @@ export function App() {
         }
       }
 
-      const assistantTimestamp = Date.now();
-      const assistantMessage = {
-        id: `assistant-${assistantTimestamp}`,
-        role: 'assistant' as const,
+      updateAssistantMessage({
         content:
           typeof payload.content === 'string' && payload.content
             ? payload.content
             : 'LLM 接口没有返回可显示的内容。',
-        timestamp: assistantTimestamp,
-      };
-
-      setMessages((prev) => [...prev, assistantMessage]);
+        timestamp: Date.now(),
+        streaming: false,
+      });
     } catch (error) {
+      // 用户停止时保留已经收到的部分
+      if (isAbortError(error)) {
+        updateAssistantMessage({ content: receivedText, streaming: false, stopped: true });
+        return;
+      }
       console.error('聊天错误:', error);
-      const errorMessage = {
+      if (receivedText) {
+        updateAssistantMessage({ streaming: false });
+      }
+      const errorMessage: ChatMessage = {
         id: `error-${Date.now()}`,
-        role: 'assistant' as const,
-        content: '抱歉，处理您的消息时出现了错误。请稍后重试。',
+        role: 'assistant',
+        content:
+          error instanceof Error && error.message
+            ? `抱歉，处理您的消息时出现了错误：${error.message}`
+            : '抱歉，处理您的消息时出现了错误。请稍后重试。',
         timestamp: Date.now(),
+        error: true,
       };
       setMessages(prev => [...prev, errorMessage]);
     } finally {
+      if (chatAbortRef.current === abortController) {
+        chatAbortRef.current = null;
+      }
       setIsLoading(false);
     }
-  }, [currentFileId, entries, setTutorial, updateEntriesState]);
-
-  const handleCreateFile = useCallback(
-    async (fileName: string, fileType: FileType) => {
-      const trimmed = fileName.trim();
-      let finalName = trimmed || generateNewFileName(entries, defaultFileNameBase);
-
-      if (isNameTaken(entries, 'file', finalName)) {
-        finalName = generateNewFileName(entries, defaultFileNameBase);
-      }
+  }, [
+    collectChatContext,
+    currentFileId,
+    entries,
+    llmSettings,
+    messages,
+    readBoardPddl,
+    setTutorial,
+    updateEntriesState,
+    value,
+  ]);
 
-      const newFile = createBlankFile(finalName, undefined, fileType);
+  // 只把勾选的修改写回画布：含义没变的节点沿用原来的位置，修改前的画布留作撤销
+  const applyPendingEdit = useCallback(() => {
+    if (!pendingEdit) {
+      return;
+    }
+    setPendingEdit(null);
+    setEditReviewOpen(false);
+    const file = findFileById(entries, pendingEdit.fileId);
+    if (!file || pendingEdit.accepted.length === 0) {
+      return;
+    }
+    const previous = file.id === currentFileId ? value : file.data;
+    let generated: PlaitElement[];
+    try {
+      const merged = applyPddlDiff(pendingEdit.target, pendingEdit.accepted);
+      generated =
+        merged.kind === 'domain' ? convertPddlDomainToGraph(merged.pddl) : convertPddlProblemToGraph(merged.pddl);
+    } catch (error) {
+      console.error('应用助手修改失败:', error);
+      window.alert('应用修改失败，画布保持不变。');
+      return;
+    }
+    const nextValue: AppValue = {
+      ...previous,
+      children: pendingEdit.replacesBoard ? generated : preserveBoardLayout(previous.children, generated),
+    };
+    updateEntriesState((prev) =>
+      updateEntryById(prev, file.id, (entry) => {
+        if (entry.type !== 'file') {
+          return entry;
+        }
+        // 修改把文件变成另一种类型时，原类型的计划和关联的 domain 不再适用
+        const sameKind = entry.fileType === pendingEdit.target.kind;
+        return {
+          ...entry,
+          data: nextValue,
+          fileType: pendingEdit.target.kind,
+          plan: sameKind ? entry.plan : undefined,
+          domainFileId: sameKind ? entry.domainFileId : undefined,
+          previousVersion: {
+            data: previous,
+            fileType: entry.fileType,
+            plan: entry.plan,
+            domainFileId: entry.domainFileId,
+            savedAt: Date.now(),
+          },
+          updatedAt: Date.now(),
+        };
+      })
+    );
+    if (file.id === currentFileId) {
+      setValue(nextValue);
+      setTutorial(!hasContent(nextValue));
+    }
+  }, [currentFileId, entries, pendingEdit, setTutorial, updateEntriesState, value]);
+
+  // 恢复应用助手修改之前的画布；keep 为 true 时只丢弃保存的旧版本
+  const resolveAssistantEdit = useCallback(
+    (keep: boolean) => {
+      const file = currentFileId ? findFileById(entries, currentFileId) : null;
+      const previousVersion = file?.previousVersion;
+      if (!file || !previousVersion) {
+        return;
+      }
+      updateEntriesState((prev) =>
+        updateEntryById(prev, file.id, (entry) => {
+          if (entry.type !== 'file') {
+            return entry;
+          }
+          return keep
+            ? { ...entry, previousVersion: undefined }
+            : {
+                ...entry,
+                data: previousVersion.data,
+                fileType: previousVersion.fileType,
+                plan: previousVersion.plan,
+                domainFileId: previousVersion.domainFileId,
+                previousVersion: undefined,
+                updatedAt: Date.now(),
+              };
+        })
+      );
+      if (!keep) {
+        setValue(previousVersion.data);
+        setTutorial(!hasContent(previousVersion.data));
+      }
+    },
+    [currentFileId, entries, setTutorial, updateEntriesState]
+  );
+
+  // 把场景描述交给模型生成 domain 和 problem，校验通过后建成两个相互关联的文件
+  const handleGenerateFromDescription = useCallback(
+    async (description: string) => {
+      const timestamp = Date.now();
+      const assistantId = `assistant-${timestamp}`;
+      setMessages((prev) => [
+        ...prev,
+        { id: `user-${timestamp}`, role: 'user', content: description, timestamp },
+        { id: assistantId, role: 'assistant', content: '', timestamp, streaming: true },
+      ]);
+      const updateAssistantMessage = (patch: Partial<ChatMessage>) =>
+        setMessages((prev) => prev.map((message) => (message.id === assistantId ? { ...message, ...patch } : message)));
+      setIsLoading(true);
+      const abortController = new AbortController();
+      chatAbortRef.current = abortController;
+      let progressText = '';
+
+      try {
+        const provider = createLlmProvider(llmSettings, buildApiUrl('/chat/generate'));
+        const generated = await generatePddlFromDescription(description, provider, {
+          signal: abortController.signal,
+          onProgress: ({ attempt, maxAttempts, text, issues }) => {
+            const header = issues.length
+              ? `上一次生成的 PDDL 未通过检查，正在重试（第 ${attempt}/${maxAttempts} 次）：\n${issues
+                  .map((issue) => `- ${issue}`)
+                  .join('\n')}`
+              : `正在根据描述生成 PDDL（第 ${attempt}/${maxAttempts} 次）…`;
+            progressText = text ? `${header}\n\n${text}` : header;
+            updateAssistantMessage({ content: progressText });
+          },
+        });
+
+        const domainName = ensureUniqueFileName(
+          entries,
+          generated.domain.pddl.name,
+          fileManagerText.fileTypes.domain
+        );
+        const domainFile = createBlankFile(
+          domainName,
+          { children: convertPddlDomainToGraph(generated.domain.pddl) },
+          'domain'
+        );
+        const problemName = ensureUniqueFileName(
+          [...entries, domainFile],
+          generated.problem.pddl.name,
+          fileManagerText.fileTypes.problem
+        );
+        const problemFile: BoardFileEntry = {
+          ...createBlankFile(
+            problemName,
+            { children: convertPddlProblemToGraph(generated.problem.pddl) },
+            'problem'
+          ),
+          domainFileId: domainFile.id,
+        };
+        updateEntriesState((prev) => {
+          if (!selectedFolderId) {
+            return [...prev, domainFile, problemFile];
+          }
+          const result = addEntryToFolder(prev, selectedFolderId, domainFile);
+          const withProblem = result.inserted ? addEntryToFolder(result.entries, selectedFolderId, problemFile) : null;
+          return withProblem?.inserted ? withProblem.entries : [...prev, domainFile, problemFile];
+        });
+        setCurrentFileId(domainFile.id);
+        setValue(domainFile.data);
+        setTutorial(!hasContent(domainFile.data));
+        setSidebarOpen(false);
+        updateAssistantMessage({
+          content: [
+            `已生成 domain「${domainName}」和 problem「${problemName}」` +
+              `（第 ${generated.attempts} 次尝试通过检查），并打开了 domain 画布。`,
+            generated.domain.text,
+            generated.problem.text,
+          ].join('\n\n'),
+          timestamp: Date.now(),
+          streaming: false,
+        });
+        await localforage.setItem(CURRENT_FILE_ID_KEY, domainFile.id);
+      } catch (error) {
+        if (isAbortError(error)) {
+          updateAssistantMessage({ content: progressText, streaming: false, stopped: true });
+          return;
+        }
+        console.error('生成 PDDL 失败:', error);
+        updateAssistantMessage({
+          content:
+            error instanceof PddlGenerationError
+              ? `${error.message}\n${error.issues.map((issue) => `- ${issue}`).join('\n')}`
+              : `生成 PDDL 失败：${error instanceof Error ? error.message : String(error)}`,
+          timestamp: Date.now(),
+          streaming: false,
+          error: true,
+        });
+      } finally {
+        if (chatAbortRef.current === abortController) {
+          chatAbortRef.current = null;
+        }
+        setIsLoading(false);
+      }
+    },
+    [
+      entries,
+      fileManagerText,
+      llmSettings,
+      selectedFolderId,
+      setCurrentFileId,
+      setTutorial,
+      setValue,
+      updateEntriesState,
+    ]
+  );
+
+  const handleStopMessage = useCallback(() => {
+    chatAbortRef.current?.abort();
+  }, []);
+
+  useEffect(() => {
+    localforage
+      .getItem(LLM_SETTINGS_KEY)
+      .then((stored) => {
+        if (stored) {
+          setLlmSettings(normalizeLlmSettings(stored));
+        }
+      })
+      .catch((error) => console.warn('读取模型设置失败:', error));
+  }, []);
+
+  const saveLlmSettings = useCallback(async () => {
+    if (!llmSettingsDraft) {
+      return;
+    }
+    const next = {
+      ...llmSettingsDraft,
+      baseUrl: llmSettingsDraft.baseUrl.trim(),
+      model: llmSettingsDraft.model.trim(),
+    };
+    setLlmSettings(next);
+    setLlmSettingsDraft(null);
+    try {
+      await localforage.setItem(LLM_SETTINGS_KEY, next);
+    } catch (error) {
+      console.warn('保存模型设置失败:', error);
+    }
+  }, [llmSettingsDraft]);
+
+  const handleCreateFile = useCallback(
+    async (fileName: string, fileType: FileType) => {
+      const trimmed = fileName.trim();
+      let finalName = trimmed || generateNewFileName(entries, defaultFileNameBase);
+
+      if (isNameTaken(entries, 'file', finalName)) {
+        finalName = generateNewFileName(entries, defaultFileNameBase);
+      }
+
+      const newFile = createBlankFile(finalName, undefined, fileType);
       updateEntriesState((prev) => {
         if (!selectedFolderId) {
           return [...prev, newFile];
@@ -1964,6 +2904,257 @@ export function App() {
     ]
   );
 
+  const currentPlanFile = useMemo(() => {
+    const file = currentFileId ? findFileById(entries, currentFileId) : null;
+    return file?.fileType === 'plan' ? file : null;
+  }, [currentFileId, entries]);
+
+  // 切换文件后模拟面板与播放都不再对应当前画布
+  useEffect(() => {
+    setSimulatorOpen(false);
+    setPlanPlayback(null);
+  }, [currentFileId]);
+
+  const toggleSimulator = useCallback(() => {
+    if (simulatorOpen) {
+      setSimulatorOpen(false);
+      return;
+    }
+    // 优先使用求解时记录的 domain/problem，文件已删除时退回到第一个可用文件
+    const pickLinked = (linkedId: string | undefined, files: BoardFileEntry[]) =>
+      files.find((file) => file.id === linkedId)?.id ?? files[0]?.id ?? '';
+    setSimulatorDomainId(pickLinked(currentPlanFile?.plan?.domainFileId, solveCandidates.domains));
+    setSimulatorProblemId(pickLinked(currentPlanFile?.plan?.problemFileId, solveCandidates.problems));
+    setSimulatorPosition(0);
+    setChatOpen(false);
+    setSimulatorOpen(true);
+  }, [currentPlanFile, simulatorOpen, solveCandidates]);
+
+  const planSimulation = useMemo(() => {
+    const steps = currentPlanFile?.plan?.steps;
+    if (!simulatorOpen || !steps || !simulatorDomainId || !simulatorProblemId) {
+      return null;
+    }
+    const domainResult = readBoardPddl(simulatorDomainId);
+    if ('error' in domainResult) {
+      return { error: domainResult.error };
+    }
+    const problemResult = readBoardPddl(simulatorProblemId);
+    if ('error' in problemResult) {
+      return { error: problemResult.error };
+    }
+    try {
+      const simulation = simulatePddlPlan(
+        domainResult.pddl as PddlDomain,
+        problemResult.pddl as PddlProblem,
+        steps
+      );
+      return { steps, simulation };
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : String(error) };
+    }
+  }, [currentPlanFile, readBoardPddl, simulatorDomainId, simulatorOpen, simulatorProblemId]);
+
+  // 按模拟面板选中的 domain/problem 把计划还原成偏序，画在计划画布现有内容的下方
+  const drawCausalGraph = useCallback(() => {
+    const steps = currentPlanFile?.plan?.steps;
+    if (!steps || !currentFileId || !simulatorDomainId || !simulatorProblemId) {
+      return;
+    }
+    const domainResult = readBoardPddl(simulatorDomainId);
+    const problemResult = readBoardPddl(simulatorProblemId);
+    if ('error' in domainResult || 'error' in problemResult) {
+      window.alert(
+        `无法生成因果图：${'error' in domainResult ? domainResult.error : (problemResult as { error: string }).error}`
+      );
+      return;
+    }
+    let order;
+    try {
+      order = buildPlanPartialOrder(domainResult.pddl as PddlDomain, problemResult.pddl as PddlProblem, steps);
+    } catch (error) {
+      window.alert(`无法生成因果图：${error instanceof Error ? error.message : String(error)}`);
+      return;
+    }
+    // 再次生成时替换之前画的因果图（分组及其成员），新图画在其余内容的下方
+    const previousGraphIds = new Set(
+      value.children
+        .filter((element) => element.type === 'group' && (element.pddl?.role ?? element.data?.type) === 'causal-graph')
+        .map((element) => element.id)
+    );
+    const kept = value.children.filter(
+      (element) => !previousGraphIds.has(element.id) && !(element.groupId && previousGraphIds.has(element.groupId))
+    );
+    const board = boardRef.current;
+    const bounds = board && kept.length ? getRectangleByElements(board, kept as PlaitElement[], false) : null;
+    const { elements } = createPlanCausalGraph(
+      steps,
+      order,
+      bounds ? bounds.x : PLAN_LIST_START_X,
+      bounds ? bounds.y + bounds.height + PLAN_NODE_HEIGHT : PLAN_LIST_START_Y
+    );
+    const nextValue: AppValue = { ...value, children: [...kept, ...elements] };
+    setValue(nextValue);
+    updateEntriesState((prev) =>
+      updateEntryById(prev, currentFileId, (entry) =>
+        entry.type === 'file' ? { ...entry, data: nextValue, updatedAt: Date.now() } : entry
+      )
+    );
+    setTutorial(false);
+  }, [
+    currentFileId,
+    currentPlanFile,
+    readBoardPddl,
+    simulatorDomainId,
+    simulatorProblemId,
+    updateEntriesState,
+    value,
+  ]);
+
+  // 在模拟面板里换了 domain/problem 时记到计划文件上，problem 画布据此找到可以播放的计划；
+  // 同时按新的关联重新校验并重建计划画布，之前画上的甘特图、因果图基于旧的关联，一并丢弃
+  const linkPlanFile = useCallback(
+    (planFileId: string, link: Required<Pick<PlanFileSource, 'domainFileId' | 'problemFileId'>>) => {
+      const plan = findFileById(entries, planFileId)?.plan;
+      if (!plan) {
+        return;
+      }
+      const checked = validatePlanAgainstFiles(link.domainFileId, link.problemFileId, plan.steps);
+      // 关联的文件暂时无法还原为 PDDL 时只记下关联，模拟面板会显示原因
+      const data: AppValue | null =
+        'error' in checked
+          ? null
+          : { children: buildPlanElements(plan.steps, plan.cost, plan.solver, checked.validation, checked.metric) };
+      updateEntriesState((prev) =>
+        updateEntryById(prev, planFileId, (entry) =>
+          entry.type === 'file' && entry.plan
+            ? { ...entry, plan: { ...entry.plan, ...link }, ...(data ? { data, updatedAt: Date.now() } : {}) }
+            : entry
+        )
+      );
+      if (data && planFileId === currentFileId) {
+        setValue(data);
+      }
+    },
+    [currentFileId, entries, updateEntriesState, validatePlanAgainstFiles]
+  );
+
+  // 当前 problem 画布上可以回放的计划：取最近更新的、关联到这个 problem 的计划文件
+  const playbackPlanFile = useMemo(() => {
+    const file = currentFileId ? findFileById(entries, currentFileId) : null;
+    if (file?.fileType !== 'problem') {
+      return null;
+    }
+    return (
+      flattenFiles(entries)
+        .filter((entry) => entry.fileType === 'plan' && entry.plan?.problemFileId === file.id)
+        .filter((entry) => (entry.plan?.steps.length ?? 0) > 0)
+        .sort((a, b) => b.updatedAt - a.updatedAt)[0] ?? null
+    );
+  }, [currentFileId, entries]);
+
+  const playbackActive = planPlayback !== null;
+  const playbackSimulation = useMemo(() => {
+    const plan = playbackPlanFile?.plan;
+    if (!playbackActive || !plan || !currentFileId) {
+      return null;
+    }
+    const domainId =
+      solveCandidates.domains.find((file) => file.id === plan.domainFileId)?.id ?? solveCandidates.domains[0]?.id;
+    if (!domainId) {
+      return { error: fileManagerText.solveDialog.noDomain };
+    }
+    const domainResult = readBoardPddl(domainId);
+    if ('error' in domainResult) {
+      return { error: domainResult.error };
+    }
+    const problemResult = readBoardPddl(currentFileId);
+    if ('error' in problemResult) {
+      return { error: problemResult.error };
+    }
+    try {
+      const simulation = simulatePddlPlan(
+        domainResult.pddl as PddlDomain,
+        problemResult.pddl as PddlProblem,
+        plan.steps
+      );
+      const lastPosition = simulation.failedStep !== null ? simulation.failedStep + 1 : plan.steps.length;
+      return { steps: plan.steps, simulation, lastPosition };
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : String(error) };
+    }
+  }, [currentFileId, fileManagerText, playbackActive, playbackPlanFile, readBoardPddl, solveCandidates]);
+
+  useEffect(() => {
+    if (playbackSimulation?.error) {
+      window.alert(`无法播放计划：${playbackSimulation.error}`);
+      setPlanPlayback(null);
+    }
+  }, [playbackSimulation]);
+
+  const playbackLastPosition = playbackSimulation?.lastPosition ?? 0;
+  useEffect(() => {
+    if (!planPlayback?.playing || !playbackSimulation?.simulation) {
+      return;
+    }
+    const timer = window.setInterval(() => {
+      setPlanPlayback((prev) => {
+        if (!prev) {
+          return prev;
+        }
+        const position = Math.min(prev.position + 1, playbackLastPosition);
+        return { position, playing: position < playbackLastPosition };
+      });
+    }, PLAN_PLAYBACK_INTERVAL);
+    return () => window.clearInterval(timer);
+  }, [planPlayback?.playing, playbackLastPosition, playbackSimulation]);
+
+  const playbackPosition = planPlayback?.position ?? 0;
+  useEffect(() => {
+    const board = boardRef.current;
+    const simulation = playbackSimulation?.simulation;
+    if (!board || !simulation) {
+      return;
+    }
+    const state = simulation.states[Math.min(playbackPosition, simulation.states.length - 1)];
+    const step = playbackPosition > 0 ? playbackSimulation.steps[playbackPosition - 1] : null;
+    return decoratePlanState(board, state, step?.parameters ?? []);
+  }, [playbackPosition, playbackSimulation, value.children]);
+
+  const planPlaybackControls = useMemo<PlanPlaybackControls | null>(() => {
+    if (!playbackPlanFile) {
+      return null;
+    }
+    const simulation = playbackSimulation?.simulation;
+    const total = playbackPlanFile.plan?.steps.length ?? 0;
+    const position = Math.min(playbackPosition, total);
+    const step = position > 0 ? playbackPlanFile.plan?.steps[position - 1] : null;
+    const failed = simulation && simulation.failedStep === position - 1;
+    const label = step
+      ? `${failed ? '✕ ' : ''}(${[step.action, ...(step.parameters ?? [])].join(' ')})`
+      : playbackPlanFile.name;
+    return {
+      position,
+      total,
+      playing: planPlayback?.playing ?? false,
+      label,
+      onPlay: () =>
+        setPlanPlayback((prev) =>
+          // 已播到最后一格时从头开始
+          !prev || prev.position >= playbackLastPosition
+            ? { position: 0, playing: true }
+            : { ...prev, playing: true }
+        ),
+      onPause: () => setPlanPlayback((prev) => (prev ? { ...prev, playing: false } : prev)),
+      onStep: (delta) =>
+        setPlanPlayback((prev) => {
+          const limit = prev ? playbackLastPosition : total;
+          return { position: clamp((prev?.position ?? 0) + delta, 0, limit), playing: false };
+        }),
+      onStop: () => setPlanPlayback(null),
+    };
+  }, [planPlayback?.playing, playbackLastPosition, playbackPlanFile, playbackPosition, playbackSimulation]);
+
   const currentFile = currentFileId ? findFileById(entries, currentFileId) : null;
   const uploadButtonLabel = uploading ? fileManagerText.uploading : fileManagerText.upload;
 
@@ -1979,6 +3170,28 @@ export function App() {
     return null;
   }
 
+  // 模拟面板的时间轴：0 为初始状态，k 为执行完第 k 步；失败时最后一格停在失败的那一步
+  const simulatorText = fileManagerText.simulator;
+  const simulation = planSimulation?.simulation ?? null;
+  const simulationSteps = planSimulation?.steps ?? [];
+  const simulatorLastPosition = simulation
+    ? simulation.failedStep !== null
+      ? simulation.failedStep + 1
+      : simulationSteps.length
+    : 0;
+  const simulatorCurrent = Math.min(simulatorPosition, simulatorLastPosition);
+  const simulatorStopped = simulation !== null && simulation.failedStep === simulatorCurrent - 1;
+  const simulatorState = simulation
+    ? simulation.states[Math.min(simulatorCurrent, simulation.states.length - 1)]
+    : null;
+  const simulatorDiff =
+    simulation && simulatorCurrent > 0 && !simulatorStopped
+      ? diffPlanStates(simulation.states[simulatorCurrent - 1], simulation.states[simulatorCurrent])
+      : null;
+  const simulatorStep = simulatorCurrent > 0 ? simulationSteps[simulatorCurrent - 1] : null;
+  const formatSimulatorValue = (numeric: number | null) =>
+    numeric === null ? simulatorText.undefinedValue : `${numeric}`;
+
   return (
     <div className={styles.wrapper}>
       <button
@@ -2153,9 +3366,226 @@ export function App() {
             // };
           }}
           onSelectionChange={handleSelectionChange}
+          planPlayback={planPlaybackControls}
         ></Drawnix>
       </div>
       
+      {currentPlanFile ? (
+        <button
+          className={styles.simulatorToggle}
+          type="button"
+          onClick={toggleSimulator}
+          aria-label={simulatorText.toggle}
+          title={simulatorText.toggle}
+        >
+          ⏯
+        </button>
+      ) : null}
+
+      {/* 计划模拟面板：逐步查看状态与事实增删 */}
+      {simulatorOpen && currentPlanFile ? (
+        <aside className={styles.simulatorPanel}>
+          <div className={styles.chatHeader}>
+            <h3>{simulatorText.title}</h3>
+            <button
+              className={styles.chatCloseButton}
+              onClick={toggleSimulator}
+              aria-label={simulatorText.close}
+            >
+              ✕
+            </button>
+          </div>
+          <div className={styles.simulatorBody}>
+            {!currentPlanFile.plan ? (
+              <p className={styles.modalBody}>{simulatorText.noSteps}</p>
+            ) : (
+              <>
+                {(['domain', 'problem'] as const).map((kind) => {
+                  const candidates = kind === 'domain' ? solveCandidates.domains : solveCandidates.problems;
+                  const selectedId = kind === 'domain' ? simulatorDomainId : simulatorProblemId;
+                  const setSelectedId = kind === 'domain' ? setSimulatorDomainId : setSimulatorProblemId;
+                  return (
+                    <div key={kind} className={styles.modalField}>
+                      <label className={styles.modalLabel} htmlFor={`simulator-${kind}-file`}>
+                        {kind === 'domain'
+                          ? fileManagerText.solveDialog.domainLabel
+                          : fileManagerText.solveDialog.problemLabel}
+                      </label>
+                      <select
+                        id={`simulator-${kind}-file`}
+                        className={styles.renameInput}
+                        value={selectedId}
+                        disabled={candidates.length === 0}
+                        onChange={(event) => {
+                          setSelectedId(event.target.value);
+                          linkPlanFile(currentPlanFile.id, {
+                            domainFileId: kind === 'domain' ? event.target.value : simulatorDomainId,
+                            problemFileId: kind === 'problem' ? event.target.value : simulatorProblemId,
+                          });
+                        }}
+                      >
+                        {candidates.map((file) => (
+                          <option key={file.id} value={file.id}>
+                            {file.name}
+                          </option>
+                        ))}
+                      </select>
+                      {candidates.length === 0 ? (
+                        <span className={styles.renameError}>
+                          {kind === 'domain'
+                            ? fileManagerText.solveDialog.noDomain
+                            : fileManagerText.solveDialog.noProblem}
+                        </span>
+                      ) : null}
+                    </div>
+                  );
+                })}
+                {planSimulation?.error ? (
+                  <p className={styles.simulatorError}>{planSimulation.error}</p>
+                ) : null}
+                {simulation ? (
+                  <button
+                    type="button"
+                    className={`${styles.modalButton} ${styles.ghostButton}`}
+                    onClick={drawCausalGraph}
+                  >
+                    {simulatorText.causalGraph}
+                  </button>
+                ) : null}
+                {simulation && simulatorState ? (
+                  <>
+                    <div className={styles.simulatorControls}>
+                      <button
+                        type="button"
+                        className={`${styles.modalButton} ${styles.ghostButton}`}
+                        disabled={simulatorCurrent === 0}
+                        onClick={() => setSimulatorPosition(simulatorCurrent - 1)}
+                      >
+                        {simulatorText.previous}
+                      </button>
+                      <input
+                        type="range"
+                        className={styles.simulatorScrubber}
+                        min={0}
+                        max={simulatorLastPosition}
+                        value={simulatorCurrent}
+                        aria-label={simulatorText.title}
+                        onChange={(event) => setSimulatorPosition(Number(event.target.value))}
+                      />
+                      <button
+                        type="button"
+                        className={`${styles.modalButton} ${styles.ghostButton}`}
+                        disabled={simulatorCurrent >= simulatorLastPosition}
+                        onClick={() => setSimulatorPosition(simulatorCurrent + 1)}
+                      >
+                        {simulatorText.next}
+                      </button>
+                    </div>
+                    <div className={styles.simulatorStepTitle}>
+                      {simulatorStep
+                        ? simulatorText.step(simulatorCurrent, simulationSteps.length)
+                        : simulatorText.initialState}
+                    </div>
+                    {simulatorStep ? (
+                      <code className={styles.simulatorAction}>
+                        ({[simulatorStep.action, ...(simulatorStep.parameters ?? [])].join(' ')})
+                      </code>
+                    ) : null}
+                    {simulatorStopped ? (
+                      <p className={styles.simulatorError}>
+                        {simulatorText.stoppedAt(
+                          simulatorCurrent,
+                          simulation.steps[simulatorCurrent - 1].message ?? ''
+                        )}
+                      </p>
+                    ) : simulatorCurrent === simulationSteps.length ? (
+                      <p className={simulation.valid ? styles.simulatorSuccess : styles.simulatorError}>
+                        {simulation.valid
+                          ? simulatorText.goalReached
+                          : simulatorText.goalNotReached(simulation.unsatisfiedGoal ?? '')}
+                      </p>
+                    ) : null}
+                    {simulatorDiff ? (
+                      <div className={styles.simulatorSection}>
+                        <h4>{simulatorText.deletedFacts}</h4>
+                        {simulatorDiff.deleted.length ? (
+                          <ul className={styles.simulatorList}>
+                            {simulatorDiff.deleted.map((fact) => (
+                              <li key={fact} className={styles.factDeleted}>
+                                {fact}
+                              </li>
+                            ))}
+                          </ul>
+                        ) : (
+                          <p className={styles.simulatorEmpty}>{simulatorText.noChanges}</p>
+                        )}
+                        <h4>{simulatorText.addedFacts}</h4>
+                        {simulatorDiff.added.length ? (
+                          <ul className={styles.simulatorList}>
+                            {simulatorDiff.added.map((fact) => (
+                              <li key={fact} className={styles.factAdded}>
+                                {fact}
+                              </li>
+                            ))}
+                          </ul>
+                        ) : (
+                          <p className={styles.simulatorEmpty}>{simulatorText.noChanges}</p>
+                        )}
+                        {simulatorDiff.changed.length ? (
+                          <>
+                            <h4>{simulatorText.changedFluents}</h4>
+                            <ul className={styles.simulatorList}>
+                              {simulatorDiff.changed.map((change) => (
+                                <li key={change.name} className={styles.factAdded}>
+                                  {change.name}: {formatSimulatorValue(change.before)} →{' '}
+                                  {formatSimulatorValue(change.after)}
+                                </li>
+                              ))}
+                            </ul>
+                          </>
+                        ) : null}
+                      </div>
+                    ) : null}
+                    <div className={styles.simulatorSection}>
+                      <h4>{simulatorText.facts}</h4>
+                      <ul className={styles.simulatorList}>
+                        {simulatorState.facts.map((fact) => (
+                          <li
+                            key={fact}
+                            className={simulatorDiff?.added.includes(fact) ? styles.factAdded : undefined}
+                          >
+                            {fact}
+                          </li>
+                        ))}
+                      </ul>
+                      {simulatorState.fluents.length ? (
+                        <>
+                          <h4>{simulatorText.fluents}</h4>
+                          <ul className={styles.simulatorList}>
+                            {simulatorState.fluents.map((fluent) => (
+                              <li
+                                key={fluent.name}
+                                className={
+                                  simulatorDiff?.changed.some((change) => change.name === fluent.name)
+                                    ? styles.factAdded
+                                    : undefined
+                                }
+                              >
+                                {fluent.name} = {formatSimulatorValue(fluent.value)}
+                              </li>
+                            ))}
+                          </ul>
+                        </>
+                      ) : null}
+                    </div>
+                  </>
+                ) : null}
+              </>
+            )}
+          </div>
+        </aside>
+      ) : null}
+
       {/* 聊天切换按钮 */}
       <button
         className={styles.chatToggle}
@@ -2171,13 +3601,23 @@ export function App() {
         <aside className={styles.chatPanel}>
           <div className={styles.chatHeader}>
             <h3>规划助手</h3>
-            <button
-              className={styles.chatCloseButton}
-              onClick={toggleChat}
-              aria-label="关闭聊天"
-            >
-              ✕
-            </button>
+            <div className={styles.chatHeaderActions}>
+              <button
+                className={styles.chatCloseButton}
+                onClick={() => setLlmSettingsDraft(llmSettings)}
+                aria-label={fileManagerText.llmSettings.open}
+                title={fileManagerText.llmSettings.open}
+              >
+                ⚙
+              </button>
+              <button
+                className={styles.chatCloseButton}
+                onClick={toggleChat}
+                aria-label="关闭聊天"
+              >
+                ✕
+              </button>
+            </div>
           </div>
           <div className={styles.chatMessages}>
             {messages.length === 0 ? (
@@ -2195,11 +3635,12 @@ export function App() {
                   <div className={styles.messageContent}>{message.content}</div>
                   <div className={styles.messageTime}>
                     {new Date(message.timestamp).toLocaleTimeString()}
+                    {message.stopped ? ' · 已停止生成' : null}
                   </div>
                 </div>
               ))
             )}
-            {isLoading && (
+            {isLoading && !messages.some((message) => message.streaming) && (
               <div className={`${styles.chatMessage} ${styles.assistantMessage}`}>
                 <div className={styles.messageContent}>
                   <div className={styles.typingIndicator}>
@@ -2211,6 +3652,32 @@ export function App() {
               </div>
             )}
           </div>
+          {pendingEdit && !editReviewOpen && pendingEdit.fileId === currentFileId ? (
+            <button type="button" className={styles.chatEditNotice} onClick={() => setEditReviewOpen(true)}>
+              {fileManagerText.editReview.review(pendingEdit.hunks.length)}
+            </button>
+          ) : null}
+          {currentFile?.previousVersion ? (
+            <div className={styles.chatEditNotice}>
+              <span>{fileManagerText.editReview.applied}</span>
+              <div className={styles.chatEditNoticeActions}>
+                <button
+                  type="button"
+                  className={`${styles.modalButton} ${styles.ghostButton}`}
+                  onClick={() => resolveAssistantEdit(true)}
+                >
+                  {fileManagerText.editReview.dismiss}
+                </button>
+                <button
+                  type="button"
+                  className={`${styles.modalButton} ${styles.primaryButton}`}
+                  onClick={() => resolveAssistantEdit(false)}
+                >
+                  {fileManagerText.editReview.undo}
+                </button>
+              </div>
+            </div>
+          ) : null}
           <div className={styles.chatInput}>
             <form
               onSubmit={(e) => {
@@ -2230,13 +3697,36 @@ export function App() {
                 className={styles.chatInputField}
                 disabled={isLoading}
               />
-              <button
-                type="submit"
-                className={styles.chatSendButton}
-                disabled={isLoading}
-              >
-                发送
-              </button>
+              {isLoading ? (
+                <button
+                  type="button"
+                  className={`${styles.chatSendButton} ${styles.chatStopButton}`}
+                  onClick={handleStopMessage}
+                >
+                  停止
+                </button>
+              ) : (
+                <>
+                  <button
+                    type="button"
+                    className={`${styles.chatSendButton} ${styles.chatGenerateButton}`}
+                    title="把输入框中的场景描述生成为 domain 和 problem 文件"
+                    onClick={(event) => {
+                      const form = event.currentTarget.form;
+                      const description = form ? String(new FormData(form).get('message') ?? '').trim() : '';
+                      if (form && description) {
+                        handleGenerateFromDescription(description);
+                        form.reset();
+                      }
+                    }}
+                  >
+                    生成 PDDL
+                  </button>
+                  <button type="submit" className={styles.chatSendButton}>
+                    发送
+                  </button>
+                </>
+              )}
             </form>
           </div>
         </aside>
@@ -2387,10 +3877,312 @@ export function App() {
           </div>
         </div>
       ) : null}
+      {solveDialogOpen ? (
+        <div
+          className={styles.modalOverlay}
+          role="dialog"
+          aria-modal="true"
+          onClick={closeSolveDialog}
+        >
+          <div
+            className={styles.modal}
+            onClick={(event) => {
+              event.stopPropagation();
+            }}
+          >
+            <h2 className={styles.modalTitle}>{fileManagerText.solveDialog.title}</h2>
+            {(
+              [
+                ['domain', solveCandidates.domains, solveDomainId, setSolveDomainId],
+                ['problem', solveCandidates.problems, solveProblemId, setSolveProblemId],
+              ] as const
+            ).map(([kind, files, selectedId, setSelectedId]) => (
+              <div key={kind} className={styles.modalField}>
+                <label className={styles.modalLabel} htmlFor={`solve-${kind}-file`}>
+                  {kind === 'domain'
+                    ? fileManagerText.solveDialog.domainLabel
+                    : fileManagerText.solveDialog.problemLabel}
+                </label>
+                {files.length > 0 ? (
+                  <select
+                    id={`solve-${kind}-file`}
+                    className={styles.renameInput}
+                    value={selectedId}
+                    disabled={solvingPlan}
+                    onChange={(event) => setSelectedId(event.target.value)}
+                  >
+                    {files.map((file) => (
+                      <option key={file.id} value={file.id}>
+                        {file.name}
+                      </option>
+                    ))}
+                  </select>
+                ) : (
+                  <span className={styles.renameError}>
+                    {kind === 'domain'
+                      ? fileManagerText.solveDialog.noDomain
+                      : fileManagerText.solveDialog.noProblem}
+                  </span>
+                )}
+              </div>
+            ))}
+            <div className={styles.modalField}>
+              <label className={styles.modalLabel} htmlFor="solve-engine">
+                {fileManagerText.solveDialog.engineLabel}
+              </label>
+              <select
+                id="solve-engine"
+                className={styles.renameInput}
+                value={solveEngine}
+                disabled={solvingPlan}
+                onChange={(event) => setSolveEngine(event.target.value as SolveEngine)}
+              >
+                {(Object.keys(fileManagerText.solveDialog.engines) as SolveEngine[]).map((engine) => (
+                  <option key={engine} value={engine}>
+                    {fileManagerText.solveDialog.engines[engine]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {solveEngine !== 'backend' ? (
+              <div className={styles.modalField}>
+                <label className={styles.modalLabel} htmlFor="solve-node-budget">
+                  {fileManagerText.solveDialog.nodeBudgetLabel}
+                </label>
+                <input
+                  id="solve-node-budget"
+                  type="number"
+                  min={1}
+                  step={1000}
+                  className={styles.renameInput}
+                  value={solveNodeBudget}
+                  disabled={solvingPlan}
+                  onChange={(event) => {
+                    const budget = Math.floor(Number(event.target.value));
+                    setSolveNodeBudget(budget > 0 ? budget : 1);
+                  }}
+                />
+              </div>
+            ) : null}
+            {solveProgress ? (
+              <p className={styles.modalBody}>
+                {fileManagerText.solveDialog.progress(solveProgress.expanded, solveProgress.generated)}
+              </p>
+            ) : null}
+            <div className={styles.modalActions}>
+              <button
+                type="button"
+                className={`${styles.modalButton} ${styles.ghostButton}`}
+                onClick={closeSolveDialog}
+              >
+                {solvingPlan ? fileManagerText.solveDialog.stop : fileManagerText.createDialog.cancel}
+              </button>
+              <button
+                type="button"
+                className={`${styles.modalButton} ${styles.primaryButton}`}
+                disabled={solvingPlan || !solveDomainId || !solveProblemId}
+                onClick={handleSolveDialogConfirm}
+              >
+                {solvingPlan
+                  ? fileManagerText.solveDialog.solving
+                  : fileManagerText.solveDialog.confirm}
+              </button>
+            </div>
+          </div>
+        </div>
+      ) : null}
+      {llmSettingsDraft ? (
+        <div
+          className={styles.modalOverlay}
+          role="dialog"
+          aria-modal="true"
+          onClick={() => setLlmSettingsDraft(null)}
+        >
+          <div
+            className={styles.modal}
+            onClick={(event) => {
+              event.stopPropagation();
+            }}
+          >
+            <h2 className={styles.modalTitle}>{fileManagerText.llmSettings.title}</h2>
+            <div className={styles.modalField}>
+              <label className={styles.modalLabel} htmlFor="llm-provider">
+                {fileManagerText.llmSettings.providerLabel}
+              </label>
+              <select
+                id="llm-provider"
+                className={styles.renameInput}
+                value={llmSettingsDraft.provider}
+                onChange={(event) =>
+                  setLlmSettingsDraft({ ...llmSettingsDraft, provider: event.target.value as LlmSettings['provider'] })
+                }
+              >
+                {LLM_PROVIDER_KINDS.map((kind) => (
+                  <option key={kind} value={kind}>
+                    {fileManagerText.llmSettings.providers[kind]}
+                  </option>
+                ))}
+              </select>
+            </div>
+            {llmSettingsDraft.provider === 'openai' ? (
+              <>
+                {(
+                  [
+                    ['baseUrl', fileManagerText.llmSettings.baseUrlLabel, 'url'],
+                    ['model', fileManagerText.llmSettings.modelLabel, 'text'],
+                    ['apiKey', fileManagerText.llmSettings.apiKeyLabel, 'password'],
+                  ] as const
+                ).map(([field, label, type]) => (
+                  <div key={field} className={styles.modalField}>
+                    <label className={styles.modalLabel} htmlFor={`llm-${field}`}>
+                      {label}
+                    </label>
+                    <input
+                      id={`llm-${field}`}
+                      type={type}
+                      className={styles.renameInput}
+                      value={llmSettingsDraft[field]}
+                      autoComplete="off"
+                      onChange={(event) => setLlmSettingsDraft({ ...llmSettingsDraft, [field]: event.target.value })}
+                    />
+                    {field === 'baseUrl' && !llmSettingsDraft.baseUrl.trim() ? (
+                      <span className={styles.renameError}>{fileManagerText.llmSettings.baseUrlRequired}</span>
+                    ) : null}
+                  </div>
+                ))}
+                <p className={styles.modalBody}>{fileManagerText.llmSettings.apiKeyHint}</p>
+              </>
+            ) : null}
+            <div className={styles.modalActions}>
+              <button
+                type="button"
+                className={`${styles.modalButton} ${styles.ghostButton}`}
+                onClick={() => setLlmSettingsDraft(null)}
+              >
+                {fileManagerText.createDialog.cancel}
+              </button>
+              <button
+                type="button"
+                className={`${styles.modalButton} ${styles.primaryButton}`}
+                disabled={llmSettingsDraft.provider === 'openai' && !llmSettingsDraft.baseUrl.trim()}
+                onClick={saveLlmSettings}
+              >
+                {fileManagerText.llmSettings.save}
+              </button>
+            </div>
+          </div>
+        </div>
+      ) : null}
+      {pendingEdit && editReviewOpen ? (
+        <div
+          className={styles.modalOverlay}
+          role="dialog"
+          aria-modal="true"
+          onClick={() => setEditReviewOpen(false)}
+        >
+          <div
+            className={`${styles.modal} ${styles.editReviewModal}`}
+            onClick={(event) => {
+              event.stopPropagation();
+            }}
+          >
+            <h2 className={styles.modalTitle}>{fileManagerText.editReview.title}</h2>
+            <p className={styles.modalBody}>
+              {pendingEdit.replacesBoard ? fileManagerText.editReview.replaceHint : fileManagerText.editReview.hint}
+            </p>
+            <div className={styles.editReviewList}>
+              {Array.from(new Set(pendingEdit.hunks.map((hunk) => hunk.section))).map((section) => (
+                <div key={section} className={styles.editReviewGroup}>
+                  <div className={styles.editReviewSection}>{fileManagerText.editReview.sections[section]}</div>
+                  {pendingEdit.hunks
+                    .filter((hunk) => hunk.section === section)
+                    .map((hunk) => {
+                      const accepted = pendingEdit.accepted.includes(hunk.id);
+                      return (
+                        <label key={hunk.id} className={styles.editReviewHunk}>
+                          <input
+                            type="checkbox"
+                            checked={accepted}
+                            onChange={() =>
+                              setPendingEdit({
+                                ...pendingEdit,
+                                accepted: accepted
+                                  ? pendingEdit.accepted.filter((id) => id !== hunk.id)
+                                  : [...pendingEdit.accepted, hunk.id],
+                              })
+                            }
+                          />
+                          <div className={styles.editReviewHunkBody}>
+                            <div className={styles.editReviewHunkTitle}>
+                              <span className={`${styles.editReviewKind} ${EDIT_REVIEW_KIND_CLASS[hunk.kind]}`}>
+                                {fileManagerText.editReview.kinds[hunk.kind]}
+                              </span>
+                              {hunk.name}
+                            </div>
+                            {hunk.details.length ? (
+                              <ul className={styles.editReviewDetails}>
+                                {hunk.details.map((detail) => (
+                                  <li key={detail}>{detail}</li>
+                                ))}
+                              </ul>
+                            ) : null}
+                            {hunk.before !== null && hunk.kind !== 'added' ? (
+                              <pre className={`${styles.editReviewCode} ${styles.editReviewBefore}`}>{hunk.before}</pre>
+                            ) : null}
+                            {hunk.after !== null && hunk.kind !== 'removed' ? (
+                              <pre className={`${styles.editReviewCode} ${styles.editReviewAfter}`}>{hunk.after}</pre>
+                            ) : null}
+                          </div>
+                        </label>
+                      );
+                    })}
+                </div>
+              ))}
+            </div>
+            <div className={styles.modalActions}>
+              <button
+                type="button"
+                className={`${styles.modalButton} ${styles.ghostButton}`}
+                onClick={() =>
+                  setPendingEdit({
+                    ...pendingEdit,
+                    accepted:
+                      pendingEdit.accepted.length === pendingEdit.hunks.length
+                        ? []
+                        : pendingEdit.hunks.map((hunk) => hunk.id),
+                  })
+                }
+              >
+                {pendingEdit.accepted.length === pendingEdit.hunks.length
+                  ? fileManagerText.editReview.rejectAll
+                  : fileManagerText.editReview.acceptAll}
+              </button>
+              <button
+                type="button"
+                className={`${styles.modalButton} ${styles.ghostButton}`}
+                onClick={() => {
+                  setPendingEdit(null);
+                  setEditReviewOpen(false);
+                }}
+              >
+                {fileManagerText.editReview.discard}
+              </button>
+              <button
+                type="button"
+                className={`${styles.modalButton} ${styles.primaryButton}`}
+                disabled={pendingEdit.accepted.length === 0}
+                onClick={applyPendingEdit}
+              >
+                {fileManagerText.editReview.apply(pendingEdit.accepted.length)}
+              </button>
+            </div>
+          </div>
+        </div>
+      ) : null}
       <input
         ref={fileInputRef}
         type="file"
-        accept=".pddl"
+        accept=".pddl,.plan,.soln,.txt"
         style={{ display: 'none' }}
         onChange={handlePddlUpload}
       />
@@ -1,4 +1,6 @@
 import type { Language } from '@drawnix/drawnix';
+import type { LlmProviderKind } from '../utils/llm-providers';
+import type { PddlDiffHunk, PddlDiffSection } from '../utils/pddl-diff';
 
 export type FileManagerCopy = {
   sidebarTitle: string;
@@ -29,6 +31,68 @@ export type FileManagerCopy = {
     confirm: string;
     folderInfo: (count: number, itemLabel: ItemLabel) => string;
   };
+  solveDialog: {
+    title: string;
+    domainLabel: string;
+    problemLabel: string;
+    noDomain: string;
+    noProblem: string;
+    engineLabel: string;
+    engines: Record<'backend' | 'bfs' | 'ucs' | 'gbfs-hadd' | 'gbfs-hff' | 'astar-hadd', string>;
+    nodeBudgetLabel: string;
+    progress: (expanded: number, generated: number) => string;
+    stop: string;
+    confirm: string;
+    solving: string;
+  };
+  simulator: {
+    title: string;
+    toggle: string;
+    close: string;
+    noSteps: string;
+    initialState: string;
+    step: (index: number, total: number) => string;
+    previous: string;
+    next: string;
+    stoppedAt: (index: number, message: string) => string;
+    goalReached: string;
+    goalNotReached: (goal: string) => string;
+    addedFacts: string;
+    deletedFacts: string;
+    changedFluents: string;
+    noChanges: string;
+    facts: string;
+    fluents: string;
+    undefinedValue: string;
+    causalGraph: string;
+  };
+  llmSettings: {
+    title: string;
+    open: string;
+    providerLabel: string;
+    providers: Record<LlmProviderKind, string>;
+    baseUrlLabel: string;
+    modelLabel: string;
+    apiKeyLabel: string;
+    apiKeyHint: string;
+    baseUrlRequired: string;
+    save: string;
+  };
+  editReview: {
+    title: string;
+    hint: string;
+    replaceHint: string;
+    sections: Record<PddlDiffSection, string>;
+    kinds: Record<PddlDiffHunk['kind'], string>;
+    acceptAll: string;
+    rejectAll: string;
+    discard: string;
+    apply: (count: number) => string;
+    review: (count: number) => string;
+    applied: string;
+    undo: string;
+    dismiss: string;
+  };
   validation: {
     nameRequired: string;
     nameExists: string;
@@ -87,6 +151,94 @@ const zhCopy: FileManagerCopy = {
     folderInfo: (count, itemLabel) =>
       count > 0 ? `（包含 ${count} 个${itemLabel.singular}）` : '',
   },
+  solveDialog: {
+    title: '求解计划',
+    domainLabel: 'Domain 文件',
+    problemLabel: 'Problem 文件',
+    noDomain: '还没有 domain 类型的文件',
+    noProblem: '还没有 problem 类型的文件',
+    engineLabel: '求解器',
+    engines: {
+      backend: '后端求解器',
+      bfs: '内置 BFS（步数最少）',
+      ucs: '内置一致代价搜索（度量最优）',
+      'gbfs-hadd': '内置 GBFS (h_add)',
+      'gbfs-hff': '内置 GBFS (h_FF)',
+      'astar-hadd': '内置 A* (h_add)',
+    },
+    nodeBudgetLabel: '最多展开节点数',
+    progress: (expanded, generated) => `已展开 ${expanded} 个节点，生成 ${generated} 个状态`,
+    stop: '停止',
+    confirm: '求解',
+    solving: '求解中…',
+  },
+  simulator: {
+    title: '计划模拟',
+    toggle: '模拟计划',
+    close: '关闭模拟',
+    noSteps: '这个计划没有记录动作步骤，请重新求解或重新导入计划文件。',
+    initialState: '初始状态',
+    step: (index, total) => `第 ${index} / ${total} 步`,
+    previous: '上一步',
+    next: '下一步',
+    stoppedAt: (index, message) => `第 ${index} 步无法执行：${message}`,
+    goalReached: '计划执行完毕，目标已满足。',
+    goalNotReached: (goal) => `计划执行完毕，但目标未满足：${goal}`,
+    addedFacts: '新增事实',
+    deletedFacts: '删除事实',
+    changedFluents: '数值变化',
+    noChanges: '没有变化',
+    facts: '当前成立的事实',
+    fluents: '数值函数',
+    undefinedValue: '未定义',
+    causalGraph: '绘制因果图',
+  },
+  llmSettings: {
+    title: '模型设置',
+    open: '模型设置',
+    providerLabel: '模型来源',
+    providers: {
+      backend: '后端代理（/chat/generate）',
+      openai: 'OpenAI 兼容接口',
+      mock: '本地模拟（不联网）',
+    },
+    baseUrlLabel: '接口地址',
+    modelLabel: '模型名称',
+    apiKeyLabel: 'API Key',
+    apiKeyHint: 'API Key 只保存在当前浏览器中，请求直接从浏览器发往上面的接口地址。',
+    baseUrlRequired: '请填写接口地址',
+    save: '保存',
+  },
+  editReview: {
+    title: '助手建议的修改',
+    hint: '勾选要接受的修改，未勾选的部分保持画布原样；没有变化的 action 和节点保留当前布局。',
+    replaceHint: '当前画布无法还原为同类型的 PDDL，应用后会按所选内容重建画布，原画布可以撤销。',
+    sections: {
+      requirements: 'Requirements',
+      types: '类型',
+      constants: '常量',
+      predicates: '谓词',
+      functions: '数值函数',
+      actions: 'Action',
+      objects: '对象',
+      init: '初始状态',
+      goal: '目标',
+      metric: '优化指标',
+    },
+    kinds: {
+      added: '新增',
+      removed: '删除',
+      changed: '修改',
+    },
+    acceptAll: '全部接受',
+    rejectAll: '全部拒绝',
+    discard: '放弃修改',
+    apply: (count) => `应用 ${count} 处修改`,
+    review: (count) => `助手建议了 ${count} 处修改，点击查看`,
+    applied: '已应用助手的修改。撤销会恢复到修改前的画布，之后的编辑也会一并撤销。',
+    undo: '撤销',
+    dismiss: '保留修改',
+  },
   validation: {
     nameRequired: '名称不能为空',
     nameExists: '名称已存在',
@@ -154,6 +306,97 @@ const enCopy: FileManagerCopy = {
       return ` (contains ${count} ${label})`;
     },
   },
+  solveDialog: {
+    title: 'Solve plan',
+    domainLabel: 'Domain file',
+    problemLabel: 'Problem file',
+    noDomain: 'No domain files yet',
+    noProblem: 'No problem files yet',
+    engineLabel: 'Planner',
+    engines: {
+      backend: 'Backend solver',
+      bfs: 'Built-in BFS (fewest steps)',
+      ucs: 'Built-in uniform-cost (optimal metric)',
+      'gbfs-hadd': 'Built-in GBFS (h_add)',
+      'gbfs-hff': 'Built-in GBFS (h_FF)',
+      'astar-hadd': 'Built-in A* (h_add)',
+    },
+    nodeBudgetLabel: 'Node budget',
+    progress: (expanded, generated) => `Expanded ${expanded} nodes, generated ${generated} states`,
+    stop: 'Stop',
+    confirm: 'Solve',
+    solving: 'Solving…',
+  },
+  simulator: {
+    title: 'Plan simulator',
+    toggle: 'Simulate plan',
+    close: 'Close simulator',
+    noSteps: 'This plan has no recorded steps. Solve again or re-import the plan file.',
+    initialState: 'Initial state',
+    step: (index, total) => `Step ${index} of ${total}`,
+    previous: 'Previous',
+    next: 'Next',
+    stoppedAt: (index, message) => `Step ${index} cannot be applied: ${message}`,
+    goalReached: 'Plan finished and the goal holds.',
+    goalNotReached: (goal) => `Plan finished but the goal does not hold: ${goal}`,
+    addedFacts: 'Added facts',
+    deletedFacts: 'Deleted facts',
+    changedFluents: 'Changed values',
+    noChanges: 'No changes',
+    facts: 'True facts',
+    fluents: 'Numeric fluents',
+    undefinedValue: 'undefined',
+    causalGraph: 'Draw causal graph',
+  },
+  llmSettings: {
+    title: 'Model settings',
+    open: 'Model settings',
+    providerLabel: 'Provider',
+    providers: {
+      backend: 'Backend proxy (/chat/generate)',
+      openai: 'OpenAI-compatible API',
+      mock: 'Local mock (offline)',
+    },
+    baseUrlLabel: 'Base URL',
+    modelLabel: 'Model',
+    apiKeyLabel: 'API key',
+    apiKeyHint: 'The API key is stored in this browser only; requests go straight from the browser to the base URL above.',
+    baseUrlRequired: 'Base URL is required',
+    save: 'Save',
+  },
+  editReview: {
+    title: 'Proposed changes',
+    hint:
+      'Tick the changes to accept; unticked parts stay as they are on the board, and unchanged actions and nodes keep their current layout.',
+    replaceHint:
+      'The current board cannot be read back as PDDL of this type, so applying rebuilds the board from the selected changes. The old board can be restored with undo.',
+    sections: {
+      requirements: 'Requirements',
+      types: 'Types',
+      constants: 'Constants',
+      predicates: 'Predicates',
+      functions: 'Numeric fluents',
+      actions: 'Actions',
+      objects: 'Objects',
+      init: 'Initial state',
+      goal: 'Goal',
+      metric: 'Metric',
+    },
+    kinds: {
+      added: 'Added',
+      removed: 'Removed',
+      changed: 'Changed',
+    },
+    acceptAll: 'Accept all',
+    rejectAll: 'Reject all',
+    discard: 'Discard',
+    apply: (count) => `Apply ${count} ${count === 1 ? 'change' : 'changes'}`,
+    review: (count) => `The assistant proposed ${count} ${count === 1 ? 'change' : 'changes'}; click to review`,
+    applied:
+      "Applied the assistant's changes. Undo restores the board as it was before, including any edits made since.",
+    undo: 'Undo',
+    dismiss: 'Keep changes',
+  },
   validation: {
     nameRequired: 'Name is required',
     nameExists: 'Name already exists',
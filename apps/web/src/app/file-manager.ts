@@ -1,4 +1,5 @@
 import type { PlaitElement, PlaitTheme, Viewport } from '@plait/core';
+import type { SolverPlanStep } from './pddl_types';
 
 export type AppValue = {
   children: PlaitElement[];
@@ -15,10 +16,31 @@ export type BoardEntryBase = {
   updatedAt: number;
 };
 
+/** 计划文件记下原始步骤，以及求解时所用的 domain/problem，供模拟与校验使用 */
+export type PlanFileSource = {
+  steps: SolverPlanStep[];
+  domainFileId?: string;
+  problemFileId?: string;
+  /** 求解器或计划文件给出的代价，重新校验后重建画布时沿用 */
+  cost?: number | string;
+  solver?: string;
+};
+
 export type BoardFileEntry = BoardEntryBase & {
   type: 'file';
   fileType: FileType;
   data: AppValue;
+  plan?: PlanFileSource;
+  /** problem 文件对应的 domain，例如由同一段描述一起生成；求解时默认选中 */
+  domainFileId?: string;
+  /** 应用助手修改之前的画布及文件类型相关的字段，只保留最近一次，用于撤销 */
+  previousVersion?: {
+    data: AppValue;
+    fileType: FileType;
+    plan?: PlanFileSource;
+    domainFileId?: string;
+    savedAt: number;
+  };
 };
 
 export type BoardFolderEntry = BoardEntryBase & {
@@ -80,7 +102,7 @@ export const normalizeEntries = (entries: BoardEntry[]): BoardEntry[] => {
       const fileEntry = entry as BoardFileEntry & { fileType?: FileType };
       if (!fileEntry.fileType) {
         changed = true;
-        return { ...fileEntry, fileType: 'others' };
+        return { ...fileEntry, fileType: 'others' as const };
       }
       return fileEntry;
     }
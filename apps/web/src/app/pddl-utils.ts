@@ -1,9 +1,11 @@
 import type { FileType } from './file-manager';
-import type { PddlDomain, PddlProblem } from './pddl-types';
+import type { PddlDiagnostic } from '@drawnix/drawnix';
+import type { PddlAction, PddlDomain, PddlDurativeAction, PddlProblem } from './pddl_types';
+import { parsePddlPlan } from '../utils/pddl-parser';
 
 export const detectPddlFileType = (
   content: string
-): Extract<FileType, 'domain' | 'problem'> | null => {
+): Extract<FileType, 'domain' | 'problem' | 'plan'> | null => {
   const normalized = content
     .replace(/;[^\n\r]*/g, ' ')
     .replace(/\s+/g, ' ')
@@ -14,6 +16,10 @@ export const detectPddlFileType = (
   if (/\(\s*define\s*\(\s*problem\b/.test(normalized)) {
     return 'problem';
   }
+  // 计划文件没有 define 块，能逐行读成动作序列就算
+  if (parsePddlPlan(content).success) {
+    return 'plan';
+  }
   return null;
 };
 
@@ -46,3 +52,39 @@ export const isProblemPayload = (value: unknown): value is PddlProblem => {
     typeof (problemCandidate as { name?: unknown }).name === 'string'
   );
 };
+
+export type PddlComparator = '=' | '<' | '<=' | '>' | '>=';
+
+// 解析器给出符号，后端有时给出单词形式
+export const PDDL_COMPARATOR_ALIASES: Partial<Record<string, PddlComparator>> = {
+  '=': '=',
+  equal: '=',
+  '<=': '<=',
+  'lesser-equal': '<=',
+  '≤': '<=',
+  '>=': '>=',
+  'greater-equal': '>=',
+  '≥': '>=',
+  '<': '<',
+  lesser: '<',
+  '>': '>',
+  greater: '>',
+};
+
+export const isDurativeAction = (action: PddlAction): action is PddlDurativeAction =>
+  (action as Partial<PddlDurativeAction>).durative === true;
+
+// 把诊断信息排成 "第 N 行第 M 列" 加出错行原文与指示符的文本，用于弹窗提示
+export const formatPddlDiagnostics = (
+  content: string,
+  diagnostics: PddlDiagnostic[]
+) => {
+  const lines = content.split(/\r\n|\r|\n/);
+  return diagnostics
+    .map((diagnostic) => {
+      const sourceLine = lines[diagnostic.line - 1] ?? '';
+      const pointer = `${' '.repeat(Math.max(diagnostic.column - 1, 0))}^`;
+      return `第 ${diagnostic.line} 行第 ${diagnostic.column} 列：${diagnostic.message}\n${sourceLine}\n${pointer}`;
+    })
+    .join('\n\n');
+};
@@ -1,3 +1,6 @@
+import type { PddlDiagnostic } from '@drawnix/drawnix';
+import type { PlaitElement } from '@plait/core';
+
 export type PddlParseResponse<T> = PddlParseSuccess<T> | PddlParseFailure;
 export interface PddlParseSuccess<T> {
   success: true;
@@ -6,12 +9,17 @@ export interface PddlParseSuccess<T> {
 export interface PddlParseFailure {
   success: false;
   error: string;
-  details?: Record<string, unknown>;
+  details?: {
+    /** 源码中出错的位置，至少包含一条 */
+    diagnostics?: PddlDiagnostic[];
+    [key: string]: unknown;
+  };
 }
 export interface PddlDomain {
   name: string;
   requirements: string[];
   types: PddlTypeDeclaration[];
+  constants?: PddlObject[];
   predicates: PddlPredicate[];
   functions: PddlFunction[];
   actions: PddlAction[];
@@ -38,6 +46,17 @@ export interface PddlAction {
   preconditions: PddlExpression[];
   effects: PddlExpression[];
 }
+/** PDDL 2.1 :durative-action，条件与效果放在 preconditions/effects 中，并以时间限定词包裹 */
+export interface PddlDurativeAction extends PddlAction {
+  durative: true;
+  /** :duration 约束，例如 (= ?duration 5) */
+  duration: PddlExpression[];
+}
+export type PddlTimeSpecifier = 'at start' | 'over all' | 'at end';
+export interface PddlTimedExpression {
+  type: PddlTimeSpecifier;
+  argument: PddlExpression;
+}
 export interface PddlTypedParameter {
   name: string;
   type: string | null;
@@ -48,6 +67,7 @@ export type PddlExpression =
   | PddlNotExpression
   | PddlNumericExpression
   | PddlNumberLiteral
+  | PddlTimedExpression
   | PddlCompositeExpression;
 export interface PddlPredicateExpression {
   type: 'predicate';
@@ -103,3 +123,101 @@ export interface PddlMetricExpression {
   type: string;
   arguments?: PddlExpressionArgument[];
 }
+export interface PddlMetric extends PddlMetricExpression {
+  type: 'minimize' | 'maximize';
+}
+
+/** 求解器返回的计划步骤，后端与浏览器内置规划器共用 */
+export type SolverPlanStep = {
+  action: string;
+  parameters?: string[];
+  time?: number;
+  duration?: number;
+  annotation?: string;
+  Annotation?: string;
+};
+
+/** 从 .plan / .soln 等计划文件读出的内容 */
+export interface PddlPlan {
+  steps: SolverPlanStep[];
+  /** 文件里 "; cost = N" 注释给出的代价 */
+  cost: number | null;
+}
+
+export type SolvePlanResponse = {
+  success?: boolean;
+  solver?: string;
+  plan?: SolverPlanStep[];
+  cost?: number | string;
+  metric?: number | string;
+  message?: string;
+  error?: string;
+};
+
+/** 画布元素在 PDDL 中所代表的含义，由 pddl-to-graph 生成 */
+export type PddlElementRole =
+  | 'action'
+  | 'action-title'
+  | 'action-description'
+  | 'parameter'
+  | 'precondition'
+  | 'effect'
+  | 'numeric-effect'
+  | 'function'
+  | 'operator'
+  | 'literal'
+  | 'problem'
+  | 'init-description'
+  | 'goal-description'
+  | 'object'
+  | 'init'
+  | 'goal'
+  | 'comparator'
+  | 'argument-edge'
+  | 'operand-edge'
+  | 'type-hierarchy'
+  | 'type'
+  | 'subtype-edge'
+  | 'signature-catalog'
+  | 'predicate-signature'
+  | 'function-signature'
+  | 'usage-matrix'
+  | 'connective'
+  | 'quantifier'
+  | 'bound-variable'
+  | 'logic-term'
+  | 'scope'
+  | 'duration'
+  | 'time-lane'
+  | 'causal-graph'
+  | 'plan-step'
+  | 'causal-link';
+
+/** 挂在生成元素的 `pddl` 字段上，随画布数据一起保存 */
+export interface PddlElementMetadata {
+  role: PddlElementRole;
+  /** 所属 action 名（domain 画布） */
+  action?: string;
+  /** 所属 problem 名（problem 画布） */
+  problem?: string;
+  /** 谓词、函数、参数、对象名或运算符 */
+  name?: string;
+  /** 参数或对象声明的类型；函数签名上为返回类型 */
+  type?: string | null;
+  /** 谓词/函数的实参 */
+  arguments?: string[];
+  /** problem 画布会合并同名谓词/函数，这里记录节点代表的每一组实参 */
+  instances?: string[][];
+  polarity?: 'positive' | 'negative';
+  /** 逻辑结构节点属于前提还是效果 */
+  section?: 'precondition' | 'effect';
+  /** 持续动作中条件/效果所在的时间点 */
+  time?: PddlTimeSpecifier;
+  /** 连线指向的参数在实参中的位置 */
+  argumentIndex?: number;
+  /** 签名目录中读取/修改该谓词或函数的 action */
+  readBy?: string[];
+  writtenBy?: string[];
+}
+
+export type PddlGraphElement = PlaitElement & { pddl?: PddlElementMetadata };
@@ -1,4 +1,3 @@
+// 直连 OpenAI 兼容接口时的默认地址和模型，API key 在聊天面板的模型设置里填写并只保存在浏览器中
 export const QWEN_API_BASE_URL = 'https://dashscope.aliyuncs.com/compatible-mode/v1';
 export const QWEN_DEFAULT_MODEL = 'qwen3-max';
-// Fill this value with your DashScope API key before invoking the model from the frontend.
-export const QWEN_API_KEY = 'sk-452845fc04b34ff0a52ca0d65e518510';
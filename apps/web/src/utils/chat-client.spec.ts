@@ -0,0 +1,106 @@
+/**
+ * @jest-environment node
+ */
+import { ChatGenerateRequest, ChatMessage, readEventStream, streamChatReply, toChatHistory } from './chat-client';
+
+// 按给定的分块逐段吐出文本，模拟网络把事件切在任意位置
+const streamOf = (...chunks: string[]) => {
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach((chunk) => controller.enqueue(encoder.encode(chunk)));
+      controller.close();
+    },
+  });
+};
+
+const REQUEST: ChatGenerateRequest = {
+  pddl_type: 'domain',
+  messages: [{ role: 'user', content: 'hi' }],
+  context: { file: null, selection: [] },
+};
+
+const mockFetch = (body: BodyInit, contentType: string, status = 200) =>
+  jest
+    .spyOn(global, 'fetch')
+    .mockResolvedValue(new Response(body, { status, headers: { 'content-type': contentType } }));
+
+describe('readEventStream', () => {
+  it('joins events split across chunks and multi-line data', async () => {
+    const events: Array<{ event: string; data: string }> = [];
+    await readEventStream(
+      streamOf('data: one\r\n', '\r\ndata: two\ndata: lines\n\n: comment\nevent: error\nda', 'ta: x'),
+      (event) => {
+        events.push(event);
+      }
+    );
+    expect(events).toEqual([
+      { event: 'message', data: 'one' },
+      { event: 'message', data: 'two\nlines' },
+      { event: 'error', data: 'x' },
+    ]);
+  });
+
+  it('stops once the handler reports the end', async () => {
+    const handle = jest.fn((event: { data: string }) => event.data === '[DONE]');
+    await readEventStream(streamOf('data: a\n\ndata: [DONE]\n\ndata: b\n\n'), handle);
+    expect(handle).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('streamChatReply', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('accumulates SSE deltas until [DONE]', async () => {
+    mockFetch(
+      streamOf(
+        'data: {"delta":"Hel"}\n\n',
+        'data: {"delta":"lo","initial_pddl":"(define)"}\n\ndata: plain\n\n',
+        'data: [DONE]\n\ndata: {"delta":"ignored"}\n\n'
+      ),
+      'text/event-stream'
+    );
+    const onText = jest.fn();
+    const result = await streamChatReply('/chat', REQUEST, { onText });
+    expect(onText.mock.calls.map(([text]) => text)).toEqual(['Hel', 'Hello', 'Helloplain']);
+    expect(result).toEqual({ content: 'Helloplain', initial_pddl: '(define)' });
+    expect(JSON.parse(String((global.fetch as jest.Mock).mock.calls[0][1].body))).toMatchObject({ stream: true });
+  });
+
+  it('rejects on an error event', async () => {
+    mockFetch(streamOf('data: {"delta":"a"}\n\nevent: error\ndata: model overloaded\n\n'), 'text/event-stream');
+    await expect(streamChatReply('/chat', REQUEST, { onText: jest.fn() })).rejects.toThrow('model overloaded');
+  });
+
+  it('falls back to a single JSON reply and to plain text chunks', async () => {
+    mockFetch(JSON.stringify({ content: 'whole' }), 'application/json');
+    const onJson = jest.fn();
+    await expect(streamChatReply('/chat', REQUEST, { onText: onJson })).resolves.toEqual({ content: 'whole' });
+    expect(onJson).toHaveBeenCalledWith('whole');
+
+    mockFetch(streamOf('par', 'tial'), 'text/plain');
+    const onPlain = jest.fn();
+    await expect(streamChatReply('/chat', REQUEST, { onText: onPlain })).resolves.toEqual({ content: 'partial' });
+    expect(onPlain.mock.calls.map(([text]) => text)).toEqual(['par', 'partial']);
+  });
+
+  it('reports the backend message of a failed request', async () => {
+    mockFetch(JSON.stringify({ content: 'quota exceeded' }), 'application/json', 429);
+    await expect(streamChatReply('/chat', REQUEST, { onText: jest.fn() })).rejects.toThrow('quota exceeded');
+  });
+});
+
+describe('toChatHistory', () => {
+  it('drops error notices and empty messages', () => {
+    const message = (role: ChatMessage['role'], content: string, error?: boolean): ChatMessage => ({
+      id: content,
+      role,
+      content,
+      timestamp: 0,
+      error,
+    });
+    expect(
+      toChatHistory([message('user', 'q'), message('assistant', 'failed', true), message('assistant', '')])
+    ).toEqual([{ role: 'user', content: 'q' }]);
+  });
+});
@@ -0,0 +1,215 @@
+import type { FileType } from '../app/file-manager';
+import type { PddlElementMetadata } from '../app/pddl_types';
+
+export type ChatRole = 'user' | 'assistant';
+
+export interface ChatMessage {
+  id: string;
+  role: ChatRole;
+  content: string;
+  timestamp: number;
+  /** 请求失败时插入的提示，不作为历史发给后端 */
+  error?: boolean;
+  /** 仍在接收流式输出 */
+  streaming?: boolean;
+  /** 用户中途停止，content 只是已收到的部分 */
+  stopped?: boolean;
+}
+
+/** 画布上选中的元素，只保留助手理解问题需要的部分 */
+export interface ChatSelectedElement {
+  id: string;
+  type: string;
+  text?: string;
+  pddl?: PddlElementMetadata;
+}
+
+export interface ChatContext {
+  file: {
+    name: string;
+    type: FileType;
+    /** 当前画布还原出的 PDDL 或计划文本，无法还原时为 null */
+    content: string | null;
+    /** 还原失败的原因 */
+    error?: string;
+  } | null;
+  selection: ChatSelectedElement[];
+}
+
+export interface ChatGenerateRequest {
+  /** 旧版后端只认这个字段，保留以兼容 */
+  pddl_type: FileType;
+  /** 按时间顺序的完整对话，最后一条是本轮用户消息 */
+  messages: Array<{ role: ChatRole; content: string }>;
+  context: ChatContext;
+  /** 为 true 时后端可以用 SSE 或分块文本逐段返回 */
+  stream?: boolean;
+}
+
+export interface ChatGenerateResponse {
+  initial_pddl?: unknown;
+  content?: unknown;
+}
+
+/** SSE 每个 data 事件的内容；delta 是新增的文本，其余字段与非流式响应相同 */
+type ChatStreamEvent = ChatGenerateResponse & { delta?: unknown };
+
+export const toChatHistory = (messages: ChatMessage[]): ChatGenerateRequest['messages'] =>
+  messages.filter((message) => !message.error && message.content).map(({ role, content }) => ({ role, content }));
+
+const readErrorResponse = async (response: Response) => {
+  const fallback = `${response.status} ${response.statusText}`;
+  try {
+    const payload = (await response.json()) as ChatGenerateResponse;
+    return typeof payload.content === 'string' && payload.content ? payload.content : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+export type SseEvent = { event: string; data: string };
+
+// 逐个取出 SSE 事件的 data 部分；多行 data 按规范用换行拼接，注释行和其他字段忽略
+const takeSseEvents = (buffer: string): { events: SseEvent[]; rest: string } => {
+  const blocks = buffer.split(/\r?\n\r?\n/);
+  const rest = blocks.pop() ?? '';
+  const events = blocks.map((block) => {
+    let event = 'message';
+    const data: string[] = [];
+    block.split(/\r?\n/).forEach((line) => {
+      if (line.startsWith('data:')) {
+        data.push(line.slice(5).replace(/^ /, ''));
+      } else if (line.startsWith('event:')) {
+        event = line.slice(6).trim();
+      }
+    });
+    return { event, data: data.join('\n') };
+  });
+  return { events, rest };
+};
+
+/** 逐块读取响应体的文本；中止请求时 read 会以 AbortError 拒绝 */
+export async function readTextStream(body: ReadableStream<Uint8Array>, onChunk: (chunk: string) => void) {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  try {
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (done) {
+        break;
+      }
+      onChunk(decoder.decode(value, { stream: true }));
+    }
+    onChunk(decoder.decode());
+  } finally {
+    reader.releaseLock();
+  }
+}
+
+/** 读取 SSE 响应体，handle 返回 true 时不再处理后续事件 */
+export async function readEventStream(body: ReadableStream<Uint8Array>, handle: (event: SseEvent) => boolean | void) {
+  let buffer = '';
+  let finished = false;
+  await readTextStream(body, (chunk) => {
+    if (finished) {
+      return;
+    }
+    const { events, rest } = takeSseEvents(buffer + chunk);
+    buffer = rest;
+    finished = events.some((event) => handle(event) === true);
+  });
+  if (!finished && buffer.trim()) {
+    takeSseEvents(`${buffer}\n\n`).events.some((event) => handle(event) === true);
+  }
+}
+
+export type ChatStreamOptions = {
+  signal?: AbortSignal;
+  /** 每收到一段文本调用一次，参数是到目前为止的完整文本 */
+  onText: (text: string) => void;
+};
+
+/**
+ * 以流式方式调用 /chat/generate，按响应类型处理：
+ * text/event-stream 逐个解析 data 事件（JSON 中的 delta 为增量，"[DONE]" 结束，event: error 表示出错）；
+ * application/json 说明后端不支持流式，整段作为一次输出；其余类型把每个分块当作纯文本增量。
+ * signal 中止时以 AbortError 拒绝，已经通过 onText 交出的文本由调用方保留。
+ */
+export async function streamChatReply(
+  url: string,
+  request: ChatGenerateRequest,
+  { signal, onText }: ChatStreamOptions
+): Promise<ChatGenerateResponse> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', Accept: 'text/event-stream, text/plain, application/json' },
+    body: JSON.stringify({ ...request, stream: true }),
+    signal,
+  });
+  if (!response.ok) {
+    throw new Error(await readErrorResponse(response));
+  }
+
+  const contentType = response.headers.get('content-type') ?? '';
+  if (contentType.includes('application/json') || !response.body) {
+    let payload: ChatGenerateResponse;
+    try {
+      payload = (await response.json()) as ChatGenerateResponse;
+    } catch {
+      throw new Error('后端返回了无效的 JSON 响应。');
+    }
+    if (typeof payload.content === 'string') {
+      onText(payload.content);
+    }
+    return payload;
+  }
+
+  const isSse = contentType.includes('text/event-stream');
+  const result: ChatGenerateResponse = {};
+  let text = '';
+  const append = (delta: string) => {
+    if (delta) {
+      text += delta;
+      onText(text);
+    }
+  };
+  // 返回 true 表示收到了结束标记
+  const handleEvent = ({ event, data }: SseEvent) => {
+    if (data === '[DONE]') {
+      return true;
+    }
+    if (event === 'error') {
+      throw new Error(data || '后端在流式输出中途报告了错误。');
+    }
+    let parsed: ChatStreamEvent | null = null;
+    try {
+      const value = JSON.parse(data) as unknown;
+      parsed = typeof value === 'object' && value !== null ? (value as ChatStreamEvent) : null;
+    } catch {
+      parsed = null;
+    }
+    // 不是 JSON 对象的 data 直接当作文本增量
+    if (!parsed) {
+      append(data);
+      return false;
+    }
+    if (typeof parsed.delta === 'string') {
+      append(parsed.delta);
+    } else if (typeof parsed.content === 'string') {
+      // 完整内容覆盖之前拼出的文本
+      text = parsed.content;
+      onText(text);
+    }
+    if (parsed.initial_pddl !== undefined) {
+      result.initial_pddl = parsed.initial_pddl;
+    }
+    return false;
+  };
+
+  if (isSse) {
+    await readEventStream(response.body, handleEvent);
+  } else {
+    await readTextStream(response.body, append);
+  }
+  return { ...result, content: text };
+}
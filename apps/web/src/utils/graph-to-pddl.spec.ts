@@ -0,0 +1,232 @@
+import { PlaitElement } from '@plait/core';
+import { PddlDomain, PddlGraphElement } from '../app/pddl_types';
+import { convertGraphToPddlDomain, convertGraphToPddlProblem } from './graph-to-pddl';
+import { parsePddlDomain, parsePddlProblem } from './pddl-parser';
+import { convertPddlDomainToGraph, convertPddlProblemToGraph } from './pddl-to-graph';
+import { solvePddlPlanningProblem } from './pddl-planner';
+import { formatPddlDomain, formatPddlProblem } from './pddl-writer';
+
+const parseDomain = (text: string) => {
+  const result = parsePddlDomain(text);
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+  return result.content;
+};
+
+const parseProblem = (text: string) => {
+  const result = parsePddlProblem(text);
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+  return result.content;
+};
+
+const setLabel = (element: PlaitElement, text: string) => {
+  Object.assign(element, { text: { children: [{ type: 'paragraph', children: [{ text }] }] } });
+};
+
+const findByRole = (elements: PlaitElement[], role: string) =>
+  elements.filter((element) => (element as PddlGraphElement).pddl?.role === role);
+
+// 早先生成的画布在分组上没有 domain 名、requirements 与常量
+const dropDomainGroupData = (elements: PlaitElement[]) =>
+  elements.forEach((element) => {
+    if (element.type === 'group') {
+      const { domain, requirements, constants, ...rest } = element.data;
+      element.data = rest;
+    }
+  });
+
+const roundTrip = (domain: PddlDomain, fileName = 'Logistics (2)') =>
+  convertGraphToPddlDomain(convertPddlDomainToGraph(domain), fileName);
+
+const LOGISTICS_DOMAIN = `(define (domain logistics)
+  (:requirements :strips :typing :equality)
+  (:types truck - vehicle vehicle place)
+  (:constants depot - place)
+  (:predicates (at ?v - vehicle ?p - place) (visited ?p - place))
+  (:action drive
+    :parameters (?t - truck ?from ?to - place)
+    :precondition (and (at ?t ?from) (not (= ?from ?to)))
+    :effect (and (not (at ?t ?from)) (at ?t ?to) (visited ?to)))
+  (:action return
+    :parameters (?t - truck ?from - place)
+    :precondition (at ?t ?from)
+    :effect (and (not (at ?t ?from)) (at ?t depot))))`;
+
+const COST_DOMAIN = `(define (domain travel)
+  (:requirements :strips :typing :action-costs)
+  (:types place)
+  (:predicates (at ?p - place))
+  (:functions (total-cost) - number)
+  (:action move
+    :parameters (?from ?to - place)
+    :precondition (at ?from)
+    :effect (and (not (at ?from)) (at ?to) (increase (total-cost) 1))))`;
+
+const EITHER_DOMAIN = `(define (domain storage)
+  (:requirements :strips :typing)
+  (:types crate pallet)
+  (:predicates (clear ?x - (either crate pallet)))
+  (:action clear
+    :parameters (?x - (either crate pallet))
+    :effect (clear ?x)))`;
+
+describe('convertGraphToPddlDomain', () => {
+  it('keeps the parsed domain name, requirements and constants', () => {
+    const domain = roundTrip(parseDomain(LOGISTICS_DOMAIN));
+    expect(domain.name).toBe('logistics');
+    expect(domain.requirements).toEqual([':strips', ':typing', ':equality']);
+    expect(domain.constants).toEqual([{ name: 'depot', type: 'place' }]);
+  });
+
+  it('puts constants back into predicate arguments', () => {
+    const domain = roundTrip(parseDomain(LOGISTICS_DOMAIN));
+    const returnAction = domain.actions.find((action) => action.name === 'return');
+    expect(returnAction?.effects[1]).toEqual({
+      type: 'predicate',
+      name: 'at',
+      arguments: [
+        { name: '?t', type: null },
+        { name: 'depot', type: null },
+      ],
+    });
+  });
+
+  it('writes text that parses back to the same domain', () => {
+    [LOGISTICS_DOMAIN, COST_DOMAIN, EITHER_DOMAIN].forEach((text) => {
+      const original = parseDomain(text);
+      const exported = parseDomain(formatPddlDomain(roundTrip(original)));
+      expect(formatPddlDomain(exported)).toBe(formatPddlDomain(original));
+    });
+  });
+
+  it('reads the type hierarchy back from the board', () => {
+    const original = parseDomain(LOGISTICS_DOMAIN);
+    expect(roundTrip(original).types).toEqual(original.types);
+  });
+
+  it('declares the members of an either type but never the either type itself', () => {
+    const elements = convertPddlDomainToGraph(parseDomain(EITHER_DOMAIN));
+    dropDomainGroupData(elements);
+    const domain = convertGraphToPddlDomain(elements, 'storage');
+    expect(domain.types.map((type) => type.name).sort()).toEqual(['crate', 'pallet']);
+    expect(domain.actions[0].parameters).toEqual([{ name: '?x', type: '(either crate pallet)' }]);
+  });
+
+  it('infers requirements from usage when the board carries none', () => {
+    const logistics = convertPddlDomainToGraph(parseDomain(LOGISTICS_DOMAIN));
+    dropDomainGroupData(logistics);
+    const inferred = convertGraphToPddlDomain(logistics, 'Logistics (2)');
+    expect(inferred.name).toBe('logistics-2');
+    // (not (= ?from ?to)) 只需要 :equality，不是否定前提
+    expect(inferred.requirements).toEqual([':strips', ':typing', ':equality']);
+
+    const travel = convertPddlDomainToGraph(parseDomain(COST_DOMAIN));
+    dropDomainGroupData(travel);
+    expect(convertGraphToPddlDomain(travel, 'travel').requirements).toEqual([':strips', ':typing', ':action-costs']);
+  });
+
+  it('adds requirements for features introduced on the board', () => {
+    const elements = convertPddlDomainToGraph(parseDomain(COST_DOMAIN));
+    const [precondition] = findByRole(elements, 'precondition');
+    setLabel(precondition, 'not at');
+    expect(convertGraphToPddlDomain(elements, 'travel').requirements).toEqual([
+      ':strips',
+      ':typing',
+      ':action-costs',
+      ':negative-preconditions',
+    ]);
+  });
+
+  it('reports a numeric effect whose label no longer names an operation instead of throwing', () => {
+    const elements = convertPddlDomainToGraph(parseDomain(COST_DOMAIN));
+    const [numericEffect] = findByRole(elements, 'numeric-effect');
+    setLabel(numericEffect, 'total-cost += 1');
+
+    const issues: string[] = [];
+    const domain = convertGraphToPddlDomain(elements, 'travel', issues);
+    expect(issues).toEqual([expect.stringContaining('「total-cost += 1」无法识别')]);
+    expect(domain.actions[0].effects.map((effect) => effect.type)).toEqual(['not', 'predicate']);
+  });
+});
+
+const TOUR_PROBLEM = `(define (problem tour)
+  (:domain logistics)
+  (:objects t - truck x y - place)
+  (:init (at t x) (= (fuel t) 3))
+  (:goal (and (visited y) (not (at t x)) (>= (fuel t) 1)))
+  (:metric minimize (total-cost)))`;
+
+const CHOICE_PROBLEM = `(define (problem choice)
+  (:domain logistics)
+  (:objects t - truck x y - place)
+  (:init (at t x))
+  (:goal (or (visited y) (and (at t y) (not (visited x))))))`;
+
+const DEPOT_PROBLEM = `(define (problem depot-run)
+  (:domain logistics)
+  (:objects t - truck x y - place)
+  (:init (at t depot))
+  (:goal (and (visited x) (visited y) (at t depot))))`;
+
+describe('convertGraphToPddlProblem', () => {
+  it('writes text that parses back to the same problem', () => {
+    const original = parseProblem(TOUR_PROBLEM);
+    const issues: string[] = [];
+    const exported = convertGraphToPddlProblem(convertPddlProblemToGraph(original), 'tour', issues);
+    expect(issues).toEqual([]);
+    expect(exported && formatPddlProblem(exported)).toBe(formatPddlProblem(original));
+  });
+
+  it('keeps a goal that is not a plain conjunction', () => {
+    const original = parseProblem(CHOICE_PROBLEM);
+    const issues: string[] = [];
+    const exported = convertGraphToPddlProblem(convertPddlProblemToGraph(original), 'choice', issues);
+    expect(issues).toEqual([]);
+    expect(exported?.goal).toEqual(original.goal);
+  });
+
+  it('refuses a non-conjunctive goal whose literals were edited on the board', () => {
+    const elements = convertPddlProblemToGraph(parseProblem(CHOICE_PROBLEM));
+    const visited = findByRole(elements, 'goal').find(
+      (element) => (element as PddlGraphElement).pddl?.name === 'visited'
+    );
+    if (!visited) {
+      throw new Error('goal node "visited" not found');
+    }
+    setLabel(visited, 'seen');
+    const issues: string[] = [];
+    convertGraphToPddlProblem(elements, 'choice', issues);
+    expect(issues).toEqual([expect.stringContaining('(or (visited y) (and (at t y) (not (visited x))))')]);
+  });
+
+  it('keeps domain constants in problem facts', () => {
+    const problem = convertGraphToPddlProblem(convertPddlProblemToGraph(parseProblem(DEPOT_PROBLEM)), 'depot-run');
+    expect(problem && formatPddlProblem(problem)).toBe(formatPddlProblem(parseProblem(DEPOT_PROBLEM)));
+  });
+});
+
+// 求解对话框把画布还原成 PDDL 文本后交给规划器，这里走同样的路径：画布 → 文本 → 重新解析 → 求解
+describe('solving from boards', () => {
+  const solveFromBoards = (domainText: string, problemText: string) => {
+    const issues: string[] = [];
+    const domain = convertGraphToPddlDomain(convertPddlDomainToGraph(parseDomain(domainText)), 'domain', issues);
+    const problem = convertGraphToPddlProblem(convertPddlProblemToGraph(parseProblem(problemText)), 'problem', issues);
+    expect(issues).toEqual([]);
+    if (!problem) {
+      throw new Error('problem group not found');
+    }
+    return solvePddlPlanningProblem(parseDomain(formatPddlDomain(domain)), parseProblem(formatPddlProblem(problem)));
+  };
+
+  it.each([
+    ['constants', LOGISTICS_DOMAIN, DEPOT_PROBLEM],
+    ['a disjunctive goal', LOGISTICS_DOMAIN, CHOICE_PROBLEM],
+  ])('finds the same plan as the source PDDL for %s', (_, domainText, problemText) => {
+    const expected = solvePddlPlanningProblem(parseDomain(domainText), parseProblem(problemText));
+    expect(expected.status).toBe('solved');
+    expect(solveFromBoards(domainText, problemText)).toMatchObject({ status: 'solved', plan: expected.plan });
+  });
+});
@@ -0,0 +1,1018 @@
+import { PlaitElement } from '@plait/core';
+import {
+  PddlAction,
+  PddlCompositeExpression,
+  PddlDomain,
+  PddlDurativeAction,
+  PddlExpression,
+  PddlElementRole,
+  PddlExpressionArgument,
+  PddlFunction,
+  PddlGraphElement,
+  PddlMetric,
+  PddlObject,
+  PddlPredicate,
+  PddlProblem,
+  PddlTypeDeclaration,
+  PddlTypedParameter,
+} from '../app/pddl_types';
+import {
+  createProblemGraph,
+  EFFECT_COLOR,
+  FUNCTION_NODE_COLOR,
+  LITERAL_NODE_COLOR,
+  NUMERIC_OPERATOR_LABEL_MAP,
+  OPERATOR_NODE_COLOR,
+  PRECONDITION_COLOR,
+} from './pddl-to-graph';
+import { parsePddlExpression } from './pddl-parser';
+import { formatPddlExpression } from './pddl-writer';
+import { isDurativeAction } from '../app/pddl-utils';
+
+const ACTION_TITLE_PREFIX = 'Action:';
+const DEFAULT_ACTION_DESCRIPTION = 'Action description';
+const NUMERIC_EFFECT_PATTERN = /^(increase|decrease|assign|scale-up|scale-down)\b\s*(.*)$/i;
+const COMPARATOR_SYMBOLS = new Set(['=', '<=', '>=', '<', '>']);
+
+type ActionNodeRole =
+  | 'title'
+  | 'description'
+  | 'parameter'
+  | 'precondition'
+  | 'effect'
+  | 'numeric-effect'
+  | 'function'
+  | 'operator'
+  | 'literal'
+  | 'connective'
+  | 'quantifier'
+  | 'bound-variable'
+  | 'logic-term'
+  | 'duration';
+
+interface ActionNode {
+  element: PlaitElement;
+  role: ActionNodeRole;
+  text: string;
+}
+
+interface ActionEdge {
+  sourceId: string;
+  targetId: string;
+}
+
+interface TextParagraph {
+  text?: string;
+  children?: Array<{ text?: string }>;
+}
+
+// 读取节点上的全部文本，多个段落以换行连接
+export function getElementText(element: PlaitElement): string {
+  const children: unknown = element.text?.children;
+  if (!Array.isArray(children)) {
+    return '';
+  }
+  return (children as TextParagraph[])
+    .map((paragraph) =>
+      Array.isArray(paragraph.children)
+        ? paragraph.children.map((leaf) => leaf.text ?? '').join('')
+        : paragraph.text ?? ''
+    )
+    .join('\n')
+    .trim();
+}
+
+// 文件名等自由文本转成合法的 PDDL 名称
+export function toPddlName(text: string, fallback = 'untitled'): string {
+  const name = text
+    .trim()
+    .toLowerCase()
+    .replace(/[^a-z0-9_-]+/g, '-')
+    .replace(/^[^a-z]+/, '')
+    .replace(/-+$/, '');
+  return name || fallback;
+}
+
+function toVariableName(text: string): string {
+  const name = text.trim().replace(/\s+/g, '-');
+  return name.startsWith('?') ? name : `?${name}`;
+}
+
+// "?t: truck" 形式的参数标签
+function parseParameterLabel(text: string): PddlTypedParameter {
+  const separator = text.indexOf(':');
+  if (separator < 0) {
+    return { name: toVariableName(text), type: null };
+  }
+  const type = text.slice(separator + 1).trim();
+  return { name: toVariableName(text.slice(0, separator)), type: type || null };
+}
+
+// "distance(?a, ?b)" 形式的函数标签
+function parseFunctionLabel(text: string): { name: string; arguments: string[] } {
+  const match = text.match(/^([^()]+)\((.*)\)$/);
+  if (!match) {
+    return { name: text.trim(), arguments: [] };
+  }
+  return {
+    name: match[1].trim(),
+    arguments: match[2]
+      .split(',')
+      .map((arg) => arg.trim())
+      .filter(Boolean),
+  };
+}
+
+function toTerm(text: string): PddlExpressionArgument {
+  const trimmed = text.trim();
+  if (trimmed && !Number.isNaN(Number(trimmed))) {
+    return { type: 'number', value: Number(trimmed) };
+  }
+  return { name: trimmed, type: null };
+}
+
+const ACTION_ROLE_BY_METADATA: Partial<Record<PddlElementRole, ActionNodeRole>> = {
+  'action-title': 'title',
+  'action-description': 'description',
+  parameter: 'parameter',
+  precondition: 'precondition',
+  effect: 'effect',
+  'numeric-effect': 'numeric-effect',
+  function: 'function',
+  operator: 'operator',
+  literal: 'literal',
+  connective: 'connective',
+  quantifier: 'quantifier',
+  'bound-variable': 'bound-variable',
+  'logic-term': 'logic-term',
+  duration: 'duration',
+};
+
+const PROBLEM_ROLE_BY_METADATA: Partial<Record<PddlElementRole, ProblemNodeRole>> = {
+  object: 'object',
+  init: 'init',
+  goal: 'goal',
+  function: 'function',
+  // 比较式中的对象名/字面量与函数节点同色，按函数节点的规则解析
+  literal: 'function',
+  comparator: 'comparator',
+};
+
+function getMetadataRole(element: PlaitElement): PddlElementRole | null {
+  return (element as PddlGraphElement).pddl?.role ?? null;
+}
+
+// 优先使用生成时记录的 pddl 元数据，手动添加的节点再按形状与颜色判断
+function classifyActionNode(element: PlaitElement): ActionNodeRole | null {
+  if (element.type !== 'geometry') {
+    return null;
+  }
+  const metadataRole = getMetadataRole(element);
+  if (metadataRole) {
+    return ACTION_ROLE_BY_METADATA[metadataRole] ?? null;
+  }
+  const text = getElementText(element);
+  if (element.data?.role === 'action-description') {
+    return 'description';
+  }
+  if (element.shape === 'rectangle') {
+    return text.startsWith(ACTION_TITLE_PREFIX) ? 'title' : 'parameter';
+  }
+  switch (element.fill) {
+    case PRECONDITION_COLOR:
+      return 'precondition';
+    case EFFECT_COLOR:
+      return NUMERIC_EFFECT_PATTERN.test(text) ? 'numeric-effect' : 'effect';
+    case FUNCTION_NODE_COLOR:
+      return 'function';
+    case OPERATOR_NODE_COLOR:
+      return 'operator';
+    case LITERAL_NODE_COLOR:
+      return 'literal';
+    default:
+      return null;
+  }
+}
+
+function getElementTop(element: PlaitElement): number {
+  const points = element.points;
+  return points?.length ? Math.min(...points.map((point) => point[1])) : 0;
+}
+
+function getElementBottom(element: PlaitElement): number {
+  const points = element.points;
+  return points?.length ? Math.max(...points.map((point) => point[1])) : 0;
+}
+
+function getEdge(element: PlaitElement): ActionEdge | null {
+  const sourceId: unknown = element.source?.boundId;
+  const targetId: unknown = element.target?.boundId;
+  if (element.type !== 'arrow-line' || typeof sourceId !== 'string' || typeof targetId !== 'string') {
+    return null;
+  }
+  if (!sourceId || !targetId) {
+    return null;
+  }
+  return { sourceId, targetId };
+}
+
+function isGroupOfType(element: PlaitElement, type: string): boolean {
+  return element.type === 'group' && element.data?.type === type;
+}
+
+function getGroupMembers(elements: PlaitElement[], group: PlaitElement): PlaitElement[] {
+  return elements.filter((element) => element.groupId === group.id);
+}
+
+// 按 createActionGraph 的布局约定还原单个 action：
+// 谓词的第一个参数是指向谓词的连线，其余参数是从谓词指出的连线；数值表达式的操作数是指向它的连线。
+// 无法识别的节点不会被猜测着导出，原因记入 issues
+function convertActionGroup(members: PlaitElement[], issues: string[]): PddlAction | null {
+  const nodes = new Map<string, ActionNode>();
+  const edges: ActionEdge[] = [];
+  members.forEach((element) => {
+    const role = classifyActionNode(element);
+    if (role) {
+      nodes.set(element.id, { element, role, text: getElementText(element) });
+      return;
+    }
+    const edge = getEdge(element);
+    if (edge) {
+      edges.push(edge);
+    }
+  });
+
+  const orderedNodes = Array.from(nodes.values());
+  const title = orderedNodes.find((node) => node.role === 'title');
+  if (!title) {
+    return null;
+  }
+  const name = toPddlName(title.text.slice(ACTION_TITLE_PREFIX.length), 'action');
+  const description = orderedNodes.find((node) => node.role === 'description')?.text ?? '';
+
+  const parameterById = new Map<string, PddlTypedParameter>();
+  orderedNodes
+    .filter((node) => node.role === 'parameter')
+    .forEach((node) => parameterById.set(node.element.id, parseParameterLabel(node.text)));
+
+  const boundVariableById = new Map<string, PddlTypedParameter>();
+  orderedNodes
+    .filter((node) => node.role === 'bound-variable')
+    .forEach((node) => boundVariableById.set(node.element.id, parseParameterLabel(node.text)));
+  const getVariable = (id: string) => parameterById.get(id) ?? boundVariableById.get(id);
+
+  const incoming = (id: string) => edges.filter((edge) => edge.targetId === id);
+  const outgoing = (id: string) => edges.filter((edge) => edge.sourceId === id);
+
+  const getParameterArguments = (id: string): PddlExpressionArgument[] => {
+    const first = incoming(id)
+      .map((edge) => getVariable(edge.sourceId))
+      .filter((param): param is PddlTypedParameter => Boolean(param));
+    const rest = outgoing(id)
+      .map((edge) => getVariable(edge.targetId))
+      .filter((param): param is PddlTypedParameter => Boolean(param));
+    return [...first, ...rest].map((param) => ({ name: param.name, type: null }));
+  };
+
+  // 常量没有参数节点，也就没有连线；生成时记录的实参里保留了它们的位置，
+  // 只要连线数与记录中的变量数一致，就按记录把常量插回原位
+  const withConstants = (node: ActionNode, variables: PddlExpressionArgument[]): PddlExpressionArgument[] => {
+    const recorded = (node.element as PddlGraphElement).pddl?.arguments ?? [];
+    const recordedVariables = recorded.filter((arg) => arg.startsWith('?'));
+    if (recordedVariables.length === recorded.length || recordedVariables.length !== variables.length) {
+      return variables;
+    }
+    const queue = [...variables];
+    return recorded.map((arg) => (arg.startsWith('?') ? queue.shift() ?? toTerm(arg) : toTerm(arg)));
+  };
+
+  const toPredicate = (node: ActionNode): PddlExpression => {
+    const negated = /^not\s+/i.test(node.text);
+    const predicate: PddlExpression = {
+      type: 'predicate',
+      name: node.text.replace(/^not\s+/i, '').trim(),
+      arguments: withConstants(node, getParameterArguments(node.element.id)),
+    };
+    return negated ? { type: 'not', argument: predicate } : predicate;
+  };
+
+  const toArgument = (id: string, visited: Set<string>): PddlExpressionArgument | null => {
+    const parameter = parameterById.get(id);
+    if (parameter) {
+      return { name: parameter.name, type: null };
+    }
+    const node = nodes.get(id);
+    if (!node || visited.has(id)) {
+      return null;
+    }
+    if (node.role === 'function') {
+      const label = parseFunctionLabel(node.text);
+      return {
+        type: 'function',
+        name: label.name,
+        arguments: label.arguments.length
+          ? label.arguments.map((arg) => toTerm(arg))
+          : getParameterArguments(id),
+      };
+    }
+    if (node.role === 'literal') {
+      return node.text.includes(':') ? { name: parseParameterLabel(node.text).name, type: null } : toTerm(node.text);
+    }
+    if (node.role === 'operator') {
+      const operator =
+        Object.keys(NUMERIC_OPERATOR_LABEL_MAP).find(
+          (key) => key.length === 1 && NUMERIC_OPERATOR_LABEL_MAP[key] === node.text.trim()
+        ) ?? node.text.trim();
+      return { type: operator, arguments: getOperands(id, new Set(visited).add(id)) };
+    }
+    return null;
+  };
+
+  const getOperands = (id: string, visited: Set<string>): PddlExpressionArgument[] =>
+    incoming(id)
+      .map((edge) => toArgument(edge.sourceId, visited))
+      .filter((arg): arg is PddlExpressionArgument => arg !== null);
+
+  const numericEffects = orderedNodes
+    .filter((node) => node.role === 'numeric-effect')
+    .flatMap((node): PddlExpression[] => {
+      const match = node.text.match(NUMERIC_EFFECT_PATTERN);
+      if (!match) {
+        issues.push(
+          `action ${name} 中的数值效果「${node.text}」无法识别，应以 increase/decrease/assign/scale-up/scale-down 开头。`
+        );
+        return [];
+      }
+      const [, type, target] = match;
+      const operands = getOperands(node.element.id, new Set([node.element.id]));
+      // 目标函数的连线被删除时退回到标签上的函数名
+      if (operands.length < 2 && target) {
+        operands.unshift({ type: 'function', name: target.trim(), arguments: [] });
+      }
+      return [
+        {
+          type: type.toLowerCase() as 'increase' | 'decrease' | 'assign' | 'scale-up' | 'scale-down',
+          arguments: operands,
+        },
+      ];
+    });
+
+  // 逻辑结构：操作数指向 or/imply/not/量词节点，when 节点再指向位于其下方的条件效果
+  const isLogicNode = (id: string) => ['connective', 'quantifier'].includes(nodes.get(id)?.role ?? '');
+  const isWhenNode = (id: string) => isLogicNode(id) && nodes.get(id)?.text.trim().toLowerCase() === 'when';
+  const isWhenEffectEdge = (edge: ActionEdge) => {
+    const source = nodes.get(edge.sourceId);
+    const target = nodes.get(edge.targetId);
+    return (
+      isWhenNode(edge.sourceId) &&
+      source !== undefined &&
+      target !== undefined &&
+      getElementTop(target.element) > getElementTop(source.element)
+    );
+  };
+  const nestedIds = new Set([
+    ...edges.filter((edge) => isLogicNode(edge.targetId) && !isWhenEffectEdge(edge)).map((edge) => edge.sourceId),
+    ...edges.filter((edge) => isWhenEffectEdge(edge)).map((edge) => edge.targetId),
+  ]);
+  const conjoin = (expressions: PddlExpression[]): PddlExpression =>
+    expressions.length === 1 ? expressions[0] : { type: 'and', children: expressions };
+
+  const toLogicExpression = (id: string, visited: Set<string>): PddlExpression | null => {
+    const node = nodes.get(id);
+    if (!node || visited.has(id)) {
+      return null;
+    }
+    if (node.role === 'precondition' || node.role === 'effect') {
+      return toPredicate(node);
+    }
+    if (node.role === 'logic-term') {
+      const parsed = parsePddlExpression(node.text);
+      return parsed.success ? parsed.content : null;
+    }
+    if (!isLogicNode(id)) {
+      return null;
+    }
+    const nextVisited = new Set(visited).add(id);
+    const collect = (ids: string[]) =>
+      ids
+        .map((operandId) => toLogicExpression(operandId, nextVisited))
+        .filter((expr): expr is PddlExpression => expr !== null);
+    const operands = collect(
+      incoming(id)
+        .filter((edge) => !isWhenEffectEdge(edge))
+        .map((edge) => edge.sourceId)
+    );
+    const keyword = node.text.trim().toLowerCase();
+    if (node.role === 'quantifier') {
+      const variables = (node.element as PddlGraphElement).pddl?.arguments ?? [];
+      return { type: keyword, arguments: parseTypedTokens(variables.join(' ')), argument: conjoin(operands) };
+    }
+    if (keyword === 'when') {
+      return {
+        type: 'when',
+        children: [
+          conjoin(operands),
+          conjoin(collect(outgoing(id).filter(isWhenEffectEdge).map((edge) => edge.targetId))),
+        ],
+      };
+    }
+    if (keyword === 'not') {
+      return { type: 'not', argument: conjoin(operands) };
+    }
+    return { type: keyword, children: operands };
+  };
+
+  const getSection = (node: ActionNode) =>
+    (node.element as PddlGraphElement).pddl?.section ?? (isWhenNode(node.element.id) ? 'effect' : 'precondition');
+  // 持续动作泳道中的节点带有时间点，还原时重新包上 (at start ...) 等限定词
+  const withTime = (node: ActionNode, expr: PddlExpression): PddlExpression => {
+    const time = (node.element as PddlGraphElement).pddl?.time;
+    return time ? { type: time, argument: expr } : expr;
+  };
+  const structured = orderedNodes
+    .filter((node) => (isLogicNode(node.element.id) || node.role === 'logic-term') && !nestedIds.has(node.element.id))
+    .map((node) => {
+      const expr = toLogicExpression(node.element.id, new Set());
+      return { section: getSection(node), expr: expr && withTime(node, expr) };
+    })
+    .filter((entry): entry is { section: 'precondition' | 'effect'; expr: PddlExpression } => entry.expr !== null);
+  const isFlat = (node: ActionNode) => !nestedIds.has(node.element.id);
+
+  const action: PddlAction = {
+    name,
+    description: description && description !== DEFAULT_ACTION_DESCRIPTION ? description : null,
+    parameters: Array.from(parameterById.values()),
+    preconditions: [
+      ...orderedNodes
+        .filter((node) => node.role === 'precondition' && isFlat(node))
+        .map((node) => withTime(node, toPredicate(node))),
+      ...structured.filter((entry) => entry.section === 'precondition').map((entry) => entry.expr),
+    ],
+    effects: [
+      ...orderedNodes
+        .filter((node) => node.role === 'effect' && isFlat(node))
+        .map((node) => withTime(node, toPredicate(node))),
+      ...structured.filter((entry) => entry.section === 'effect').map((entry) => entry.expr),
+      ...numericEffects,
+    ],
+  };
+
+  const durationNode = orderedNodes.find((node) => node.role === 'duration');
+  if (!durationNode) {
+    return action;
+  }
+  const parsedDuration = parsePddlExpression(durationNode.text.replace(/^:duration\s*/i, ''));
+  const duration = parsedDuration.success ? [parsedDuration.content] : [];
+  const durativeAction: PddlDurativeAction = {
+    ...action,
+    durative: true,
+    duration:
+      duration[0]?.type === 'and' && 'children' in duration[0] && Array.isArray(duration[0].children)
+        ? duration[0].children
+        : duration,
+  };
+  return durativeAction;
+}
+
+// "(either a b)" 形式的类型只是已有类型的并集，声明时展开成各个成员
+function splitEitherType(type: string): string[] {
+  const match = type.match(/^\(\s*either\s+([^()]*)\)$/i);
+  return match ? match[1].split(/\s+/).filter(Boolean) : [type];
+}
+
+function isTermArgument(argument: PddlExpressionArgument): boolean {
+  return 'name' in argument && !('arguments' in argument);
+}
+
+// 画布上没有 :types/:predicates/:functions，按各 action 中的用法推断声明
+function inferDeclarations(actions: PddlAction[]) {
+  const types = new Map<string, PddlTypeDeclaration>();
+  const predicates = new Map<string, PddlPredicate>();
+  const functions = new Map<string, PddlFunction>();
+  let hasNegativeConditions = false;
+  let hasEquality = false;
+  const usedKeywords = new Set<string>();
+  const declareType = (type: string | null) =>
+    splitEitherType(type ?? '').forEach((typeName) => {
+      if (typeName && typeName !== 'object' && !types.has(typeName)) {
+        types.set(typeName, { name: typeName, parent: null });
+      }
+    });
+
+  // condition 表示当前位于前提或条件效果的条件中，只有这里的否定需要 :negative-preconditions
+  const visit = (expression: PddlExpressionArgument, outerScope: Map<string, string | null>, condition: boolean) => {
+    const expr = expression as PddlCompositeExpression;
+    usedKeywords.add(expr.type);
+    // 量词约束的变量只在其作用域内可见
+    const scope = new Map(outerScope);
+    if (expr.type === 'forall' || expr.type === 'exists') {
+      ((expr.arguments ?? []) as PddlTypedParameter[]).forEach((variable) => {
+        scope.set(variable.name, variable.type);
+        declareType(variable.type);
+      });
+    }
+    const args: PddlExpressionArgument[] = Array.isArray(expr.arguments) ? expr.arguments : [];
+    const signature = () =>
+      args.map((arg, index) => {
+        const argName = (arg as PddlTypedParameter).name;
+        return {
+          name: typeof argName === 'string' && argName.startsWith('?') ? argName : `?arg${index}`,
+          type: typeof argName === 'string' ? scope.get(argName) ?? null : null,
+        };
+      });
+    const name = expr.name;
+    if (expr.type === 'predicate' && name !== undefined && !predicates.has(name)) {
+      predicates.set(name, { name, arguments: signature() });
+    }
+    if (expr.type === 'function' && name !== undefined && !functions.has(name)) {
+      functions.set(name, { type: 'function', name, arguments: signature(), return_type: null });
+    }
+    // (= ?a ?b) 比较的是对象；两边有函数或数字时是数值比较
+    if (expr.type === '=' && args.length && args.every((arg) => isTermArgument(arg))) {
+      hasEquality = true;
+    }
+    if (expr.type === 'not' && condition && expr.argument?.type !== '=') {
+      hasNegativeConditions = true;
+    }
+    if (expr.argument) {
+      visit(expr.argument, scope, condition);
+    }
+    if (Array.isArray(expr.children)) {
+      expr.children.forEach((child, index) => visit(child, scope, expr.type === 'when' ? index === 0 : condition));
+    }
+    if (expr.type !== 'predicate' && expr.type !== 'function' && expr.type !== 'forall' && expr.type !== 'exists') {
+      args.forEach((arg) => visit(arg, scope, condition));
+    }
+  };
+
+  actions.forEach((action) => {
+    const scope = new Map(action.parameters.map((param) => [param.name, param.type]));
+    action.parameters.forEach((param) => declareType(param.type));
+    action.preconditions.forEach((expr) => visit(expr, scope, true));
+    action.effects.forEach((expr) => visit(expr, scope, false));
+  });
+
+  return {
+    types: Array.from(types.values()),
+    predicates: Array.from(predicates.values()),
+    functions: Array.from(functions.values()),
+    usage: { hasNegativeConditions, hasEquality, usedKeywords },
+  };
+}
+
+type DeclarationUsage = ReturnType<typeof inferDeclarations>['usage'];
+
+// 只计 total-cost 的 domain 用 :action-costs 即可，其余函数需要 :numeric-fluents
+function inferRequirements(
+  usage: DeclarationUsage,
+  actions: PddlAction[],
+  types: PddlTypeDeclaration[],
+  functions: PddlFunction[]
+): string[] {
+  const { usedKeywords } = usage;
+  const requirements = [':strips'];
+  if (types.length) {
+    requirements.push(':typing');
+  }
+  if (usage.hasNegativeConditions) {
+    requirements.push(':negative-preconditions');
+  }
+  if (usage.hasEquality) {
+    requirements.push(':equality');
+  }
+  if (functions.some((func) => func.name !== 'total-cost')) {
+    requirements.push(':numeric-fluents');
+  } else if (functions.length) {
+    requirements.push(':action-costs');
+  }
+  if (usedKeywords.has('or') || usedKeywords.has('imply')) {
+    requirements.push(':disjunctive-preconditions');
+  }
+  if (usedKeywords.has('exists')) {
+    requirements.push(':existential-preconditions');
+  }
+  if (usedKeywords.has('forall')) {
+    requirements.push(':universal-preconditions');
+  }
+  if (usedKeywords.has('when')) {
+    requirements.push(':conditional-effects');
+  }
+  if (actions.some((action) => isDurativeAction(action))) {
+    requirements.push(':durative-actions');
+  }
+  return requirements;
+}
+
+// 组合型 requirement 已经包含的子项，合并推断结果时不再重复添加
+const REQUIREMENTS_IMPLIED_BY: Record<string, string[]> = {
+  ':adl': [
+    ':strips',
+    ':typing',
+    ':negative-preconditions',
+    ':disjunctive-preconditions',
+    ':equality',
+    ':existential-preconditions',
+    ':universal-preconditions',
+    ':quantified-preconditions',
+    ':conditional-effects',
+  ],
+  ':quantified-preconditions': [':existential-preconditions', ':universal-preconditions'],
+  ':fluents': [':numeric-fluents', ':object-fluents', ':action-costs'],
+  ':numeric-fluents': [':action-costs'],
+};
+
+// 源文件里的 requirements 原样保留，只补上画布编辑后新用到、且未被已有项覆盖的部分
+function mergeRequirements(declared: string[], inferred: string[]): string[] {
+  const covered = new Set(
+    declared.flatMap((requirement) => [requirement, ...(REQUIREMENTS_IMPLIED_BY[requirement] ?? [])])
+  );
+  return [...declared, ...inferred.filter((requirement) => requirement !== ':strips' && !covered.has(requirement))];
+}
+
+// 类型层次树中箭头由子类型指向父类型，根节点 object 不输出，直接挂在它下面的类型也不写父类型
+function readTypeHierarchy(elements: PlaitElement[]): PddlTypeDeclaration[] {
+  const group = elements.find((element) => isGroupOfType(element, 'type-hierarchy'));
+  if (!group) {
+    return [];
+  }
+  const names = new Map<string, string>();
+  const parents = new Map<string, string>();
+  const members = getGroupMembers(elements, group);
+  members.forEach((element) => {
+    if (element.type === 'geometry') {
+      names.set(element.id, getElementText(element));
+    }
+  });
+  members.forEach((element) => {
+    const edge = getEdge(element);
+    const parent = edge && names.has(edge.sourceId) ? names.get(edge.targetId) : undefined;
+    if (edge && parent !== undefined && parent !== 'object') {
+      parents.set(edge.sourceId, parent);
+    }
+  });
+  return Array.from(names.entries())
+    .filter(([, typeName]) => typeName && typeName !== 'object')
+    .map(([id, typeName]) => ({ name: typeName, parent: parents.get(id) ?? null }));
+}
+
+// "?a ?b - t ?c - (either u v)" 形式的参数列表
+function parseTypedTokens(text: string): PddlTypedParameter[] {
+  const tokens = text.match(/\([^()]*\)|[^\s()]+/g) ?? [];
+  const items: PddlTypedParameter[] = [];
+  let pending: string[] = [];
+  for (let index = 0; index < tokens.length; index += 1) {
+    if (tokens[index] === '-' && index + 1 < tokens.length) {
+      const type = tokens[index + 1];
+      pending.forEach((paramName) => items.push({ name: paramName, type }));
+      pending = [];
+      index += 1;
+    } else {
+      pending.push(tokens[index]);
+    }
+  }
+  pending.forEach((paramName) => items.push({ name: paramName, type: null }));
+  return items;
+}
+
+// 签名目录每行首行形如 "(at ?v - vehicle ?l - location)" 或 "(fuel ?v - vehicle) - number"
+function readSignatureCatalog(elements: PlaitElement[]): { predicates: PddlPredicate[]; functions: PddlFunction[] } {
+  const predicates: PddlPredicate[] = [];
+  const functions: PddlFunction[] = [];
+  const group = elements.find((element) => isGroupOfType(element, 'signature-catalog'));
+  if (!group) {
+    return { predicates, functions };
+  }
+  getGroupMembers(elements, group).forEach((element) => {
+    const role = getMetadataRole(element);
+    if (role !== 'predicate-signature' && role !== 'function-signature') {
+      return;
+    }
+    const match = getElementText(element)
+      .split('\n')[0]
+      .match(/^\(\s*([^\s()]+)((?:[^()]|\([^()]*\))*)\)\s*(?:-\s*(\S+))?/);
+    if (!match) {
+      return;
+    }
+    const args = parseTypedTokens(match[2]);
+    if (role === 'predicate-signature') {
+      predicates.push({ name: match[1], arguments: args });
+    } else {
+      functions.push({ type: 'function', name: match[1], arguments: args, return_type: match[3] ?? null });
+    }
+  });
+  return { predicates, functions };
+}
+
+// 目录中声明的签名优先，其余沿用从 action 推断出的签名
+function mergeDeclarations<T extends { name: string }>(declared: T[], inferred: T[]): T[] {
+  const names = new Set(declared.map((item) => item.name));
+  return [...declared, ...inferred.filter((item) => !names.has(item.name))];
+}
+
+/** createDomainGraph 保存在各分组上、画布中不展示的信息 */
+interface DomainGroupData {
+  domain?: string;
+  requirements?: string[];
+  constants?: PddlObject[];
+}
+
+function readDomainGroupData(elements: PlaitElement[]): DomainGroupData {
+  const group = elements.find((element) => element.type === 'group' && typeof element.data?.domain === 'string');
+  return group?.data ?? {};
+}
+
+// 由 createActionGraph 生成（及之后在画布上编辑）的 action 分组还原出 domain；
+// 画布上无法还原的内容记入 issues，调用方应据此拒绝导出。
+// domain 名、requirements 与常量取自分组数据，早先生成、没有这些数据的画布退回到文件名与推断结果
+export function convertGraphToPddlDomain(elements: PlaitElement[], name: string, issues: string[] = []): PddlDomain {
+  const actions = elements
+    .filter((element) => isGroupOfType(element, 'action'))
+    .map((group) => convertActionGroup(getGroupMembers(elements, group), issues))
+    .filter((action): action is PddlAction => action !== null);
+  const groupData = readDomainGroupData(elements);
+  const constants = Array.isArray(groupData.constants) ? groupData.constants : [];
+  const declarations = inferDeclarations(actions);
+  const types = readTypeHierarchy(elements);
+  const declaredTypes = new Set(['object', ...types.map((type) => type.name)]);
+  const constantTypes = constants.flatMap((constant) => splitEitherType(constant.type ?? ''));
+  [...declarations.types.map((type) => type.name), ...constantTypes]
+    .filter((typeName) => typeName && !declaredTypes.has(typeName))
+    .forEach((typeName) => {
+      declaredTypes.add(typeName);
+      types.push({ name: typeName, parent: null });
+    });
+  const catalog = readSignatureCatalog(elements);
+  const functions = mergeDeclarations(catalog.functions, declarations.functions);
+  const inferredRequirements = inferRequirements(declarations.usage, actions, types, functions);
+
+  return {
+    name: groupData.domain ? toPddlName(groupData.domain, 'domain') : toPddlName(name, 'domain'),
+    requirements: Array.isArray(groupData.requirements)
+      ? mergeRequirements(groupData.requirements, inferredRequirements)
+      : inferredRequirements,
+    types,
+    constants,
+    predicates: mergeDeclarations(catalog.predicates, declarations.predicates),
+    functions,
+    actions,
+  };
+}
+
+type ProblemNodeRole = 'object' | 'init' | 'goal' | 'function' | 'comparator';
+
+/** createProblemGraph 保存在 problem 分组上、画布中不展示的信息 */
+interface ProblemGroupData {
+  name?: string;
+  domain?: string | null;
+  requirements?: string[];
+  metric?: PddlMetric | null;
+  /** 目标不是文字的合取时保存的整棵目标树 */
+  goal?: PddlExpression | null;
+}
+
+interface ProblemNode {
+  element: PlaitElement;
+  role: ProblemNodeRole;
+  text: string;
+}
+
+function classifyProblemNode(element: PlaitElement): ProblemNodeRole | null {
+  if (element.type !== 'geometry' || String(element.data?.role ?? '').endsWith('-description')) {
+    return null;
+  }
+  const metadataRole = getMetadataRole(element);
+  if (metadataRole) {
+    return PROBLEM_ROLE_BY_METADATA[metadataRole] ?? null;
+  }
+  if (element.shape === 'rectangle') {
+    return 'object';
+  }
+  switch (element.fill) {
+    case PRECONDITION_COLOR:
+      return 'init';
+    case EFFECT_COLOR:
+      return 'goal';
+    case FUNCTION_NODE_COLOR:
+      return 'function';
+    case OPERATOR_NODE_COLOR:
+      return 'comparator';
+    default:
+      return null;
+  }
+}
+
+// "= 10"、"<= 3"、"=" 形式的比较节点标签
+function parseComparatorLabel(text: string): { type: string; left: string | null; right: string | null } {
+  const tokens = text.trim().split(/\s+/);
+  const index = tokens.findIndex((token) => COMPARATOR_SYMBOLS.has(token));
+  if (index < 0) {
+    return { type: '=', left: null, right: null };
+  }
+  return {
+    type: tokens[index],
+    left: tokens.slice(0, index).join(' ') || null,
+    right: tokens.slice(index + 1).join(' ') || null,
+  };
+}
+
+// createProblemGraph 会合并同名的谓词/函数节点，每个事实的连线按"指入（第一个对象）+ 指出（其余对象）"依次排列，
+// 因此顺序扫描连线即可把共享节点拆回各个事实。
+// domain 中的常量不是对象节点、没有连线；连线与生成时记录的各组实参（instances）吻合时直接使用记录，常量因此留在原位
+function collectFactArguments(
+  nodeId: string,
+  edges: ActionEdge[],
+  objectById: Map<string, PddlObject>,
+  instances: string[][] = []
+): PddlExpressionArgument[][] {
+  const facts: PddlExpressionArgument[][] = [];
+  edges.forEach((edge) => {
+    const source = edge.targetId === nodeId ? objectById.get(edge.sourceId) : undefined;
+    const target = edge.sourceId === nodeId ? objectById.get(edge.targetId) : undefined;
+    if (source) {
+      facts.push([{ name: source.name, type: null }]);
+    } else if (target) {
+      if (!facts.length) {
+        facts.push([]);
+      }
+      facts[facts.length - 1].push({ name: target.name, type: null });
+    }
+  });
+  const objectNames = new Set(Array.from(objectById.values()).map((object) => object.name));
+  const recorded = instances.flat().filter((arg) => objectNames.has(arg));
+  const linked = facts.flat().map((arg) => (arg as PddlTypedParameter).name);
+  if (instances.length && recorded.join(' ') === linked.join(' ')) {
+    return instances.map((args) => args.map((arg) => toTerm(arg)));
+  }
+  return facts.length ? facts : [[]];
+}
+
+function toPredicateFacts(
+  id: string,
+  node: ProblemNode,
+  edges: ActionEdge[],
+  objectById: Map<string, PddlObject>
+): PddlExpression[] {
+  const negated = /^not\s+/i.test(node.text);
+  const name = node.text.replace(/^not\s+/i, '').trim();
+  const instances = (node.element as PddlGraphElement).pddl?.instances;
+  return collectFactArguments(id, edges, objectById, instances).map((args) => {
+    const predicate: PddlExpression = { type: 'predicate', name, arguments: args };
+    return negated ? { type: 'not', argument: predicate } : predicate;
+  });
+}
+
+function readProblemGroup(
+  elements: PlaitElement[],
+  group: PlaitElement
+): { objects: PddlObject[]; init: PddlExpression[]; goal: PddlExpression[] } {
+  const members = getGroupMembers(elements, group);
+
+  const nodes = new Map<string, ProblemNode>();
+  const edges: ActionEdge[] = [];
+  members.forEach((element) => {
+    const role = classifyProblemNode(element);
+    if (role) {
+      nodes.set(element.id, { element, role, text: getElementText(element) });
+      return;
+    }
+    const edge = getEdge(element);
+    if (edge) {
+      edges.push(edge);
+    }
+  });
+
+  const objectById = new Map<string, PddlObject>();
+  nodes.forEach((node, id) => {
+    if (node.role === 'object') {
+      const separator = node.text.indexOf(':');
+      objectById.set(id, {
+        name: (separator < 0 ? node.text : node.text.slice(0, separator)).trim(),
+        type: separator < 0 ? null : node.text.slice(separator + 1).trim() || null,
+      });
+    }
+  });
+  const objectNames = new Set(Array.from(objectById.values()).map((object) => object.name));
+
+  // 同名函数节点被多个比较式共享，按出现次序依次取用各自的对象参数
+  const pendingFunctionArguments = new Map<string, PddlExpressionArgument[][]>();
+  const resolveTerm = (id: string): PddlExpressionArgument | null => {
+    const object = objectById.get(id);
+    if (object) {
+      return { name: object.name, type: null };
+    }
+    const node = nodes.get(id);
+    if (!node || node.role !== 'function') {
+      return null;
+    }
+    const label = parseFunctionLabel(node.text);
+    if (!label.arguments.length && (objectNames.has(label.name) || !Number.isNaN(Number(label.name)))) {
+      return toTerm(label.name);
+    }
+    const queue =
+      pendingFunctionArguments.get(id) ??
+      collectFactArguments(id, edges, objectById, (node.element as PddlGraphElement).pddl?.instances);
+    pendingFunctionArguments.set(id, queue);
+    const args = label.arguments.length ? label.arguments.map((arg) => toTerm(arg)) : queue.shift() ?? [];
+    return { type: 'function', name: label.name, arguments: args };
+  };
+
+  const init: PddlExpression[] = [];
+  const goal: PddlExpression[] = [];
+  nodes.forEach((node, id) => {
+    if (node.role === 'init') {
+      init.push(...toPredicateFacts(id, node, edges, objectById));
+    } else if (node.role === 'goal') {
+      goal.push(...toPredicateFacts(id, node, edges, objectById));
+    }
+  });
+
+  // init 的比较式排在 init 谓词与对象区上方，goal 的排在下方
+  const initBottoms = Array.from(nodes.values())
+    .filter((node) => node.role === 'object' || node.role === 'init')
+    .map((node) => getElementBottom(node.element));
+  const objectsBottom = initBottoms.length ? Math.max(...initBottoms) : Number.POSITIVE_INFINITY;
+  const addComparison = (comparatorId: string, left: PddlExpressionArgument | null, right: PddlExpressionArgument | null) => {
+    const comparator = nodes.get(comparatorId);
+    if (!left || !right || !comparator) {
+      return;
+    }
+    const fact: PddlExpression = { type: parseComparatorLabel(comparator.text).type, arguments: [left, right] };
+    (getElementTop(comparator.element) > objectsBottom ? goal : init).push(fact);
+  };
+  // 带字面量的比较节点可能被多个比较式共享，每条连线对应一个比较式；
+  // 按连线的先后处理，才能与共享函数节点上参数的出现次序对齐
+  const pendingLeft = new Map<string, Array<PddlExpressionArgument | null>>();
+  edges.forEach((edge) => {
+    const target = nodes.get(edge.targetId);
+    const source = nodes.get(edge.sourceId);
+    if (target?.role === 'comparator' && source?.role !== 'comparator') {
+      const label = parseComparatorLabel(target.text);
+      if (label.right !== null) {
+        addComparison(edge.targetId, resolveTerm(edge.sourceId), toTerm(label.right));
+      } else {
+        pendingLeft.set(edge.targetId, [...(pendingLeft.get(edge.targetId) ?? []), resolveTerm(edge.sourceId)]);
+      }
+    } else if (source?.role === 'comparator' && target?.role !== 'comparator') {
+      const label = parseComparatorLabel(source.text);
+      const left = label.left !== null ? toTerm(label.left) : pendingLeft.get(edge.sourceId)?.shift() ?? null;
+      addComparison(edge.sourceId, left, resolveTerm(edge.targetId));
+    }
+  });
+  nodes.forEach((node, id) => {
+    const label = parseComparatorLabel(node.text);
+    if (node.role === 'comparator' && label.left !== null && label.right !== null) {
+      addComparison(id, toTerm(label.left), toTerm(label.right));
+    }
+  });
+
+  return { objects: Array.from(objectById.values()), init, goal };
+}
+
+// 目标不是文字的合取时，分组上保存着整棵目标树，画布只展示其中的文字。
+// 画布上的目标文字与由目标树生成的画布一致时原样输出目标树；文字被改过时无法判断改动应落在树的哪一处，记入 issues
+function restoreGoalTree(
+  tree: PddlExpression,
+  board: { objects: PddlObject[]; init: PddlExpression[]; goal: PddlExpression[] },
+  issues: string[]
+): PddlExpression | null {
+  const reference = createProblemGraph({ name: 'goal', objects: board.objects, init: board.init, goal: tree }, 0, 0);
+  const referenceGroup = reference.elements.find((element) => isGroupOfType(element, 'problem'));
+  const expected = referenceGroup ? readProblemGroup(reference.elements, referenceGroup).goal : [];
+  const toKeys = (literals: PddlExpression[]) => literals.map((literal) => formatPddlExpression(literal)).sort();
+  if (toKeys(expected).join('\n') === toKeys(board.goal).join('\n')) {
+    return tree;
+  }
+  issues.push(
+    `problem 的目标 ${formatPddlExpression(tree)} 不是简单的合取，画布上的目标文字被修改后无法还原其结构，请直接编辑 PDDL 文本。`
+  );
+  return conjoinGoal(board.goal);
+}
+
+function conjoinGoal(goal: PddlExpression[]): PddlExpression | null {
+  return goal.length === 1 ? goal[0] : goal.length ? { type: 'and', children: goal } : null;
+}
+
+// 由 createProblemGraph 生成的 problem 分组还原出 problem；domain 名、metric 与非合取的目标树取自分组数据，
+// 无法还原的内容记入 issues，调用方应据此拒绝导出
+export function convertGraphToPddlProblem(
+  elements: PlaitElement[],
+  name: string,
+  issues: string[] = []
+): PddlProblem | null {
+  const group = elements.find((element) => isGroupOfType(element, 'problem'));
+  if (!group) {
+    return null;
+  }
+  const groupData: ProblemGroupData = group.data ?? {};
+  const board = readProblemGroup(elements, group);
+
+  return {
+    name: toPddlName(groupData.name ?? name, 'problem'),
+    domain: groupData.domain ? toPddlName(groupData.domain) : undefined,
+    requirements: Array.isArray(groupData.requirements) ? groupData.requirements : [],
+    objects: board.objects,
+    init: board.init,
+    goal: groupData.goal ? restoreGoalTree(groupData.goal, board, issues) : conjoinGoal(board.goal),
+    metrics: (groupData.metric as PddlMetric | null) ?? null,
+  };
+}
@@ -0,0 +1,127 @@
+/**
+ * @jest-environment node
+ */
+import type { ChatGenerateRequest } from './chat-client';
+import {
+  buildSystemPrompt,
+  createLlmProvider,
+  createMockProvider,
+  DEFAULT_LLM_SETTINGS,
+  normalizeLlmSettings,
+} from './llm-providers';
+
+const REQUEST: ChatGenerateRequest = {
+  pddl_type: 'problem',
+  messages: [
+    { role: 'user', content: '为什么无解？' },
+    { role: 'assistant', content: '请提供文件。' },
+    { role: 'user', content: '看当前文件' },
+  ],
+  context: {
+    file: { name: 'rescue.pddl', type: 'problem', content: '(define (problem rescue))\n' },
+    selection: [{ id: 'n1', type: 'geometry', text: 'at' }],
+  },
+};
+
+describe('normalizeLlmSettings', () => {
+  it('falls back to the defaults for missing or malformed values', () => {
+    expect(normalizeLlmSettings(null)).toEqual(DEFAULT_LLM_SETTINGS);
+    expect(normalizeLlmSettings({ provider: 'claude', model: 42, apiKey: 'sk-test' })).toEqual({
+      ...DEFAULT_LLM_SETTINGS,
+      apiKey: 'sk-test',
+    });
+  });
+
+  it('keeps stored settings that are valid', () => {
+    const stored = { provider: 'openai', baseUrl: 'http://localhost:11434/v1', model: 'llama3', apiKey: '' };
+    expect(normalizeLlmSettings({ ...stored, extra: true })).toEqual(stored);
+  });
+});
+
+describe('buildSystemPrompt', () => {
+  it('includes the open file and the selection', () => {
+    const prompt = buildSystemPrompt(REQUEST.context);
+    expect(prompt).toContain('当前打开的文件：rescue.pddl（类型：problem）');
+    expect(prompt).toContain('```pddl\n(define (problem rescue))\n```');
+    expect(prompt).toContain('"id":"n1"');
+  });
+
+  it('explains why the file content is missing', () => {
+    const prompt = buildSystemPrompt({
+      file: { name: 'd.pddl', type: 'domain', content: null, error: '缺少动作' },
+      selection: [],
+    });
+    expect(prompt).toContain('无法从画布还原文件内容：缺少动作');
+    expect(prompt).not.toContain('选中的元素');
+  });
+});
+
+describe('createMockProvider', () => {
+  beforeEach(() => jest.useFakeTimers());
+  afterEach(() => jest.useRealTimers());
+
+  it('streams a canned reply to the latest question', async () => {
+    const onText = jest.fn();
+    const reply = createMockProvider().generate(REQUEST, { onText });
+    await jest.runAllTimersAsync();
+    const { content } = await reply;
+    expect(content).toBe('（模拟回复）收到：看当前文件\n当前文件：rescue.pddl（problem）\n选中元素：1 个');
+    expect(onText).toHaveBeenCalledTimes(Array.from(String(content)).length);
+    expect(onText).toHaveBeenLastCalledWith(content);
+  });
+
+  it('stops when the request is aborted', async () => {
+    const controller = new AbortController();
+    const onText = jest.fn();
+    const reply = createMockProvider().generate(REQUEST, { signal: controller.signal, onText });
+    const settled = expect(reply).rejects.toMatchObject({ name: 'AbortError' });
+    await jest.advanceTimersByTimeAsync(100);
+    controller.abort();
+    await jest.runAllTimersAsync();
+    await settled;
+    expect(onText.mock.calls.length).toBeLessThan(5);
+  });
+});
+
+describe('createLlmProvider', () => {
+  afterEach(() => jest.restoreAllMocks());
+
+  it('sends the system prompt and key to an OpenAI compatible endpoint', async () => {
+    const body = [
+      '{"choices":[{"delta":{"content":"先"}}]}',
+      '{"choices":[{"delta":{"content":"检查目标"}}]}',
+      '[DONE]',
+    ]
+      .map((data) => `data: ${data}\n\n`)
+      .join('');
+    const fetchMock = jest
+      .spyOn(global, 'fetch')
+      .mockResolvedValue(new Response(body, { headers: { 'content-type': 'text/event-stream' } }));
+    const provider = createLlmProvider(
+      { provider: 'openai', baseUrl: 'https://llm.example.com/v1/', model: 'm', apiKey: ' sk-1 ' },
+      '/chat/generate'
+    );
+    const onText = jest.fn();
+    await expect(provider.generate(REQUEST, { onText })).resolves.toEqual({ content: '先检查目标' });
+    expect(onText.mock.calls.map(([text]) => text)).toEqual(['先', '先检查目标']);
+
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://llm.example.com/v1/chat/completions');
+    expect(init?.headers).toMatchObject({ Authorization: 'Bearer sk-1' });
+    const sent = JSON.parse(String(init?.body));
+    expect(sent).toMatchObject({ model: 'm', stream: true });
+    expect(sent.messages[0]).toEqual({ role: 'system', content: buildSystemPrompt(REQUEST.context) });
+    expect(sent.messages.slice(1)).toEqual(REQUEST.messages);
+  });
+
+  it('reports the error message of a failed completion request', async () => {
+    jest.spyOn(global, 'fetch').mockResolvedValue(
+      new Response(JSON.stringify({ error: { message: 'Invalid API key' } }), {
+        status: 401,
+        headers: { 'content-type': 'application/json' },
+      })
+    );
+    const provider = createLlmProvider({ ...DEFAULT_LLM_SETTINGS, provider: 'openai' }, '/chat/generate');
+    await expect(provider.generate(REQUEST, { onText: jest.fn() })).rejects.toThrow('Invalid API key');
+  });
+});
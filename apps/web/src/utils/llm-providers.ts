@@ -0,0 +1,183 @@
+import { QWEN_API_BASE_URL, QWEN_DEFAULT_MODEL } from '../app/qwen-config';
+import {
+  ChatContext,
+  ChatGenerateRequest,
+  ChatGenerateResponse,
+  ChatStreamOptions,
+  readEventStream,
+  SseEvent,
+  streamChatReply,
+} from './chat-client';
+
+export type LlmProviderKind = 'backend' | 'openai' | 'mock';
+
+export interface LlmSettings {
+  provider: LlmProviderKind;
+  /** OpenAI 兼容接口的地址，不含 /chat/completions */
+  baseUrl: string;
+  model: string;
+  /** 只保存在浏览器本地，不会发给后端 */
+  apiKey: string;
+}
+
+export const LLM_PROVIDER_KINDS: LlmProviderKind[] = ['backend', 'openai', 'mock'];
+
+export const DEFAULT_LLM_SETTINGS: LlmSettings = {
+  provider: 'backend',
+  baseUrl: QWEN_API_BASE_URL,
+  model: QWEN_DEFAULT_MODEL,
+  apiKey: '',
+};
+
+export interface LlmProvider {
+  /** 生成一轮回复，文本通过 options.onText 逐段交出 */
+  generate(request: ChatGenerateRequest, options: ChatStreamOptions): Promise<ChatGenerateResponse>;
+}
+
+// 从存储中读出的设置可能缺字段或来自旧版本，逐项回落到默认值
+export const normalizeLlmSettings = (value: unknown): LlmSettings => {
+  const record =
+    typeof value === 'object' && value !== null ? (value as Partial<Record<keyof LlmSettings, unknown>>) : {};
+  const pick = (key: 'baseUrl' | 'model' | 'apiKey') =>
+    typeof record[key] === 'string' ? (record[key] as string) : DEFAULT_LLM_SETTINGS[key];
+  return {
+    provider: LLM_PROVIDER_KINDS.includes(record.provider as LlmProviderKind)
+      ? (record.provider as LlmProviderKind)
+      : DEFAULT_LLM_SETTINGS.provider,
+    baseUrl: pick('baseUrl'),
+    model: pick('model'),
+    apiKey: pick('apiKey'),
+  };
+};
+
+const abortError = () => new DOMException('The chat request was cancelled.', 'AbortError');
+
+// 直连模型时由前端拼出系统提示，把当前文件和选中元素交给模型；走后端时由后端负责
+export const buildSystemPrompt = (context: ChatContext): string => {
+  const lines = [
+    '你是 PDDL 规划助手，帮助用户理解、编写和调试 PDDL 领域与问题文件以及求解得到的计划。回答使用用户的语言。',
+  ];
+  if (context.file) {
+    lines.push('', `当前打开的文件：${context.file.name}（类型：${context.file.type}）`);
+    if (context.file.content) {
+      lines.push('文件内容：', '```pddl', context.file.content.trimEnd(), '```');
+    } else if (context.file.error) {
+      lines.push(`无法从画布还原文件内容：${context.file.error}`);
+    }
+  }
+  if (context.selection.length) {
+    lines.push('', '用户在画布上选中的元素（JSON）：', JSON.stringify(context.selection));
+  }
+  return lines.join('\n');
+};
+
+type CompletionChunk = {
+  choices?: Array<{ delta?: { content?: unknown }; message?: { content?: unknown } }>;
+  error?: { message?: unknown };
+};
+
+/**
+ * OpenAI 兼容的 /chat/completions 接口，DashScope、vLLM、Ollama 等都可以直接使用。
+ * 以 stream: true 请求并逐个解析 SSE 中的 choices[0].delta.content。
+ */
+const createOpenAiProvider = ({ baseUrl, model, apiKey }: LlmSettings): LlmProvider => ({
+  async generate(request, { signal, onText }) {
+    const url = `${baseUrl.trim().replace(/\/+$/, '')}/chat/completions`;
+    const response = await fetch(url, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey.trim() ? { Authorization: `Bearer ${apiKey.trim()}` } : {}),
+      },
+      body: JSON.stringify({
+        model,
+        stream: true,
+        messages: [{ role: 'system', content: buildSystemPrompt(request.context) }, ...request.messages],
+      }),
+      signal,
+    });
+    if (!response.ok) {
+      let reason = `${response.status} ${response.statusText}`;
+      try {
+        const payload = (await response.json()) as CompletionChunk;
+        if (typeof payload.error?.message === 'string' && payload.error.message) {
+          reason = payload.error.message;
+        }
+      } catch {
+        // 保留状态码作为错误信息
+      }
+      throw new Error(reason);
+    }
+    // 少数服务忽略 stream 参数，直接返回完整结果
+    if (!response.body || (response.headers.get('content-type') ?? '').includes('application/json')) {
+      const payload = (await response.json()) as CompletionChunk;
+      const content = payload.choices?.[0]?.message?.content;
+      const text = typeof content === 'string' ? content : '';
+      onText(text);
+      return { content: text };
+    }
+    let text = '';
+    await readEventStream(response.body, ({ data }: SseEvent) => {
+      if (data === '[DONE]') {
+        return true;
+      }
+      let chunk: CompletionChunk;
+      try {
+        chunk = JSON.parse(data) as CompletionChunk;
+      } catch {
+        return false;
+      }
+      if (typeof chunk.error?.message === 'string') {
+        throw new Error(chunk.error.message);
+      }
+      const delta = chunk.choices?.[0]?.delta?.content;
+      if (typeof delta === 'string' && delta) {
+        text += delta;
+        onText(text);
+      }
+      return false;
+    });
+    return { content: text };
+  },
+});
+
+const createBackendProvider = (backendUrl: string): LlmProvider => ({
+  generate: (request, options) => streamChatReply(backendUrl, request, options),
+});
+
+const MOCK_CHUNK_DELAY = 30;
+
+/** 不联网的本地模拟，按固定模板逐字返回，便于离线演示和测试聊天界面 */
+export const createMockProvider = (): LlmProvider => ({
+  async generate(request, { signal, onText }) {
+    const question = [...request.messages].reverse().find((message) => message.role === 'user')?.content ?? '';
+    const file = request.context.file;
+    const reply = [
+      `（模拟回复）收到：${question}`,
+      file ? `当前文件：${file.name}（${file.type}）` : '当前没有打开的文件。',
+      `选中元素：${request.context.selection.length} 个`,
+    ].join('\n');
+    let text = '';
+    for (const char of Array.from(reply)) {
+      await new Promise((resolve) => setTimeout(resolve, MOCK_CHUNK_DELAY));
+      if (signal?.aborted) {
+        throw abortError();
+      }
+      text += char;
+      onText(text);
+    }
+    return { content: text };
+  },
+});
+
+export function createLlmProvider(settings: LlmSettings, backendUrl: string): LlmProvider {
+  switch (settings.provider) {
+    case 'openai':
+      return createOpenAiProvider(settings);
+    case 'mock':
+      return createMockProvider();
+    case 'backend':
+    default:
+      return createBackendProvider(backendUrl);
+  }
+}
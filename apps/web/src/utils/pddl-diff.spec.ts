@@ -0,0 +1,145 @@
+import type { PlaitElement } from '@plait/core';
+import type { PddlDomain, PddlProblem } from '../app/pddl_types';
+import { applyPddlDiff, diffPddl, preserveBoardLayout } from './pddl-diff';
+import { parsePddlDomain, parsePddlProblem } from './pddl-parser';
+import { formatPddlDomain, formatPddlExpression } from './pddl-writer';
+
+const domainOf = (text: string): PddlDomain => {
+  const result = parsePddlDomain(text);
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+  return result.content;
+};
+
+const problemOf = (text: string): PddlProblem => {
+  const result = parsePddlProblem(text);
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+  return result.content;
+};
+
+const CURRENT_DOMAIN = domainOf(`(define (domain lights)
+  (:requirements :strips :negative-preconditions)
+  (:predicates (on ?l) (broken ?l))
+  (:action switch-on
+    :parameters (?l)
+    :precondition (not (on ?l))
+    :effect (on ?l))
+  (:action smash
+    :parameters (?l)
+    :effect (broken ?l)))`);
+
+const PROPOSED_DOMAIN = domainOf(`(define (domain lights)
+  (:requirements :strips :negative-preconditions :typing)
+  (:types lamp)
+  (:predicates (on ?l) (broken ?l) (powered))
+  (:action switch-on
+    :parameters (?l)
+    :precondition (and (not (on ?l)) (powered))
+    :effect (on ?l)))`);
+
+const CURRENT_PROBLEM = problemOf(`(define (problem evening)
+  (:domain lights)
+  (:objects desk porch)
+  (:init (broken porch) (= (energy) 5))
+  (:goal (on desk))
+  (:metric minimize (energy)))`);
+
+const PROPOSED_PROBLEM = problemOf(`(define (problem evening)
+  (:domain lights)
+  (:objects desk porch)
+  (:init (powered) (= (energy) 8))
+  (:goal (and (on desk) (on porch)))
+  (:metric minimize (energy)))`);
+
+describe('diffPddl', () => {
+  it('lists domain changes per section with action details', () => {
+    const hunks = diffPddl({ kind: 'domain', current: CURRENT_DOMAIN, proposed: PROPOSED_DOMAIN });
+    expect(hunks.map(({ id, kind }) => `${kind} ${id}`)).toEqual([
+      'added requirements::typing',
+      'added types:lamp',
+      'added predicates:powered',
+      'changed actions:switch-on',
+      'removed actions:smash',
+    ]);
+    expect(hunks.find(({ id }) => id === 'actions:switch-on')?.details).toEqual(['新增前提 (powered)']);
+  });
+
+  it('treats a new numeric value as a change of the same fact', () => {
+    const hunks = diffPddl({ kind: 'problem', current: CURRENT_PROBLEM, proposed: PROPOSED_PROBLEM });
+    expect(hunks.map(({ id, kind }) => `${kind} ${id}`)).toEqual([
+      'removed init:(broken porch)',
+      'changed init:= (energy)',
+      'added init:(powered)',
+      'added goal:(on porch)',
+    ]);
+    expect(hunks[1]).toMatchObject({ before: '(= (energy) 5)', after: '(= (energy) 8)' });
+  });
+
+  it('reports nothing for identical definitions', () => {
+    expect(diffPddl({ kind: 'problem', current: CURRENT_PROBLEM, proposed: CURRENT_PROBLEM })).toEqual([]);
+  });
+});
+
+describe('applyPddlDiff', () => {
+  it('applies only the accepted domain hunks', () => {
+    const result = applyPddlDiff({ kind: 'domain', current: CURRENT_DOMAIN, proposed: PROPOSED_DOMAIN }, [
+      'predicates:powered',
+      'actions:smash',
+    ]);
+    expect(result.kind).toBe('domain');
+    const domain = result.pddl as PddlDomain;
+    expect(domain.requirements).toEqual([':strips', ':negative-preconditions']);
+    expect(domain.predicates.map(({ name }) => name)).toEqual(['on', 'broken', 'powered']);
+    expect(domain.actions.map(({ name }) => name)).toEqual(['switch-on']);
+    expect(formatPddlDomain(domain)).toContain(':precondition (not (on ?l))');
+  });
+
+  it('rebuilds the goal from the accepted conjuncts', () => {
+    const { pddl } = applyPddlDiff({ kind: 'problem', current: CURRENT_PROBLEM, proposed: PROPOSED_PROBLEM }, [
+      'goal:(on porch)',
+      'init:= (energy)',
+    ]);
+    const problem = pddl as PddlProblem;
+    expect(problem.goal && formatPddlExpression(problem.goal)).toBe('(and (on desk) (on porch))');
+    expect(problem.init.map((fact) => formatPddlExpression(fact))).toEqual(['(broken porch)', '(= (energy) 8)']);
+  });
+});
+
+describe('preserveBoardLayout', () => {
+  const node = (id: string, x: number, y: number, name?: string) =>
+    ({
+      id,
+      type: 'geometry',
+      points: [
+        [x, y],
+        [x + 100, y + 40],
+      ],
+      ...(name ? { pddl: { role: 'literal', action: 'switch-on', name, section: 'precondition' } } : {}),
+    } as PlaitElement);
+  const line = (id: string, from: string, to: string) =>
+    ({ id, type: 'arrow-line', source: { boundId: from }, target: { boundId: to } } as unknown as PlaitElement);
+
+  it('keeps matching nodes in place, moves new ones along and drops arrows to removed nodes', () => {
+    const previous = [
+      node('old-on', 500, 300, 'on'),
+      node('old-broken', 500, 400, 'broken'),
+      node('note', 0, 0),
+      node('label', 0, 60),
+    ];
+    const next = [node('new-on', 0, 0, 'on'), node('new-powered', 0, 100, 'powered')];
+    const result = preserveBoardLayout(
+      [...previous, line('note-arrow', 'note', 'label'), line('stale-arrow', 'note', 'old-broken')],
+      next
+    );
+    expect(result.map(({ id, points }) => [id, points?.[0]])).toEqual([
+      ['new-on', [500, 300]],
+      ['new-powered', [500, 400]],
+      ['note', [0, 0]],
+      ['label', [0, 60]],
+      ['note-arrow', undefined],
+    ]);
+  });
+});
@@ -0,0 +1,431 @@
+import type { PlaitElement, Point } from '@plait/core';
+import type {
+  PddlAction,
+  PddlDomain,
+  PddlElementMetadata,
+  PddlExpression,
+  PddlFunction,
+  PddlObject,
+  PddlPredicate,
+  PddlProblem,
+  PddlTypeDeclaration,
+} from '../app/pddl_types';
+import { isDurativeAction } from '../app/pddl-utils';
+import {
+  formatAction,
+  formatFunction,
+  formatPddlArgument,
+  formatPddlExpression,
+  formatPredicate,
+  formatTypedList,
+} from './pddl-writer';
+
+export type PddlDiffSection =
+  | 'requirements'
+  | 'types'
+  | 'constants'
+  | 'predicates'
+  | 'functions'
+  | 'actions'
+  | 'objects'
+  | 'init'
+  | 'goal'
+  | 'metric';
+
+export interface PddlDiffHunk {
+  /** `${section}:${key}`，在同一次比较中唯一 */
+  id: string;
+  section: PddlDiffSection;
+  kind: 'added' | 'removed' | 'changed';
+  /** 条目名称，例如 action 名、对象名或初始事实 */
+  name: string;
+  before: string | null;
+  after: string | null;
+  /** changed 时列出具体变化，例如 "新增前提 (at ?t ?l)" */
+  details: string[];
+}
+
+/** 比较的双方：当前画布还原出的 PDDL 与助手给出的 PDDL */
+export type PddlDiffTarget =
+  | { kind: 'domain'; current: PddlDomain; proposed: PddlDomain }
+  | { kind: 'problem'; current: PddlProblem; proposed: PddlProblem };
+
+export type PddlDiffResult = { kind: 'domain'; pddl: PddlDomain } | { kind: 'problem'; pddl: PddlProblem };
+
+interface KeyedSection<T, D> {
+  section: PddlDiffSection;
+  read: (pddl: D) => T[];
+  write: (pddl: D, items: T[]) => D;
+  key: (item: T) => string;
+  label: (item: T) => string;
+  format: (item: T) => string;
+  details?: (before: T, after: T) => string[];
+}
+
+// 把条目类型擦掉，便于不同类型的分区放在同一个列表里
+interface SectionDiffer<D> {
+  diff: (current: D, proposed: D) => PddlDiffHunk[];
+  apply: (target: D, current: D, proposed: D, accepted: Set<string>) => D;
+}
+
+const hunkId = (section: PddlDiffSection, key: string) => `${section}:${key}`;
+
+// 同一个键出现多次时只保留第一条
+const indexByKey = <T>(items: T[], key: (item: T) => string) => {
+  const map = new Map<string, T>();
+  items.forEach((item) => {
+    const itemKey = key(item);
+    if (!map.has(itemKey)) {
+      map.set(itemKey, item);
+    }
+  });
+  return map;
+};
+
+const keyed = <T, D>(spec: KeyedSection<T, D>): SectionDiffer<D> => ({
+  diff(current, proposed) {
+    const before = indexByKey(spec.read(current), spec.key);
+    const after = indexByKey(spec.read(proposed), spec.key);
+    const hunks: PddlDiffHunk[] = [];
+    before.forEach((item, key) => {
+      const next = after.get(key);
+      const id = hunkId(spec.section, key);
+      if (!next) {
+        hunks.push({
+          id,
+          section: spec.section,
+          kind: 'removed',
+          name: spec.label(item),
+          before: spec.format(item),
+          after: null,
+          details: [],
+        });
+        return;
+      }
+      const beforeText = spec.format(item);
+      const afterText = spec.format(next);
+      if (beforeText !== afterText) {
+        hunks.push({
+          id,
+          section: spec.section,
+          kind: 'changed',
+          name: spec.label(next),
+          before: beforeText,
+          after: afterText,
+          details: spec.details?.(item, next) ?? [],
+        });
+      }
+    });
+    after.forEach((item, key) => {
+      if (!before.has(key)) {
+        hunks.push({
+          id: hunkId(spec.section, key),
+          section: spec.section,
+          kind: 'added',
+          name: spec.label(item),
+          before: null,
+          after: spec.format(item),
+          details: [],
+        });
+      }
+    });
+    return hunks;
+  },
+  // 在当前内容上只套用接受的条目：修改原位替换，删除直接去掉，新增按建议中的顺序追加到末尾
+  apply(target, current, proposed, accepted) {
+    const after = indexByKey(spec.read(proposed), spec.key);
+    const before = indexByKey(spec.read(current), spec.key);
+    const items: T[] = [];
+    spec.read(current).forEach((item) => {
+      const key = spec.key(item);
+      if (!accepted.has(hunkId(spec.section, key))) {
+        items.push(item);
+        return;
+      }
+      const next = after.get(key);
+      if (next && before.get(key) === item) {
+        items.push(next);
+      }
+    });
+    after.forEach((item, key) => {
+      if (!before.has(key) && accepted.has(hunkId(spec.section, key))) {
+        items.push(item);
+      }
+    });
+    return spec.write(target, items);
+  },
+});
+
+const normalize = (name: string) => name.toLowerCase();
+
+// 列出两组表达式之间新增和删除的条目
+const describeExpressionChanges = (label: string, before: PddlExpression[], after: PddlExpression[]) => {
+  const beforeTexts = before.map((expression) => formatPddlExpression(expression));
+  const afterTexts = after.map((expression) => formatPddlExpression(expression));
+  return [
+    ...afterTexts.filter((text) => !beforeTexts.includes(text)).map((text) => `新增${label} ${text}`),
+    ...beforeTexts.filter((text) => !afterTexts.includes(text)).map((text) => `删除${label} ${text}`),
+  ];
+};
+
+const describeActionChanges = (before: PddlAction, after: PddlAction): string[] => {
+  const details: string[] = [];
+  const beforeParameters = formatTypedList(before.parameters);
+  const afterParameters = formatTypedList(after.parameters);
+  if (beforeParameters !== afterParameters) {
+    details.push(`参数 (${beforeParameters}) → (${afterParameters})`);
+  }
+  if (isDurativeAction(before) !== isDurativeAction(after)) {
+    details.push(isDurativeAction(after) ? '改为持续动作' : '改为瞬时动作');
+  } else if (isDurativeAction(before) && isDurativeAction(after)) {
+    details.push(...describeExpressionChanges('持续时间约束', before.duration, after.duration));
+  }
+  details.push(...describeExpressionChanges('前提', before.preconditions, after.preconditions));
+  details.push(...describeExpressionChanges('效果', before.effects, after.effects));
+  if ((before.description ?? '').trim() !== (after.description ?? '').trim()) {
+    details.push('描述已修改');
+  }
+  return details;
+};
+
+const formatTypeDeclaration = (type: PddlTypeDeclaration) =>
+  type.parent ? `${type.name} - ${type.parent}` : type.name;
+
+const formatObject = (object: PddlObject) => (object.type ? `${object.name} - ${object.type}` : object.name);
+
+// 数值初值 (= (f a) 5) 以函数项作为键，这样改值显示为修改而不是一删一增
+const initFactKey = (fact: PddlExpression) => {
+  const expression = fact as PddlExpression & { arguments?: unknown[] };
+  const [first] = Array.isArray(expression.arguments) ? expression.arguments : [];
+  if (
+    fact.type === '=' &&
+    typeof first === 'object' &&
+    first !== null &&
+    (first as { type?: unknown }).type === 'function'
+  ) {
+    return `= ${formatPddlArgument(first as PddlExpression)}`;
+  }
+  return formatPddlExpression(fact);
+};
+
+const goalConjuncts = (goal: PddlExpression | null): PddlExpression[] => {
+  if (!goal) {
+    return [];
+  }
+  const expression = goal as PddlExpression & { children?: PddlExpression[] };
+  return expression.type === 'and' && Array.isArray(expression.children) ? expression.children : [goal];
+};
+
+const toGoal = (conjuncts: PddlExpression[]): PddlExpression | null => {
+  if (conjuncts.length === 0) {
+    return null;
+  }
+  return conjuncts.length === 1 ? conjuncts[0] : { type: 'and', children: conjuncts };
+};
+
+const formatMetric = (problem: PddlProblem) => {
+  const metric = problem.metrics;
+  return metric && Array.isArray(metric.arguments) && metric.arguments.length
+    ? `(:metric ${metric.type} ${formatPddlArgument(metric.arguments[0])})`
+    : null;
+};
+
+const requirementsSection = <D extends { requirements?: string[] }>(): SectionDiffer<D> =>
+  keyed<string, D>({
+    section: 'requirements',
+    read: (pddl) => pddl.requirements ?? [],
+    write: (pddl, requirements) => ({ ...pddl, requirements }),
+    key: normalize,
+    label: (requirement) => requirement,
+    format: (requirement) => requirement,
+  });
+
+const DOMAIN_SECTIONS: SectionDiffer<PddlDomain>[] = [
+  requirementsSection<PddlDomain>(),
+  keyed<PddlTypeDeclaration, PddlDomain>({
+    section: 'types',
+    read: (domain) => domain.types,
+    write: (domain, types) => ({ ...domain, types }),
+    key: (type) => normalize(type.name),
+    label: (type) => type.name,
+    format: formatTypeDeclaration,
+  }),
+  keyed<PddlObject, PddlDomain>({
+    section: 'constants',
+    read: (domain) => domain.constants ?? [],
+    write: (domain, constants) => ({ ...domain, constants }),
+    key: (constant) => normalize(constant.name),
+    label: (constant) => constant.name,
+    format: formatObject,
+  }),
+  keyed<PddlPredicate, PddlDomain>({
+    section: 'predicates',
+    read: (domain) => domain.predicates,
+    write: (domain, predicates) => ({ ...domain, predicates }),
+    key: (predicate) => normalize(predicate.name),
+    label: (predicate) => predicate.name,
+    format: formatPredicate,
+  }),
+  keyed<PddlFunction, PddlDomain>({
+    section: 'functions',
+    read: (domain) => domain.functions,
+    write: (domain, functions) => ({ ...domain, functions }),
+    key: (fn) => normalize(fn.name),
+    label: (fn) => fn.name,
+    format: formatFunction,
+  }),
+  keyed<PddlAction, PddlDomain>({
+    section: 'actions',
+    read: (domain) => domain.actions,
+    write: (domain, actions) => ({ ...domain, actions }),
+    key: (action) => normalize(action.name),
+    label: (action) => action.name,
+    format: (action) =>
+      formatAction(action)
+        .map((line) => line.replace(/^ {2}/, ''))
+        .join('\n'),
+    details: describeActionChanges,
+  }),
+];
+
+const PROBLEM_SECTIONS: SectionDiffer<PddlProblem>[] = [
+  requirementsSection<PddlProblem>(),
+  keyed<PddlObject, PddlProblem>({
+    section: 'objects',
+    read: (problem) => problem.objects,
+    write: (problem, objects) => ({ ...problem, objects }),
+    key: (object) => normalize(object.name),
+    label: (object) => object.name,
+    format: formatObject,
+  }),
+  keyed<PddlExpression, PddlProblem>({
+    section: 'init',
+    read: (problem) => problem.init,
+    write: (problem, init) => ({ ...problem, init }),
+    key: initFactKey,
+    label: initFactKey,
+    format: formatPddlExpression,
+  }),
+  keyed<PddlExpression, PddlProblem>({
+    section: 'goal',
+    read: (problem) => goalConjuncts(problem.goal),
+    write: (problem, conjuncts) => ({ ...problem, goal: toGoal(conjuncts) }),
+    key: formatPddlExpression,
+    label: formatPddlExpression,
+    format: formatPddlExpression,
+  }),
+  // :metric 只有一条，整体作为一个条目比较
+  keyed<PddlProblem, PddlProblem>({
+    section: 'metric',
+    read: (problem) => (formatMetric(problem) ? [problem] : []),
+    write: (problem, [source]) => ({ ...problem, metrics: source?.metrics ?? null }),
+    key: () => 'metric',
+    label: () => ':metric',
+    format: (problem) => formatMetric(problem) ?? '',
+  }),
+];
+
+/** 按分区比较两份 PDDL，得到可以逐条接受或拒绝的修改 */
+export function diffPddl(target: PddlDiffTarget): PddlDiffHunk[] {
+  if (target.kind === 'domain') {
+    return DOMAIN_SECTIONS.flatMap((section) => section.diff(target.current, target.proposed));
+  }
+  return PROBLEM_SECTIONS.flatMap((section) => section.diff(target.current, target.proposed));
+}
+
+/** 在当前 PDDL 上只套用 acceptedIds 中的修改，名称等其余部分保持当前内容 */
+export function applyPddlDiff(target: PddlDiffTarget, acceptedIds: Iterable<string>): PddlDiffResult {
+  const accepted = new Set(acceptedIds);
+  if (target.kind === 'domain') {
+    const pddl = DOMAIN_SECTIONS.reduce(
+      (result, section) => section.apply(result, target.current, target.proposed, accepted),
+      target.current
+    );
+    return { kind: 'domain', pddl };
+  }
+  const pddl = PROBLEM_SECTIONS.reduce(
+    (result, section) => section.apply(result, target.current, target.proposed, accepted),
+    target.current
+  );
+  return { kind: 'problem', pddl };
+}
+
+type BoardElement = PlaitElement & { pddl?: PddlElementMetadata; points?: Point[] };
+
+// 用 PDDL 含义而不是 id 识别节点：重新生成的元素 id 带有计数器，每次都不同
+const layoutKey = ({ pddl }: BoardElement) =>
+  pddl
+    ? JSON.stringify([
+        pddl.role,
+        pddl.action ?? null,
+        pddl.name ?? null,
+        pddl.arguments ?? null,
+        pddl.section ?? null,
+        pddl.polarity ?? null,
+        pddl.time ?? null,
+        pddl.argumentIndex ?? null,
+      ])
+    : null;
+
+// 同一个 action（或 problem）里的元素一起平移
+const layoutCluster = ({ pddl }: BoardElement) =>
+  pddl?.action ? `action:${pddl.action}` : pddl?.problem ? 'problem' : 'domain';
+
+const getBoundIds = (element: PlaitElement) =>
+  [
+    (element as { source?: { boundId?: string } }).source?.boundId,
+    (element as { target?: { boundId?: string } }).target?.boundId,
+  ].filter((id): id is string => Boolean(id));
+
+/**
+ * 把旧画布的布局带到重新生成的元素上：含义相同的节点沿用旧位置和大小，
+ * 所在 action 里新出现的节点随之平移；用户自己画的、没有 PDDL 含义的元素原样保留。
+ * 连线绑定在节点上，端点会跟着节点重新计算。
+ */
+export function preserveBoardLayout(previous: PlaitElement[], next: PlaitElement[]): PlaitElement[] {
+  const previousByKey = new Map<string, BoardElement[]>();
+  (previous as BoardElement[]).forEach((element) => {
+    const key = layoutKey(element);
+    if (key && element.type === 'geometry' && element.points) {
+      previousByKey.set(key, [...(previousByKey.get(key) ?? []), element]);
+    }
+  });
+
+  const offsets = new Map<string, [number, number]>();
+  const matched = new Map<string, Point[]>();
+  (next as BoardElement[]).forEach((element) => {
+    const key = layoutKey(element);
+    const candidate =
+      key && element.type === 'geometry' && element.points ? previousByKey.get(key)?.shift() : undefined;
+    if (!candidate?.points || !element.points) {
+      return;
+    }
+    matched.set(element.id, candidate.points);
+    const cluster = layoutCluster(element);
+    if (!offsets.has(cluster)) {
+      offsets.set(cluster, [
+        candidate.points[0][0] - element.points[0][0],
+        candidate.points[0][1] - element.points[0][1],
+      ]);
+    }
+  });
+
+  const result = next.map((element) => {
+    const points = matched.get(element.id);
+    if (points) {
+      return { ...element, points: points.map(([x, y]) => [x, y] as Point) };
+    }
+    const offset = offsets.get(layoutCluster(element));
+    const elementPoints = (element as BoardElement).points;
+    if (!offset || !elementPoints) {
+      return element;
+    }
+    return { ...element, points: elementPoints.map(([x, y]) => [x + offset[0], y + offset[1]] as Point) };
+  });
+
+  // 用户添加的元素保留下来，但去掉绑定到已被删除节点上的连线
+  const ids = new Set(result.map((element) => element.id));
+  const userElements = (previous as BoardElement[]).filter((element) => !element.pddl && element.type !== 'group');
+  userElements.forEach((element) => ids.add(element.id));
+  return [...result, ...userElements.filter((element) => getBoundIds(element).every((id) => ids.has(id)))];
+}
@@ -0,0 +1,120 @@
+import type { ChatGenerateRequest } from './chat-client';
+import { createMockProvider, LlmProvider } from './llm-providers';
+import {
+  checkGeneratedPddl,
+  extractPddlDefinition,
+  generatePddlFromDescription,
+  PddlGenerationError,
+} from './pddl-generation';
+
+const DOMAIN = `(define (domain rescue)
+  (:requirements :strips :typing)
+  (:types robot room)
+  (:predicates (at ?r - robot ?x - room) (connected ?x ?y - room))
+  (:action move
+    :parameters (?r - robot ?x ?y - room) ; 只能沿走廊移动
+    :precondition (and (at ?r ?x) (connected ?x ?y))
+    :effect (and (not (at ?r ?x)) (at ?r ?y))))`;
+
+const PROBLEM = `(define (problem rescue-1)
+  (:domain rescue)
+  (:objects r1 - robot hall lab - room)
+  (:init (at r1 hall) (connected hall lab))
+  (:goal (at r1 lab)))`;
+
+const reply = (domain: string, problem: string) =>
+  `下面是生成的文件：\n\`\`\`pddl\n${domain}\n\`\`\`\n\`\`\`pddl\n${problem}\n\`\`\``;
+
+// 按顺序交出预先写好的回复，并记下每次收到的对话
+const scriptedProvider = (...replies: string[]) => {
+  const requests: ChatGenerateRequest[] = [];
+  const provider: LlmProvider = {
+    async generate(request, { onText }) {
+      requests.push({ ...request, messages: [...request.messages] });
+      const content = replies[requests.length - 1] ?? '';
+      onText(content);
+      return { content };
+    },
+  };
+  return { provider, requests };
+};
+
+describe('extractPddlDefinition', () => {
+  it('cuts the definition out of surrounding text and skips comments', () => {
+    expect(extractPddlDefinition(reply(DOMAIN, PROBLEM), 'domain')).toBe(DOMAIN);
+    expect(extractPddlDefinition(reply(DOMAIN, PROBLEM), 'problem')).toBe(PROBLEM);
+  });
+
+  it('returns null for missing or unbalanced definitions', () => {
+    expect(extractPddlDefinition(PROBLEM, 'domain')).toBeNull();
+    expect(extractPddlDefinition(DOMAIN.slice(0, -1), 'domain')).toBeNull();
+  });
+});
+
+describe('checkGeneratedPddl', () => {
+  it('parses both definitions', () => {
+    const result = checkGeneratedPddl(reply(DOMAIN, PROBLEM));
+    expect('issues' in result).toBe(false);
+    if (!('issues' in result)) {
+      expect(result.domain.pddl.name).toBe('rescue');
+      expect(result.problem.text).toBe(PROBLEM);
+    }
+  });
+
+  it('reports inconsistencies between domain and problem', () => {
+    const problem = PROBLEM.replace('(:domain rescue)', '(:domain salvage)')
+      .replace('hall lab - room', 'hall lab - area')
+      .replace('(connected hall lab)', '(connected hall)');
+    expect(checkGeneratedPddl(reply(DOMAIN, problem))).toEqual({
+      issues: [
+        'problem 的 :domain 为 salvage，与 domain 名称 rescue 不一致。',
+        '对象 hall 的类型 area 没有在 domain 的 :types 中声明。',
+        '对象 lab 的类型 area 没有在 domain 的 :types 中声明。',
+        '谓词 connected 在 domain 中有 2 个参数，problem 中却给了 1 个。',
+      ],
+    });
+  });
+
+  it('reports missing definitions', () => {
+    expect(checkGeneratedPddl('抱歉，我无法完成。')).toEqual({
+      issues: ['没有找到完整的 (define (domain ...)) 定义。', '没有找到完整的 (define (problem ...)) 定义。'],
+    });
+  });
+});
+
+describe('generatePddlFromDescription', () => {
+  it('feeds the issues back to the model and retries', async () => {
+    const { provider, requests } = scriptedProvider(
+      reply(DOMAIN, PROBLEM.replace('(at r1 lab)', '(in r1 lab)')),
+      reply(DOMAIN, PROBLEM)
+    );
+    const onProgress = jest.fn();
+    const result = await generatePddlFromDescription('机器人从大厅去实验室', provider, { onProgress });
+
+    expect(result.attempts).toBe(2);
+    expect(result.problem.pddl.name).toBe('rescue-1');
+    expect(requests[0].messages).toHaveLength(1);
+    expect(requests[0].messages[0].content).toContain('机器人从大厅去实验室');
+    expect(requests[1].messages.map(({ role }) => role)).toEqual(['user', 'assistant', 'user']);
+    expect(requests[1].messages[2].content).toContain('- problem 中使用的谓词 in 没有在 domain 中声明。');
+    expect(onProgress).toHaveBeenCalledWith(
+      expect.objectContaining({ attempt: 2, text: '', issues: ['problem 中使用的谓词 in 没有在 domain 中声明。'] })
+    );
+  });
+
+  it('gives up when the model never answers with PDDL', async () => {
+    jest.useFakeTimers();
+    try {
+      const generation = generatePddlFromDescription('随便写点', createMockProvider(), { maxAttempts: 1 });
+      const settled = expect(generation).rejects.toMatchObject({
+        name: 'PddlGenerationError',
+        issues: ['没有找到完整的 (define (domain ...)) 定义。', '没有找到完整的 (define (problem ...)) 定义。'],
+      });
+      await jest.runAllTimersAsync();
+      await settled;
+      await expect(generation).rejects.toBeInstanceOf(PddlGenerationError);
+    } finally {
+      jest.useRealTimers();
+    }
+  });
+});
@@ -0,0 +1,232 @@
+import type { PddlDomain, PddlExpression, PddlExpressionArgument, PddlProblem } from '../app/pddl_types';
+import { formatPddlDiagnostics } from '../app/pddl-utils';
+import type { ChatGenerateRequest } from './chat-client';
+import type { LlmProvider } from './llm-providers';
+import { parsePddlDomain, parsePddlProblem } from './pddl-parser';
+
+export interface GeneratedPddl {
+  domain: { text: string; pddl: PddlDomain };
+  problem: { text: string; pddl: PddlProblem };
+  /** 第几次尝试得到了合法结果 */
+  attempts: number;
+}
+
+export interface PddlGenerationProgress {
+  attempt: number;
+  maxAttempts: number;
+  /** 本次尝试到目前为止收到的模型输出 */
+  text: string;
+  /** 上一次尝试没有通过检查的原因 */
+  issues: string[];
+}
+
+export type PddlGenerationOptions = {
+  signal?: AbortSignal;
+  maxAttempts?: number;
+  onProgress?: (progress: PddlGenerationProgress) => void;
+};
+
+export class PddlGenerationError extends Error {
+  constructor(message: string, readonly issues: string[]) {
+    super(message);
+    this.name = 'PddlGenerationError';
+  }
+}
+
+const DEFAULT_MAX_ATTEMPTS = 3;
+
+const buildGenerationPrompt = (description: string) =>
+  [
+    '请根据下面的场景描述编写 PDDL。',
+    '只输出两个 ```pddl 代码块：第一个是完整的 domain，以 (define (domain ...) 开头；',
+    '第二个是对应的 problem，以 (define (problem ...) 开头，其中 :domain 与 domain 的名称一致。',
+    '涉及距离、载量、库存、成本等数量时使用 :fluents 数值函数，并在 problem 中给出 :metric。',
+    '',
+    '场景描述：',
+    description.trim(),
+  ].join('\n');
+
+const buildRetryPrompt = (issues: string[]) =>
+  [
+    '上一次的输出没有通过 PDDL 解析和检查，问题如下：',
+    ...issues.map((issue) => `- ${issue}`),
+    '请修正这些问题，重新输出完整的 domain 和 problem 两个 ```pddl 代码块。',
+  ].join('\n');
+
+/**
+ * 从模型输出中截取 "(define (domain ..." 或 "(define (problem ..." 开始的完整 S 表达式，
+ * 按括号配对找到结尾，跳过 ";" 注释；找不到或括号不完整时返回 null。
+ */
+export const extractPddlDefinition = (text: string, kind: 'domain' | 'problem'): string | null => {
+  const start = text.search(new RegExp(`\\(\\s*define\\s*\\(\\s*${kind}\\b`, 'i'));
+  if (start < 0) {
+    return null;
+  }
+  let depth = 0;
+  for (let index = start; index < text.length; index++) {
+    const char = text[index];
+    if (char === ';') {
+      const lineEnd = text.indexOf('\n', index);
+      if (lineEnd < 0) {
+        return null;
+      }
+      index = lineEnd;
+    } else if (char === '(') {
+      depth += 1;
+    } else if (char === ')') {
+      depth -= 1;
+      if (depth === 0) {
+        return text.slice(start, index + 1);
+      }
+    }
+  }
+  return null;
+};
+
+const normalize = (name: string) => name.toLowerCase();
+
+const isExpression = (argument: PddlExpressionArgument | undefined): argument is PddlExpression =>
+  typeof argument === 'object' && argument !== null && 'type' in argument && typeof argument.type === 'string';
+
+// 收集表达式里用到的谓词和函数及其实参个数
+const collectSymbols = (
+  expression: PddlExpression | null | undefined,
+  into: Array<{ kind: 'predicate' | 'function'; name: string; arity: number }>
+) => {
+  if (!expression) {
+    return;
+  }
+  const node = expression as PddlExpression & {
+    name?: string;
+    arguments?: PddlExpressionArgument[];
+    argument?: PddlExpression;
+    children?: PddlExpression[];
+  };
+  if ((node.type === 'predicate' || node.type === 'function') && node.name) {
+    into.push({ kind: node.type, name: node.name, arity: node.arguments?.length ?? 0 });
+  }
+  node.arguments?.forEach((argument) => {
+    if (isExpression(argument)) {
+      collectSymbols(argument, into);
+    }
+  });
+  collectSymbols(node.argument, into);
+  node.children?.forEach((child) => collectSymbols(child, into));
+};
+
+// 解析器只检查语法，这里补上 domain 与 problem 之间最常见的不一致
+const crossCheck = (domain: PddlDomain, problem: PddlProblem): string[] => {
+  const issues: string[] = [];
+  if (domain.actions.length === 0) {
+    issues.push('domain 中没有定义任何 action。');
+  }
+  const domainName = problem.domain_name ?? problem.domain;
+  if (domainName && normalize(domainName) !== normalize(domain.name)) {
+    issues.push(`problem 的 :domain 为 ${domainName}，与 domain 名称 ${domain.name} 不一致。`);
+  }
+  const types = new Set(['object', ...domain.types.map((type) => normalize(type.name))]);
+  problem.objects.forEach((object) => {
+    if (object.type && domain.types.length > 0 && !types.has(normalize(object.type))) {
+      issues.push(`对象 ${object.name} 的类型 ${object.type} 没有在 domain 的 :types 中声明。`);
+    }
+  });
+  const arities = new Map<string, number>();
+  domain.predicates.forEach((predicate) =>
+    arities.set(`predicate:${normalize(predicate.name)}`, predicate.arguments.length)
+  );
+  domain.functions.forEach((fn) => arities.set(`function:${normalize(fn.name)}`, fn.arguments.length));
+  const used: Array<{ kind: 'predicate' | 'function'; name: string; arity: number }> = [];
+  problem.init.forEach((fact) => collectSymbols(fact, used));
+  collectSymbols(problem.goal, used);
+  const reported = new Set<string>();
+  used.forEach(({ kind, name, arity }) => {
+    const key = `${kind}:${normalize(name)}`;
+    if (reported.has(key)) {
+      return;
+    }
+    const declared = arities.get(key);
+    const label = kind === 'predicate' ? '谓词' : '函数';
+    if (declared === undefined) {
+      reported.add(key);
+      issues.push(`problem 中使用的${label} ${name} 没有在 domain 中声明。`);
+    } else if (declared !== arity) {
+      reported.add(key);
+      issues.push(`${label} ${name} 在 domain 中有 ${declared} 个参数，problem 中却给了 ${arity} 个。`);
+    }
+  });
+  return issues;
+};
+
+export const checkGeneratedPddl = (
+  text: string
+): { domain: GeneratedPddl['domain']; problem: GeneratedPddl['problem'] } | { issues: string[] } => {
+  const domainText = extractPddlDefinition(text, 'domain');
+  const problemText = extractPddlDefinition(text, 'problem');
+  const issues: string[] = [];
+  if (!domainText) {
+    issues.push('没有找到完整的 (define (domain ...)) 定义。');
+  }
+  if (!problemText) {
+    issues.push('没有找到完整的 (define (problem ...)) 定义。');
+  }
+  if (!domainText || !problemText) {
+    return { issues };
+  }
+  const domainResult = parsePddlDomain(domainText);
+  const problemResult = parsePddlProblem(problemText);
+  if (!domainResult.success) {
+    const diagnostics = domainResult.details?.diagnostics ?? [];
+    issues.push(
+      `domain 解析失败：${diagnostics.length ? formatPddlDiagnostics(domainText, diagnostics) : domainResult.error}`
+    );
+  }
+  if (!problemResult.success) {
+    const diagnostics = problemResult.details?.diagnostics ?? [];
+    issues.push(
+      `problem 解析失败：${diagnostics.length ? formatPddlDiagnostics(problemText, diagnostics) : problemResult.error}`
+    );
+  }
+  if (!domainResult.success || !problemResult.success) {
+    return { issues };
+  }
+  const crossIssues = crossCheck(domainResult.content, problemResult.content);
+  if (crossIssues.length) {
+    return { issues: crossIssues };
+  }
+  return {
+    domain: { text: domainText, pddl: domainResult.content },
+    problem: { text: problemText, pddl: problemResult.content },
+  };
+};
+
+/**
+ * 让模型根据自然语言描述写出 domain 和 problem；输出没有通过解析或一致性检查时，
+ * 把诊断信息作为新一轮对话发回去重试，最多 maxAttempts 次，仍失败则抛出 PddlGenerationError。
+ */
+export async function generatePddlFromDescription(
+  description: string,
+  provider: LlmProvider,
+  { signal, maxAttempts = DEFAULT_MAX_ATTEMPTS, onProgress }: PddlGenerationOptions = {}
+): Promise<GeneratedPddl> {
+  const messages: ChatGenerateRequest['messages'] = [{ role: 'user', content: buildGenerationPrompt(description) }];
+  let issues: string[] = [];
+  for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+    const currentIssues = issues;
+    onProgress?.({ attempt, maxAttempts, text: '', issues: currentIssues });
+    const response = await provider.generate(
+      { pddl_type: 'others', messages, context: { file: null, selection: [] } },
+      {
+        signal,
+        onText: (text) => onProgress?.({ attempt, maxAttempts, text, issues: currentIssues }),
+      }
+    );
+    const text = typeof response.content === 'string' ? response.content : '';
+    const result = checkGeneratedPddl(text);
+    if (!('issues' in result)) {
+      return { ...result, attempts: attempt };
+    }
+    issues = result.issues;
+    messages.push({ role: 'assistant', content: text }, { role: 'user', content: buildRetryPrompt(issues) });
+  }
+  throw new PddlGenerationError(`尝试 ${maxAttempts} 次后生成的 PDDL 仍未通过检查。`, issues);
+}
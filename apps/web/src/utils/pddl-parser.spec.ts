@@ -0,0 +1,195 @@
+import { parsePddl, parsePddlDomain, parsePddlExpression, parsePddlPlan, parsePddlProblem } from './pddl-parser';
+
+const DOMAIN = `(define (domain logistics)
+  (:requirements :strips :typing :equality)
+  (:types truck - vehicle vehicle place)
+  (:constants depot - place)
+  (:predicates (at ?v - vehicle ?p - place) (visited ?p - place))
+  (:functions (fuel ?v - vehicle) - number)
+  (:action drive
+    :parameters (?t - truck ?from ?to - place)
+    :precondition (and (at ?t ?from) (not (= ?from ?to)) (>= (fuel ?t) 1))
+    :effect (and (not (at ?t ?from)) (at ?t ?to) (visited ?to) (decrease (fuel ?t) 1))))`;
+
+const PROBLEM = `(define (problem p1)
+  (:domain logistics)
+  (:objects t - truck x y - place)
+  (:init (at t depot) (= (fuel t) 3))
+  (:goal (and (visited y) (not (at t x))))
+  (:metric minimize (total-cost)))`;
+
+describe('pddl-parser', () => {
+  it('reads domain declarations', () => {
+    const result = parsePddlDomain(DOMAIN);
+    if (!result.success) throw new Error(result.error);
+    const domain = result.content;
+    expect(domain.name).toBe('logistics');
+    expect(domain.requirements).toEqual([':strips', ':typing', ':equality']);
+    expect(domain.types).toEqual([
+      { name: 'truck', parent: 'vehicle' },
+      { name: 'vehicle', parent: null },
+      { name: 'place', parent: null },
+    ]);
+    expect(domain.constants).toEqual([{ name: 'depot', type: 'place' }]);
+    expect(domain.predicates.map((predicate) => predicate.name)).toEqual(['at', 'visited']);
+    expect(domain.functions).toEqual([
+      { type: 'function', name: 'fuel', arguments: [{ name: '?v', type: 'vehicle' }], return_type: 'number' },
+    ]);
+  });
+
+  it('reads action parameters, preconditions and effects', () => {
+    const result = parsePddlDomain(DOMAIN);
+    if (!result.success) throw new Error(result.error);
+    const [drive] = result.content.actions;
+    expect(drive.parameters).toEqual([
+      { name: '?t', type: 'truck' },
+      { name: '?from', type: 'place' },
+      { name: '?to', type: 'place' },
+    ]);
+    expect(drive.preconditions.map((condition) => condition.type)).toEqual(['predicate', 'not', '>=']);
+    expect(drive.preconditions[1]).toEqual({
+      type: 'not',
+      argument: {
+        type: '=',
+        arguments: [
+          { name: '?from', type: null },
+          { name: '?to', type: null },
+        ],
+      },
+    });
+    expect(drive.effects.map((effect) => effect.type)).toEqual(['not', 'predicate', 'predicate', 'decrease']);
+  });
+
+  it('reads problem objects, numeric init, goal and metric', () => {
+    const result = parsePddlProblem(PROBLEM);
+    if (!result.success) throw new Error(result.error);
+    const problem = result.content;
+    expect(problem.name).toBe('p1');
+    expect(problem.domain).toBe('logistics');
+    expect(problem.objects).toEqual([
+      { name: 't', type: 'truck' },
+      { name: 'x', type: 'place' },
+      { name: 'y', type: 'place' },
+    ]);
+    expect(problem.init[1]).toEqual({
+      type: '=',
+      arguments: [
+        { type: 'function', name: 'fuel', arguments: [{ name: 't', type: null }] },
+        { type: 'number', value: 3 },
+      ],
+    });
+    expect(problem.goal).toMatchObject({ type: 'and', children: [{ name: 'visited' }, { type: 'not' }] });
+    expect(problem.metrics).toEqual({
+      type: 'minimize',
+      arguments: [{ type: 'function', name: 'total-cost', arguments: [] }],
+    });
+  });
+
+  it('parses a standalone expression', () => {
+    expect(parsePddlExpression('(or (at t x) (visited y))')).toMatchObject({
+      success: true,
+      content: { type: 'or', children: [{ name: 'at' }, { name: 'visited' }] },
+    });
+  });
+
+  it('dispatches on the definition kind', () => {
+    expect(parsePddl(DOMAIN, 'domain')).toMatchObject({ success: true, content: { name: 'logistics' } });
+    expect(parsePddl(PROBLEM, 'problem')).toMatchObject({ success: true, content: { name: 'p1' } });
+  });
+});
+
+describe('pddl-parser diagnostics', () => {
+  it('points at the list that is never closed and guesses where the ")" went missing', () => {
+    const result = parsePddlDomain(
+      `(define (domain d)\n  (:predicates (p)\n  (:action a\n    :parameters ()\n    :effect (p)))`
+    );
+    expect(result.success).toBe(false);
+    if (result.success) return;
+    expect(result.error).toBe('Line 1, column 1: Parenthesis opened before "define" is never closed.');
+    expect(result.details?.diagnostics).toEqual([
+      expect.objectContaining({ severity: 'error', line: 1, column: 1 }),
+      expect.objectContaining({
+        message: '":predicates" is probably missing a closing parenthesis before "(:action".',
+        severity: 'warning',
+        line: 2,
+        column: 3,
+      }),
+    ]);
+  });
+
+  it('reports a stray closing parenthesis', () => {
+    const result = parsePddlDomain(
+      `(define (domain d)\n  (:predicates (p))\n  (:action a :parameters () :effect (p)))\n)`
+    );
+    expect(result).toMatchObject({
+      success: false,
+      details: { diagnostics: [{ message: 'Unexpected closing parenthesis.', line: 4, column: 1 }] },
+    });
+  });
+
+  it('reports empty content', () => {
+    expect(parsePddlDomain('  ; only a comment\n')).toMatchObject({
+      success: false,
+      error: 'Line 1, column 1: PDDL content is empty.',
+    });
+  });
+
+  it('locates structural errors inside well-formed lists', () => {
+    expect(parsePddlDomain(`(define (domain d) (:foo))`)).toMatchObject({
+      success: false,
+      error: 'Line 1, column 20: Unsupported domain section :foo.',
+    });
+    expect(parsePddlDomain(`(define (domain d)\n  (:predicates (p ?x -))\n)`)).toMatchObject({
+      success: false,
+      error: 'Line 2, column 16: Missing type after "-" in predicate "p".',
+    });
+  });
+
+  it('counts CRLF line breaks as single lines', () => {
+    const result = parsePddlDomain(
+      `(define (domain d)\r\n  (:action a :parameters (?x) :precondition (p ?x) :bogus (q)))`
+    );
+    expect(result).toMatchObject({
+      success: false,
+      details: { diagnostics: [{ message: 'Unknown action field :bogus in action "a".', line: 2, column: 3 }] },
+    });
+  });
+});
+
+describe('parsePddlPlan', () => {
+  it('reads a sequential plan and its cost comment', () => {
+    expect(
+      parsePddlPlan('(pick ball1 rooma)\n; a comment\n(MOVE rooma roomb) ; inline\n; cost = 2 (unit cost)\n')
+    ).toEqual({
+      success: true,
+      content: {
+        steps: [
+          { action: 'pick', parameters: ['ball1', 'rooma'], time: 0 },
+          { action: 'MOVE', parameters: ['rooma', 'roomb'], time: 1 },
+        ],
+        cost: 2,
+      },
+    });
+  });
+
+  it('reads timestamps and durations of temporal plans', () => {
+    const result = parsePddlPlan('0.000: (load p1 t1) [2.000]\n2.001: (drive t1 a b) [10]');
+    expect(result.success && result.content.steps).toEqual([
+      { action: 'load', parameters: ['p1', 't1'], time: 0, duration: 2 },
+      { action: 'drive', parameters: ['t1', 'a', 'b'], time: 2.001, duration: 10 },
+    ]);
+  });
+
+  it('accepts numbered steps without parentheses', () => {
+    const result = parsePddlPlan('step 0: pick ball1 rooma\n1: move rooma roomb');
+    expect(result.success && result.content.steps.map(({ action }) => action)).toEqual(['pick', 'move']);
+  });
+
+  it('rejects lines that are not plan steps', () => {
+    expect(parsePddlPlan('(pick ball1 rooma)\n  pick ball2 rooma')).toMatchObject({
+      success: false,
+      error: 'Line 2, column 3: Expected a plan step like "(action arg ...)" but found "pick ball2 rooma".',
+    });
+    expect(parsePddlPlan('; cost = 0\n')).toMatchObject({ success: false });
+  });
+});
@@ -0,0 +1,560 @@
+import {
+  createPddlDiagnostic,
+  formatSExpr,
+  getSExprSpan,
+  isAtom,
+  isList,
+  PddlSyntaxError,
+  readPddlSExpressions,
+} from '@drawnix/drawnix';
+import type { PddlSourceSpan, SExpr, SExprAtom } from '@drawnix/drawnix';
+import {
+  PddlAction,
+  PddlDomain,
+  PddlDurativeAction,
+  PddlExpression,
+  PddlExpressionArgument,
+  PddlFunction,
+  PddlMetric,
+  PddlParseFailure,
+  PddlParseResponse,
+  PddlPlan,
+  PddlPredicate,
+  PddlProblem,
+  PddlTimeSpecifier,
+  PddlTypeDeclaration,
+  PddlTypedParameter,
+  SolverPlanStep,
+} from '../app/pddl_types';
+
+type SExprNode = SExprAtom | SExpr;
+
+type PddlDefinitionKind = 'domain' | 'problem';
+
+const LOGICAL_CONNECTIVES = new Set(['and', 'or', 'imply']);
+const QUANTIFIERS = new Set(['forall', 'exists']);
+const COMPARATORS = new Set(['=', '<', '<=', '>', '>=']);
+const NUMERIC_EFFECTS = new Set(['increase', 'decrease', 'assign', 'scale-up', 'scale-down']);
+const ARITHMETIC_OPERATORS = new Set(['+', '-', '*', '/']);
+
+class PddlSemanticError extends Error {
+  span?: PddlSourceSpan;
+}
+
+// 出错时把位置记为最内层的列表，外层的 locate 不会覆盖已有位置
+const locate = <T>(node: SExprNode | undefined, parse: () => T): T => {
+  try {
+    return parse();
+  } catch (error) {
+    if (error instanceof PddlSemanticError && !error.span && node !== undefined && isList(node)) {
+      error.span = getSExprSpan(node);
+    }
+    throw error;
+  }
+};
+
+const keywordOf = (node: SExprNode | undefined): string =>
+  node !== undefined && isAtom(node) ? node.toLowerCase() : '';
+
+const isNumericAtom = (atom: string) => /^[-+]?(\d+\.?\d*|\.\d+)([eE][-+]?\d+)?$/.test(atom);
+
+const expectAtom = (node: SExprNode | undefined, context: string): string => {
+  if (node === undefined || !isAtom(node)) {
+    throw new PddlSemanticError(
+      `Expected a name in ${context} but found ${node === undefined ? 'nothing' : formatSExpr(node)}.`
+    );
+  }
+  return node;
+};
+
+const expectList = (node: SExprNode | undefined, context: string): SExpr => {
+  if (node === undefined || !isList(node)) {
+    throw new PddlSemanticError(
+      `Expected a parenthesized list in ${context} but found ${node === undefined ? 'nothing' : node}.`
+    );
+  }
+  return node;
+};
+
+// 解析 "a b - t c - (either u v) d" 形式的类型化列表
+const parseTypedList = (items: SExprNode[], context: string): PddlTypedParameter[] => {
+  const result: PddlTypedParameter[] = [];
+  let pending: string[] = [];
+  for (let index = 0; index < items.length; index += 1) {
+    const item = items[index];
+    if (isAtom(item) && item === '-') {
+      const typeNode = items[index + 1];
+      if (typeNode === undefined) {
+        throw new PddlSemanticError(`Missing type after "-" in ${context}.`);
+      }
+      if (!pending.length) {
+        throw new PddlSemanticError(`Type "${formatSExpr(typeNode)}" has no names to apply to in ${context}.`);
+      }
+      const typeName = isAtom(typeNode) ? typeNode : formatSExpr(typeNode);
+      pending.forEach((name) => result.push({ name, type: typeName }));
+      pending = [];
+      index += 1;
+      continue;
+    }
+    pending.push(expectAtom(item, context));
+  }
+  pending.forEach((name) => result.push({ name, type: null }));
+  return result;
+};
+
+const parseTerm = (node: SExprNode, context: string): PddlExpressionArgument => {
+  if (isAtom(node)) {
+    if (isNumericAtom(node)) {
+      return { type: 'number', value: Number(node) };
+    }
+    return { name: node, type: null };
+  }
+  return parseNumericExpression(node, context);
+};
+
+// 数值表达式：函数项、算术运算或数字字面量
+const parseNumericExpression = (node: SExprNode, context: string): PddlExpressionArgument =>
+  locate(node, () => parseNumericExpressionNode(node, context));
+
+const parseNumericExpressionNode = (node: SExprNode, context: string): PddlExpressionArgument => {
+  if (isAtom(node)) {
+    return parseTerm(node, context);
+  }
+  if (!node.length) {
+    throw new PddlSemanticError(`Empty numeric expression in ${context}.`);
+  }
+  const head = expectAtom(node[0], context);
+  const keyword = head.toLowerCase();
+  if (ARITHMETIC_OPERATORS.has(keyword) && node.length >= 2) {
+    return {
+      type: keyword,
+      arguments: node.slice(1).map((child) => parseNumericExpression(child, context)),
+    };
+  }
+  return {
+    type: 'function',
+    name: head,
+    arguments: node.slice(1).map((child) => parseTerm(child, context)),
+  };
+};
+
+const parseAtomicFormula = (node: SExpr, context: string): PddlExpression => {
+  const name = expectAtom(node[0], context);
+  return {
+    type: 'predicate',
+    name,
+    arguments: node.slice(1).map((child) => {
+      if (isList(child)) {
+        throw new PddlSemanticError(
+          `Unexpected nested list ${formatSExpr(child)} in arguments of "${name}" (${context}).`
+        );
+      }
+      return parseTerm(child, context);
+    }),
+  };
+};
+
+// (at start φ)/(over all φ)/(at end φ)；(at ?x ?y) 这样的谓词 at 第三项不是列表，不会被误认
+const getTimeSpecifier = (list: SExpr): PddlTimeSpecifier | null => {
+  if (list.length !== 3 || !isList(list[2])) {
+    return null;
+  }
+  const specifier = `${keywordOf(list[0])} ${keywordOf(list[1])}`;
+  return specifier === 'at start' || specifier === 'over all' || specifier === 'at end' ? specifier : null;
+};
+
+// 逻辑表达式（前提、目标与效果共用）
+const parseExpression = (node: SExprNode, context: string): PddlExpression =>
+  locate(node, () => parseExpressionNode(node, context));
+
+const parseExpressionNode = (node: SExprNode, context: string): PddlExpression => {
+  const list = expectList(node, context);
+  if (!list.length) {
+    return { type: 'and', children: [] };
+  }
+  const keyword = keywordOf(list[0]);
+  if (LOGICAL_CONNECTIVES.has(keyword)) {
+    return {
+      type: keyword,
+      children: list.slice(1).map((child) => parseExpression(child, context)),
+    };
+  }
+  if (keyword === 'not') {
+    if (list.length !== 2) {
+      throw new PddlSemanticError(`"not" expects exactly one argument in ${context}.`);
+    }
+    return { type: 'not', argument: parseExpression(list[1], context) };
+  }
+  if (QUANTIFIERS.has(keyword)) {
+    const variables = parseTypedList(expectList(list[1], `${keyword} variables`), context);
+    if (list.length !== 3) {
+      throw new PddlSemanticError(`"${keyword}" expects a variable list and one body in ${context}.`);
+    }
+    return {
+      type: keyword,
+      arguments: variables,
+      argument: parseExpression(list[2], context),
+    };
+  }
+  const timeSpecifier = getTimeSpecifier(list);
+  if (timeSpecifier) {
+    return { type: timeSpecifier, argument: parseExpression(list[2], context) };
+  }
+  if (keyword === 'when') {
+    if (list.length !== 3) {
+      throw new PddlSemanticError(`"when" expects a condition and an effect in ${context}.`);
+    }
+    return {
+      type: 'when',
+      children: [parseExpression(list[1], context), parseExpression(list[2], context)],
+    };
+  }
+  if (COMPARATORS.has(keyword)) {
+    if (list.length !== 3) {
+      throw new PddlSemanticError(`"${keyword}" expects two operands in ${context}.`);
+    }
+    return {
+      type: keyword,
+      arguments: [parseNumericExpression(list[1], context), parseNumericExpression(list[2], context)],
+    };
+  }
+  if (NUMERIC_EFFECTS.has(keyword)) {
+    if (list.length !== 3) {
+      throw new PddlSemanticError(`"${keyword}" expects a function and a value in ${context}.`);
+    }
+    return {
+      type: keyword as 'increase' | 'decrease' | 'assign' | 'scale-up' | 'scale-down',
+      arguments: [parseNumericExpression(list[1], context), parseNumericExpression(list[2], context)],
+    };
+  }
+  return parseAtomicFormula(list, context);
+};
+
+// 顶层的 (and ...) 展开为表达式数组，与后端返回的结构保持一致
+const parseExpressionList = (node: SExprNode | undefined, context: string): PddlExpression[] => {
+  if (node === undefined) {
+    return [];
+  }
+  const expression = parseExpression(node, context);
+  if (expression.type === 'and' && 'children' in expression && Array.isArray(expression.children)) {
+    return expression.children;
+  }
+  return [expression];
+};
+
+const parseTypes = (items: SExprNode[]): PddlTypeDeclaration[] =>
+  parseTypedList(items, ':types').map((entry) => ({
+    name: entry.name,
+    parent: entry.type,
+  }));
+
+const parsePredicates = (items: SExprNode[]): PddlPredicate[] =>
+  items.map((item) =>
+    locate(item, () => {
+      const list = expectList(item, ':predicates');
+      const name = expectAtom(list[0], ':predicates');
+      return { name, arguments: parseTypedList(list.slice(1), `predicate "${name}"`) };
+    })
+  );
+
+const parseFunctions = (items: SExprNode[]): PddlFunction[] => {
+  const functions: PddlFunction[] = [];
+  let pending: PddlFunction[] = [];
+  for (let index = 0; index < items.length; index += 1) {
+    const item = items[index];
+    if (isAtom(item) && item === '-') {
+      const returnType = expectAtom(items[index + 1], ':functions');
+      pending.forEach((func) => functions.push({ ...func, return_type: returnType }));
+      pending = [];
+      index += 1;
+      continue;
+    }
+    pending.push(
+      locate(item, () => {
+        const list = expectList(item, ':functions');
+        const name = expectAtom(list[0], ':functions');
+        return {
+          type: 'function',
+          name,
+          arguments: parseTypedList(list.slice(1), `function "${name}"`),
+          return_type: null,
+        };
+      })
+    );
+  }
+  return functions.concat(pending);
+};
+
+const parseAction = (list: SExpr): PddlAction => {
+  const name = expectAtom(list[1], ':action');
+  const action: PddlAction = {
+    name,
+    parameters: [],
+    preconditions: [],
+    effects: [],
+  };
+  for (let index = 2; index < list.length; index += 2) {
+    const key = keywordOf(list[index]);
+    const value = list[index + 1];
+    if (key === ':parameters') {
+      action.parameters = parseTypedList(expectList(value, `parameters of "${name}"`), `parameters of "${name}"`);
+    } else if (key === ':precondition') {
+      action.preconditions = parseExpressionList(value, `precondition of "${name}"`);
+    } else if (key === ':effect') {
+      action.effects = parseExpressionList(value, `effect of "${name}"`);
+    } else {
+      throw new PddlSemanticError(`Unknown action field ${formatSExpr(list[index])} in action "${name}".`);
+    }
+  }
+  return action;
+};
+
+const parseDurativeAction = (list: SExpr): PddlDurativeAction => {
+  const name = expectAtom(list[1], ':durative-action');
+  const action: PddlDurativeAction = {
+    name,
+    durative: true,
+    duration: [],
+    parameters: [],
+    preconditions: [],
+    effects: [],
+  };
+  for (let index = 2; index < list.length; index += 2) {
+    const key = keywordOf(list[index]);
+    const value = list[index + 1];
+    if (key === ':parameters') {
+      action.parameters = parseTypedList(expectList(value, `parameters of "${name}"`), `parameters of "${name}"`);
+    } else if (key === ':duration') {
+      action.duration = parseExpressionList(value, `duration of "${name}"`);
+    } else if (key === ':condition') {
+      action.preconditions = parseExpressionList(value, `condition of "${name}"`);
+    } else if (key === ':effect') {
+      action.effects = parseExpressionList(value, `effect of "${name}"`);
+    } else {
+      throw new PddlSemanticError(`Unknown durative action field ${formatSExpr(list[index])} in action "${name}".`);
+    }
+  }
+  return action;
+};
+
+const parseMetric = (items: SExprNode[]): PddlMetric => {
+  const direction = keywordOf(items[0]);
+  if (direction !== 'minimize' && direction !== 'maximize') {
+    throw new PddlSemanticError(`Metric must start with minimize or maximize, found "${items[0] ?? ''}".`);
+  }
+  if (items[1] === undefined) {
+    throw new PddlSemanticError('Metric is missing its expression.');
+  }
+  return {
+    type: direction,
+    arguments: [parseNumericExpression(items[1], ':metric')],
+  };
+};
+
+// 初始状态中的时间初始文字 (at 10 (p a)) 与谓词 at 共用关键字，需要单独识别
+const parseInitFact = (node: SExprNode): PddlExpression => {
+  const list = expectList(node, ':init');
+  if (
+    keywordOf(list[0]) === 'at' &&
+    list.length === 3 &&
+    isAtom(list[1]) &&
+    isNumericAtom(list[1]) &&
+    isList(list[2])
+  ) {
+    return {
+      type: 'at',
+      value: Number(list[1]),
+      argument: parseExpression(list[2], ':init'),
+    };
+  }
+  return parseExpression(list, ':init');
+};
+
+const findDefinition = (definition: string, kind: PddlDefinitionKind): { name: string; sections: SExpr[] } => {
+  const expressions = readPddlSExpressions(definition);
+  for (const expression of expressions) {
+    if (keywordOf(expression[0]) !== 'define') {
+      continue;
+    }
+    const header = expression[1];
+    if (!header || !isList(header) || keywordOf(header[0]) !== kind) {
+      continue;
+    }
+    return locate(expression, () => {
+      const name = locate(header, () => expectAtom(header[1], `${kind} header`));
+      const sections = expression.slice(2).map((section) => expectList(section, `${kind} "${name}"`));
+      return { name, sections };
+    });
+  }
+  throw new PddlSemanticError(`No (define (${kind} ...)) block was found.`);
+};
+
+// 失败结果统一带上 details.diagnostics，界面据此定位出错的行列
+const toFailure = (error: unknown, definition: string): PddlParseFailure => {
+  if (error instanceof PddlSyntaxError) {
+    return { success: false, error: error.message, details: { diagnostics: error.diagnostics } };
+  }
+  const message = error instanceof Error ? error.message : String(error);
+  const span = error instanceof PddlSemanticError && error.span ? error.span : { start: 0, end: 0 };
+  const diagnostic = createPddlDiagnostic(definition, message, span);
+  return {
+    success: false,
+    error: `Line ${diagnostic.line}, column ${diagnostic.column}: ${message}`,
+    details: { diagnostics: [diagnostic] },
+  };
+};
+
+export function parsePddlDomain(definition: string): PddlParseResponse<PddlDomain> {
+  try {
+    const { name, sections } = findDefinition(definition, 'domain');
+    const domain: PddlDomain = {
+      name,
+      requirements: [],
+      types: [],
+      predicates: [],
+      functions: [],
+      actions: [],
+    };
+    sections.forEach((section) =>
+      locate(section, () => {
+        const key = keywordOf(section[0]);
+        const items = section.slice(1);
+        if (key === ':requirements') {
+          domain.requirements = items.map((item) => expectAtom(item, ':requirements'));
+        } else if (key === ':types') {
+          domain.types = parseTypes(items);
+        } else if (key === ':constants') {
+          domain.constants = parseTypedList(items, ':constants');
+        } else if (key === ':predicates') {
+          domain.predicates = parsePredicates(items);
+        } else if (key === ':functions') {
+          domain.functions = parseFunctions(items);
+        } else if (key === ':action') {
+          domain.actions.push(parseAction(section));
+        } else if (key === ':durative-action') {
+          domain.actions.push(parseDurativeAction(section));
+        } else {
+          throw new PddlSemanticError(`Unsupported domain section ${formatSExpr(section[0] ?? '')}.`);
+        }
+      })
+    );
+    return { success: true, content: domain };
+  } catch (error) {
+    return toFailure(error, definition);
+  }
+}
+
+export function parsePddlProblem(definition: string): PddlParseResponse<PddlProblem> {
+  try {
+    const { name, sections } = findDefinition(definition, 'problem');
+    const problem: PddlProblem = {
+      name,
+      domain_name: null,
+      requirements: [],
+      objects: [],
+      init: [],
+      goal: null,
+      metrics: null,
+    };
+    sections.forEach((section) =>
+      locate(section, () => {
+        const key = keywordOf(section[0]);
+        const items = section.slice(1);
+        if (key === ':domain') {
+          const domainName = expectAtom(items[0], ':domain');
+          problem.domain = domainName;
+          problem.domain_name = domainName;
+        } else if (key === ':requirements') {
+          problem.requirements = items.map((item) => expectAtom(item, ':requirements'));
+        } else if (key === ':objects') {
+          problem.objects = parseTypedList(items, ':objects');
+        } else if (key === ':init') {
+          problem.init = items.map((item) => parseInitFact(item));
+        } else if (key === ':goal') {
+          problem.goal = items.length ? parseExpression(items[0], ':goal') : null;
+        } else if (key === ':metric') {
+          problem.metrics = parseMetric(items);
+        } else {
+          throw new PddlSemanticError(`Unsupported problem section ${formatSExpr(section[0] ?? '')}.`);
+        }
+      })
+    );
+    return { success: true, content: problem };
+  } catch (error) {
+    return toFailure(error, definition);
+  }
+}
+
+// 单个表达式，例如画布上 "(>= (fuel ?v) 10)" 这样的节点文本
+export function parsePddlExpression(definition: string): PddlParseResponse<PddlExpression> {
+  try {
+    const [expression] = readPddlSExpressions(definition);
+    return { success: true, content: parseExpression(expression, 'expression') };
+  } catch (error) {
+    return toFailure(error, definition);
+  }
+}
+
+export function parsePddl(definition: string, kind: PddlDefinitionKind): PddlParseResponse<PddlDomain | PddlProblem> {
+  return kind === 'domain' ? parsePddlDomain(definition) : parsePddlProblem(definition);
+}
+
+const PLAN_NUMBER = '[-+]?(?:\\d+\\.?\\d*|\\.\\d+)(?:[eE][-+]?\\d+)?';
+// "(drive t1 b1 h1)"、"0.000: (drive t1 b1 h1) [10.0]"，以及 FF 的 "step 0: DRIVE T1 B1 H1"
+const PLAN_STEP_PATTERN = new RegExp(
+  `^(?:step\\s+)?(?:(${PLAN_NUMBER})\\s*:\\s*)?(?:\\(([^()]*)\\)|([^\\s()\\[\\]][^()\\[\\]]*?))\\s*(?:\\[\\s*(${PLAN_NUMBER})\\s*\\])?$`,
+  'i'
+);
+const PLAN_COST_PATTERN = new RegExp(`^;+\\s*cost\\s*[=:]\\s*(${PLAN_NUMBER})`, 'i');
+
+// 计划文件，每行一个动作；没有时间前缀的顺序计划按行号计时
+export function parsePddlPlan(definition: string): PddlParseResponse<PddlPlan> {
+  try {
+    const steps: SolverPlanStep[] = [];
+    let cost: number | null = null;
+    for (const line of definition.matchAll(/^.*$/gm)) {
+      const commentAt = line[0].indexOf(';');
+      if (commentAt >= 0) {
+        const costMatch = PLAN_COST_PATTERN.exec(line[0].slice(commentAt));
+        if (costMatch) {
+          cost = Number(costMatch[1]);
+        }
+      }
+      const code = commentAt >= 0 ? line[0].slice(0, commentAt) : line[0];
+      const text = code.trim();
+      if (!text) {
+        continue;
+      }
+      const start = (line.index ?? 0) + code.indexOf(text);
+      const fail = (message: string) => {
+        const error = new PddlSemanticError(message);
+        error.span = { start, end: start + text.length };
+        return error;
+      };
+      const match = PLAN_STEP_PATTERN.exec(text);
+      // 不带括号的写法只在有时间或步号前缀时才认，避免把普通文本当成计划
+      if (!match || (match[3] !== undefined && match[1] === undefined)) {
+        throw fail(`Expected a plan step like "(action arg ...)" but found "${text}".`);
+      }
+      const [action, ...parameters] = (match[2] ?? match[3]).trim().split(/\s+/).filter(Boolean);
+      if (!action) {
+        throw fail('Plan step has no action name.');
+      }
+      const step: SolverPlanStep = {
+        action,
+        parameters,
+        time: match[1] !== undefined ? Number(match[1]) : steps.length,
+      };
+      if (match[4] !== undefined) {
+        step.duration = Number(match[4]);
+      }
+      steps.push(step);
+    }
+    if (steps.length === 0) {
+      throw new PddlSemanticError('No plan steps were found.');
+    }
+    return { success: true, content: { steps, cost } };
+  } catch (error) {
+    return toFailure(error, definition);
+  }
+}
@@ -0,0 +1,78 @@
+import { buildPlanPartialOrder } from './pddl-partial-order';
+import { parsePddlDomain, parsePddlProblem } from './pddl-parser';
+
+const DOMAIN = `(define (domain haul)
+  (:requirements :strips :typing :numeric-fluents)
+  (:types truck place package)
+  (:predicates (at ?t - truck ?p - place) (in ?k - package ?t - truck) (delivered ?k - package ?p - place))
+  (:functions (budget))
+  (:action drive
+    :parameters (?t - truck ?from ?to - place)
+    :precondition (at ?t ?from)
+    :effect (and (not (at ?t ?from)) (at ?t ?to)))
+  (:action unload
+    :parameters (?k - package ?t - truck ?p - place)
+    :precondition (and (in ?k ?t) (at ?t ?p))
+    :effect (and (not (in ?k ?t)) (delivered ?k ?p)))
+  (:action pay
+    :parameters (?t - truck)
+    :precondition (>= (budget) 1)
+    :effect (decrease (budget) 1)))`;
+
+const PROBLEM = `(define (problem two-trucks)
+  (:domain haul)
+  (:objects t1 t2 - truck depot shop market - place p1 p2 - package)
+  (:init (at t1 depot) (at t2 depot) (in p1 t1) (in p2 t2) (= (budget) 2))
+  (:goal (and (delivered p1 shop) (delivered p2 shop))))`;
+
+const domain = parsePddlDomain(DOMAIN);
+const problem = parsePddlProblem(PROBLEM);
+
+const order = (...plan: string[][]) => {
+  if (!domain.success || !problem.success) {
+    throw new Error('fixture does not parse');
+  }
+  return buildPlanPartialOrder(
+    domain.content,
+    problem.content,
+    plan.map(([action, ...parameters]) => ({ action, parameters }))
+  );
+};
+
+describe('buildPlanPartialOrder', () => {
+  it('lets independent steps share a layer', () => {
+    const result = order(
+      ['drive', 't1', 'depot', 'shop'],
+      ['drive', 't2', 'depot', 'shop'],
+      ['unload', 'p1', 't1', 'shop'],
+      ['unload', 'p2', 't2', 'shop']
+    );
+    expect(result.links).toEqual([
+      { from: 0, to: 2, fact: '(at t1 shop)' },
+      { from: 1, to: 3, fact: '(at t2 shop)' },
+    ]);
+    expect(result.threats).toEqual([]);
+    expect(result.layers).toEqual([0, 0, 1, 1]);
+  });
+
+  it('orders a step that deletes a linked fact after its consumer and drops implied orderings', () => {
+    const result = order(
+      ['drive', 't1', 'depot', 'shop'],
+      ['unload', 'p1', 't1', 'shop'],
+      ['drive', 't1', 'shop', 'market']
+    );
+    expect(result.threats).toEqual([{ link: { from: 0, to: 1, fact: '(at t1 shop)' }, step: 2, resolution: 'after' }]);
+    // 0 -> 2 的因果链接已由 0 -> 1 -> 2 蕴含
+    expect(result.orderings).toEqual([
+      { from: 0, to: 1, reason: 'causal', facts: ['(at t1 shop)'] },
+      { from: 1, to: 2, reason: 'threat', facts: ['(at t1 shop)'] },
+    ]);
+    expect(result.layers).toEqual([0, 1, 2]);
+  });
+
+  it('keeps the order of steps that read and write the same fluent', () => {
+    expect(order(['pay', 't1'], ['pay', 't2']).orderings).toEqual([
+      { from: 0, to: 1, reason: 'numeric', facts: ['(budget)'] },
+    ]);
+  });
+});
@@ -0,0 +1,218 @@
+import type { PddlDomain, PddlProblem, SolverPlanStep } from '../app/pddl_types';
+import { GroundCondition, GroundEffect, Grounder, GroundNumeric } from './pddl-planner';
+
+export interface PlanCausalLink {
+  /** 提供事实的步骤下标 */
+  from: number;
+  /** 需要该事实作为前提的步骤下标 */
+  to: number;
+  fact: string;
+}
+
+export interface PlanThreat {
+  link: PlanCausalLink;
+  /** 删除了 link.fact 的步骤下标 */
+  step: number;
+  /** 'before'：威胁步骤须排在提供者之前；'after'：须排在消费者之后 */
+  resolution: 'before' | 'after';
+}
+
+export interface PlanOrdering {
+  from: number;
+  to: number;
+  reason: 'causal' | 'threat' | 'numeric';
+  /** 支撑这条排序的事实或数值函数 */
+  facts: string[];
+}
+
+export interface PlanPartialOrder {
+  links: PlanCausalLink[];
+  threats: PlanThreat[];
+  /** 去掉传递冗余后的排序约束，画图时每条对应一根箭头 */
+  orderings: PlanOrdering[];
+  /** 每一步所在的层：层号是从没有前驱的步骤出发的最长路径长度，同层的步骤可以并行 */
+  layers: number[];
+}
+
+type StepUsage = {
+  reads: Set<number>;
+  forbids: Set<number>;
+  adds: Set<number>;
+  deletes: Set<number>;
+  readsFluents: Set<number>;
+  writesFluents: Set<number>;
+  /** 被 assign/scale-up/scale-down 改写的数值；increase/decrease 之间可以交换顺序 */
+  assignsFluents: Set<number>;
+};
+
+const collectNumericFluents = (expression: GroundNumeric, into: Set<number>) => {
+  if (expression.kind === 'fluent') {
+    into.add(expression.fluent);
+  } else if (expression.kind === 'operation') {
+    expression.operands.forEach((operand) => collectNumericFluents(operand, into));
+  }
+};
+
+// 析取里的原子也当作读取：不知道实际用了哪一支，只能保守处理
+const collectConditionUsage = (condition: GroundCondition, usage: StepUsage, negated = false) => {
+  switch (condition.kind) {
+    case 'constant':
+      return;
+    case 'atom':
+      (negated ? usage.forbids : usage.reads).add(condition.atom);
+      return;
+    case 'compare':
+      collectNumericFluents(condition.left, usage.readsFluents);
+      collectNumericFluents(condition.right, usage.readsFluents);
+      return;
+    case 'not':
+      collectConditionUsage(condition.condition, usage, !negated);
+      return;
+    case 'and':
+    case 'or':
+      condition.conditions.forEach((child) => collectConditionUsage(child, usage, negated));
+      return;
+  }
+};
+
+const collectEffectUsage = (effect: GroundEffect, usage: StepUsage) => {
+  if (effect.condition) {
+    collectConditionUsage(effect.condition, usage);
+  }
+  if (effect.kind === 'literal') {
+    (effect.add ? usage.adds : usage.deletes).add(effect.atom);
+    return;
+  }
+  usage.writesFluents.add(effect.fluent);
+  collectNumericFluents(effect.value, usage.readsFluents);
+  if (effect.operation !== 'increase' && effect.operation !== 'decrease') {
+    usage.assignsFluents.add(effect.fluent);
+  }
+};
+
+// 一方读取另一方写入的数值，或双方写同一个数值且其中有覆盖式的写法时，两步不能交换
+const conflictsOnFluent = (earlier: StepUsage, later: StepUsage, fluent: number) =>
+  (later.readsFluents.has(fluent) && earlier.writesFluents.has(fluent)) ||
+  (later.writesFluents.has(fluent) && earlier.readsFluents.has(fluent)) ||
+  (later.writesFluents.has(fluent) &&
+    earlier.writesFluents.has(fluent) &&
+    (later.assignsFluents.has(fluent) || earlier.assignsFluents.has(fluent)));
+
+/**
+ * 把顺序计划还原成偏序计划：每条正前提找最近一个添加它的前序步骤作为因果链接，
+ * 删除该事实的其他步骤构成威胁，按原顺序排到提供者之前或消费者之后；
+ * 负前提与相互冲突的数值读写保守地保持原顺序。初始状态直接提供的前提不产生链接。
+ */
+export function buildPlanPartialOrder(
+  domain: PddlDomain,
+  problem: PddlProblem,
+  plan: SolverPlanStep[]
+): PlanPartialOrder {
+  const grounder = new Grounder(domain, problem, false);
+  const usages = plan.map((step) => {
+    const { action } = grounder.groundStep(step.action, Array.isArray(step.parameters) ? step.parameters : []);
+    const usage: StepUsage = {
+      reads: new Set(),
+      forbids: new Set(),
+      adds: new Set(),
+      deletes: new Set(),
+      readsFluents: new Set(),
+      writesFluents: new Set(),
+      assignsFluents: new Set(),
+    };
+    collectConditionUsage(action.precondition, usage);
+    action.effects.forEach((effect) => collectEffectUsage(effect, usage));
+    return usage;
+  });
+
+  const constraints = new Map<string, PlanOrdering>();
+  const addConstraint = (from: number, to: number, reason: PlanOrdering['reason'], fact: string) => {
+    const key = `${from}->${to}`;
+    const existing = constraints.get(key);
+    if (!existing) {
+      constraints.set(key, { from, to, reason, facts: [fact] });
+      return;
+    }
+    if (!existing.facts.includes(fact)) {
+      existing.facts.push(fact);
+    }
+    // 同一对步骤上因果链接优先于其他原因
+    if (reason === 'causal') {
+      existing.reason = 'causal';
+    }
+  };
+
+  const links: PlanCausalLink[] = [];
+  const threats: PlanThreat[] = [];
+  usages.forEach((usage, to) => {
+    usage.reads.forEach((atom) => {
+      let from = to - 1;
+      while (from >= 0 && !usages[from].adds.has(atom)) {
+        from -= 1;
+      }
+      if (from < 0) {
+        return;
+      }
+      const link = { from, to, fact: grounder.atoms[atom] };
+      links.push(link);
+      addConstraint(from, to, 'causal', link.fact);
+      usages.forEach((other, step) => {
+        if (step === from || step === to || !other.deletes.has(atom)) {
+          return;
+        }
+        // 顺序计划是合法的，删除者不会夹在提供者和消费者之间
+        const resolution = step < from ? 'before' : 'after';
+        threats.push({ link, step, resolution });
+        if (resolution === 'before') {
+          addConstraint(step, from, 'threat', link.fact);
+        } else {
+          addConstraint(to, step, 'threat', link.fact);
+        }
+      });
+    });
+    for (let earlier = 0; earlier < to; earlier++) {
+      const previous = usages[earlier];
+      usage.forbids.forEach((atom) => {
+        if (previous.adds.has(atom) || previous.deletes.has(atom)) {
+          addConstraint(earlier, to, 'threat', grounder.atoms[atom]);
+        }
+      });
+      previous.forbids.forEach((atom) => {
+        if (usage.adds.has(atom)) {
+          addConstraint(earlier, to, 'threat', grounder.atoms[atom]);
+        }
+      });
+      new Set([...usage.readsFluents, ...usage.writesFluents]).forEach((fluent) => {
+        if (conflictsOnFluent(previous, usage, fluent)) {
+          addConstraint(earlier, to, 'numeric', grounder.fluents[fluent]);
+        }
+      });
+    }
+  });
+
+  // 所有约束都从前往后，按下标顺序就是拓扑序
+  const successors = plan.map(() => new Set<number>());
+  constraints.forEach(({ from, to }) => successors[from].add(to));
+  const reachable = plan.map(() => new Set<number>());
+  for (let step = plan.length - 1; step >= 0; step--) {
+    successors[step].forEach((next) => {
+      reachable[step].add(next);
+      reachable[next].forEach((later) => reachable[step].add(later));
+    });
+  }
+  const orderings = Array.from(constraints.values())
+    .filter(
+      ({ from, to }) =>
+        !Array.from(successors[from]).some((middle) => middle !== to && reachable[middle].has(to))
+    )
+    .sort((a, b) => a.from - b.from || a.to - b.to);
+
+  const layers = plan.map(() => 0);
+  for (let step = 0; step < plan.length; step++) {
+    successors[step].forEach((next) => {
+      layers[next] = Math.max(layers[next], layers[step] + 1);
+    });
+  }
+
+  return { links, threats, orderings, layers };
+}
@@ -0,0 +1,62 @@
+import type { PddlDomain, PddlProblem } from '../app/pddl_types';
+import type {
+  PlannerOptions,
+  PlannerResult,
+  PlannerStatistics,
+  PlannerWorkerMessage,
+  PlannerWorkerRequest,
+} from './pddl-planner';
+
+export type BrowserPlannerRun = {
+  signal?: AbortSignal;
+  onProgress?: (statistics: PlannerStatistics) => void;
+};
+
+/**
+ * 在独立的 worker 中运行内置规划器，避免长时间搜索卡住画布。
+ * signal 触发时立即结束 worker，并以 AbortError 拒绝。
+ */
+export function solveWithBrowserPlanner(
+  domain: PddlDomain,
+  problem: PddlProblem,
+  options: PlannerOptions,
+  { signal, onProgress }: BrowserPlannerRun = {}
+): Promise<PlannerResult> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Planning was cancelled.', 'AbortError'));
+      return;
+    }
+    const worker = new Worker(new URL('./pddl-planner.worker.ts', import.meta.url), {
+      type: 'module',
+    });
+    const finish = () => {
+      worker.terminate();
+      signal?.removeEventListener('abort', handleAbort);
+    };
+    const handleAbort = () => {
+      finish();
+      reject(new DOMException('Planning was cancelled.', 'AbortError'));
+    };
+    signal?.addEventListener('abort', handleAbort);
+    worker.addEventListener('message', (event: MessageEvent<PlannerWorkerMessage>) => {
+      const message = event.data;
+      if (message.type === 'progress') {
+        onProgress?.(message.statistics);
+        return;
+      }
+      finish();
+      if (message.type === 'result') {
+        resolve(message.result);
+      } else {
+        reject(new Error(message.message));
+      }
+    });
+    worker.addEventListener('error', (event) => {
+      finish();
+      reject(new Error(event.message || 'Planner worker failed to start.'));
+    });
+    const request: PlannerWorkerRequest = { domain, problem, options };
+    worker.postMessage(request);
+  });
+}
@@ -0,0 +1,159 @@
+import { PlannerSearch, evaluateNumeric, solvePddlPlanningProblem } from './pddl-planner';
+import { parsePddlDomain, parsePddlProblem } from './pddl-parser';
+
+const parse = (domainText: string, problemText: string) => {
+  const domain = parsePddlDomain(domainText);
+  const problem = parsePddlProblem(problemText);
+  if (!domain.success || !problem.success) {
+    throw new Error(!domain.success ? domain.error : !problem.success ? problem.error : '');
+  }
+  return { domain: domain.content, problem: problem.content };
+};
+
+const GRIPPER_DOMAIN = `(define (domain gripper)
+  (:requirements :strips :typing)
+  (:types room ball)
+  (:predicates (at-robby ?r - room) (at ?b - ball ?r - room) (free) (carry ?b - ball))
+  (:action move
+    :parameters (?from ?to - room)
+    :precondition (at-robby ?from)
+    :effect (and (at-robby ?to) (not (at-robby ?from))))
+  (:action pick
+    :parameters (?b - ball ?r - room)
+    :precondition (and (at ?b ?r) (at-robby ?r) (free))
+    :effect (and (carry ?b) (not (at ?b ?r)) (not (free))))
+  (:action drop
+    :parameters (?b - ball ?r - room)
+    :precondition (and (carry ?b) (at-robby ?r))
+    :effect (and (at ?b ?r) (free) (not (carry ?b)))))`;
+
+const GRIPPER_PROBLEM = `(define (problem two-balls)
+  (:domain gripper)
+  (:objects a b - room b1 b2 - ball)
+  (:init (at-robby a) (at b1 a) (at b2 a) (free))
+  (:goal (and (at b1 b) (at b2 b))))`;
+
+// 直接开到 c 需要先加满油（2 步，代价 10）；经 b 绕行并加一次油多一步，但代价只有 9
+const FUEL_DOMAIN = `(define (domain fuel)
+  (:requirements :strips :typing :numeric-fluents)
+  (:types place)
+  (:predicates (at ?p - place) (road ?a ?b - place))
+  (:functions (fuel) (distance ?a ?b - place) (total-cost))
+  (:action drive
+    :parameters (?a ?b - place)
+    :precondition (and (at ?a) (road ?a ?b) (>= (fuel) (distance ?a ?b)))
+    :effect (and (not (at ?a)) (at ?b) (decrease (fuel) (distance ?a ?b)) (increase (total-cost) (distance ?a ?b))))
+  (:action refuel
+    :parameters (?p - place)
+    :precondition (at ?p)
+    :effect (and (assign (fuel) 10) (increase (total-cost) 1))))`;
+
+const FUEL_PROBLEM = `(define (problem detour)
+  (:domain fuel)
+  (:objects a b c - place)
+  (:init (at a) (road a b) (road b c) (road a c)
+    (= (distance a b) 4) (= (distance b c) 4) (= (distance a c) 9)
+    (= (fuel) 5) (= (total-cost) 0))
+  (:goal (at c))
+  (:metric minimize (total-cost)))`;
+
+const toCalls = (plan: { action: string; parameters?: string[] }[]) =>
+  plan.map((step) => `(${[step.action, ...(step.parameters ?? [])].join(' ')})`);
+
+describe('solvePddlPlanningProblem', () => {
+  const gripper = parse(GRIPPER_DOMAIN, GRIPPER_PROBLEM);
+
+  it.each<[PlannerSearch, 'h_add' | 'h_ff']>([
+    ['bfs', 'h_add'],
+    ['ucs', 'h_add'],
+    ['gbfs', 'h_add'],
+    ['gbfs', 'h_ff'],
+    ['astar', 'h_add'],
+    ['astar', 'h_ff'],
+  ])('solves a STRIPS task with %s (%s)', (search, heuristic) => {
+    const result = solvePddlPlanningProblem(gripper.domain, gripper.problem, { search, heuristic, maxNodes: 10000 });
+    expect(result.status).toBe('solved');
+    expect(result.plan.filter((step) => step.action === 'drop')).toHaveLength(2);
+    expect(result.statistics.expanded).toBeGreaterThan(0);
+    if (search === 'bfs' || search === 'ucs') {
+      // 抓一个球、移过去、放下、回来、再抓放一次
+      expect(result.plan).toHaveLength(7);
+    }
+  });
+
+  it('reports an unsolvable task', () => {
+    const { domain, problem } = parse(GRIPPER_DOMAIN, GRIPPER_PROBLEM.replace('(free))', ')'));
+    expect(solvePddlPlanningProblem(domain, problem).status).toBe('unsolvable');
+  });
+
+  it('gives up once the node budget is spent', () => {
+    const result = solvePddlPlanningProblem(gripper.domain, gripper.problem, {
+      search: 'bfs',
+      heuristic: 'h_add',
+      maxNodes: 3,
+    });
+    expect(result).toMatchObject({ status: 'budget-exceeded', plan: [] });
+  });
+});
+
+describe('numeric planning', () => {
+  const fuel = parse(FUEL_DOMAIN, FUEL_PROBLEM);
+
+  it('respects numeric preconditions', () => {
+    const result = solvePddlPlanningProblem(fuel.domain, fuel.problem, {
+      search: 'bfs',
+      heuristic: 'h_add',
+      maxNodes: 10000,
+    });
+    expect(toCalls(result.plan)).toEqual(['(refuel a)', '(drive a c)']);
+    expect(result.cost).toBe(10);
+  });
+
+  it.each<PlannerSearch>(['ucs', 'astar'])('minimizes the metric with %s', (search) => {
+    const result = solvePddlPlanningProblem(fuel.domain, fuel.problem, { search, heuristic: 'h_add', maxNodes: 10000 });
+    // 中途加油的两种走法代价相同，只比较代价
+    expect(result.plan).toHaveLength(3);
+    expect(result.cost).toBe(9);
+  });
+});
+
+describe('evaluateNumeric', () => {
+  it('reads fluents and nested operations', () => {
+    expect(
+      evaluateNumeric(
+        {
+          kind: 'operation',
+          operator: '+',
+          operands: [
+            { kind: 'fluent', fluent: 0 },
+            {
+              kind: 'operation',
+              operator: '*',
+              operands: [
+                { kind: 'value', value: 2 },
+                { kind: 'value', value: 3 },
+              ],
+            },
+          ],
+        },
+        [4]
+      )
+    ).toBe(10);
+  });
+
+  it('treats division by zero as undefined', () => {
+    expect(
+      evaluateNumeric(
+        {
+          kind: 'operation',
+          operator: '/',
+          operands: [
+            { kind: 'value', value: 1 },
+            { kind: 'value', value: 0 },
+          ],
+        },
+        []
+      )
+    ).toBeNaN();
+  });
+});
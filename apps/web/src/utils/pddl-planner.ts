@@ -0,0 +1,1319 @@
+import type {
+  PddlAction,
+  PddlDomain,
+  PddlExpression,
+  PddlExpressionArgument,
+  PddlProblem,
+  PddlTypedParameter,
+  SolverPlanStep,
+} from '../app/pddl_types';
+import { isDurativeAction, PDDL_COMPARATOR_ALIASES, PddlComparator } from '../app/pddl-utils';
+
+/**
+ * bfs 按步数最短；ucs 按度量最优；gbfs 只看启发值；astar 按 g + h 排序。
+ * 没有 :metric 时度量就是步数。
+ */
+export type PlannerSearch = 'bfs' | 'ucs' | 'gbfs' | 'astar';
+export type PlannerHeuristic = 'h_add' | 'h_ff';
+
+export interface PlannerOptions {
+  search: PlannerSearch;
+  /** 只在 gbfs/astar 下使用 */
+  heuristic: PlannerHeuristic;
+  /** 最多展开的搜索节点数，超过后放弃 */
+  maxNodes: number;
+}
+
+export interface PlannerStatistics {
+  groundActions: number;
+  expanded: number;
+  generated: number;
+}
+
+export interface PlannerResult {
+  status: 'solved' | 'unsolvable' | 'budget-exceeded';
+  plan: SolverPlanStep[];
+  /** 计划终点上的 :metric 取值，没有度量时为步数 */
+  cost: number;
+  statistics: PlannerStatistics;
+}
+
+export const DEFAULT_PLANNER_OPTIONS: PlannerOptions = {
+  search: 'gbfs',
+  heuristic: 'h_ff',
+  maxNodes: 200000,
+};
+
+// 主线程与 worker 之间的消息
+export type PlannerWorkerRequest = {
+  domain: PddlDomain;
+  problem: PddlProblem;
+  options: PlannerOptions;
+};
+
+export type PlannerWorkerMessage =
+  | { type: 'progress'; statistics: PlannerStatistics }
+  | { type: 'result'; result: PlannerResult }
+  | { type: 'error'; message: string };
+
+class PddlPlannerError extends Error {}
+
+type ArithmeticOperator = '+' | '-' | '*' | '/';
+type NumericEffectOperation = 'assign' | 'increase' | 'decrease' | 'scale-up' | 'scale-down';
+
+export type GroundNumeric =
+  | { kind: 'value'; value: number }
+  | { kind: 'fluent'; fluent: number }
+  | {
+      kind: 'operation';
+      operator: ArithmeticOperator;
+      operands: GroundNumeric[];
+    };
+
+export type GroundCondition =
+  | { kind: 'constant'; value: boolean }
+  | { kind: 'atom'; atom: number }
+  | {
+      kind: 'compare';
+      comparator: PddlComparator;
+      left: GroundNumeric;
+      right: GroundNumeric;
+    }
+  | { kind: 'not'; condition: GroundCondition }
+  | { kind: 'and' | 'or'; conditions: GroundCondition[] };
+
+export type GroundEffect =
+  | {
+      kind: 'literal';
+      /** 条件效果的条件，null 表示无条件 */
+      condition: GroundCondition | null;
+      atom: number;
+      add: boolean;
+    }
+  | {
+      kind: 'numeric';
+      condition: GroundCondition | null;
+      fluent: number;
+      operation: NumericEffectOperation;
+      value: GroundNumeric;
+    };
+
+export type GroundAction = {
+  name: string;
+  parameters: string[];
+  precondition: GroundCondition;
+  effects: GroundEffect[];
+};
+
+export interface PlanningTask {
+  /** 可变原子，下标即原子编号 */
+  atoms: string[];
+  /** 可变数值函数，下标即编号 */
+  fluents: string[];
+  initial: number[];
+  /** 未定义的数值为 NaN */
+  initialValues: number[];
+  /** 参与状态判重的数值；只被累加、从不被读取的 total-cost 之类不算状态 */
+  stateFluents: number[];
+  goal: GroundCondition;
+  actions: GroundAction[];
+  metric: {
+    direction: 'minimize' | 'maximize';
+    expression: GroundNumeric;
+  } | null;
+}
+
+export type Binding = Map<string, string>;
+
+const TRUE: GroundCondition = { kind: 'constant', value: true };
+const FALSE: GroundCondition = { kind: 'constant', value: false };
+const PROGRESS_INTERVAL = 1000;
+const NUMERIC_EFFECTS = new Set<string>(['assign', 'increase', 'decrease', 'scale-up', 'scale-down']);
+// 解析器给出符号，后端有时给出单词
+const ARITHMETIC_ALIASES: Record<string, ArithmeticOperator> = {
+  '+': '+',
+  plus: '+',
+  '-': '-',
+  minus: '-',
+  subtract: '-',
+  '*': '*',
+  times: '*',
+  multiply: '*',
+  '/': '/',
+  divide: '/',
+};
+
+const normalize = (name: string) => name.trim().toLowerCase();
+
+const negate = (condition: GroundCondition): GroundCondition => {
+  if (condition.kind === 'constant') {
+    return condition.value ? FALSE : TRUE;
+  }
+  if (condition.kind === 'not') {
+    return condition.condition;
+  }
+  return { kind: 'not', condition };
+};
+
+// 合并 and/or，顺带消去常量
+const junction = (kind: 'and' | 'or', conditions: GroundCondition[]): GroundCondition => {
+  const absorbing = kind === 'or';
+  const operands: GroundCondition[] = [];
+  for (const condition of conditions) {
+    if (condition.kind === 'constant') {
+      if (condition.value === absorbing) {
+        return condition;
+      }
+      continue;
+    }
+    if (condition.kind === kind) {
+      operands.push(...condition.conditions);
+    } else {
+      operands.push(condition);
+    }
+  }
+  if (!operands.length) {
+    return absorbing ? FALSE : TRUE;
+  }
+  return operands.length === 1 ? operands[0] : { kind, conditions: operands };
+};
+
+export const evaluateNumeric = (expression: GroundNumeric, values: number[]): number => {
+  switch (expression.kind) {
+    case 'value':
+      return expression.value;
+    case 'fluent':
+      return values[expression.fluent] ?? NaN;
+    case 'operation': {
+      const operands = expression.operands.map((operand) => evaluateNumeric(operand, values));
+      if (operands.length === 1) {
+        return expression.operator === '-' ? -operands[0] : operands[0];
+      }
+      return operands.slice(1).reduce((result, operand) => {
+        switch (expression.operator) {
+          case '+':
+            return result + operand;
+          case '-':
+            return result - operand;
+          case '*':
+            return result * operand;
+          case '/':
+            return operand === 0 ? NaN : result / operand;
+          default:
+            return NaN;
+        }
+      }, operands[0]);
+    }
+  }
+};
+
+// 未定义的数值参与比较时一律不成立
+const compare = (comparator: PddlComparator, left: number, right: number) => {
+  if (Number.isNaN(left) || Number.isNaN(right)) {
+    return false;
+  }
+  switch (comparator) {
+    case '=':
+      return left === right;
+    case '<':
+      return left < right;
+    case '<=':
+      return left <= right;
+    case '>':
+      return left > right;
+    case '>=':
+      return left >= right;
+  }
+};
+
+export const holds = (condition: GroundCondition, state: Set<number>, values: number[]): boolean => {
+  switch (condition.kind) {
+    case 'constant':
+      return condition.value;
+    case 'atom':
+      return state.has(condition.atom);
+    case 'compare':
+      return compare(
+        condition.comparator,
+        evaluateNumeric(condition.left, values),
+        evaluateNumeric(condition.right, values)
+      );
+    case 'not':
+      return !holds(condition.condition, state, values);
+    case 'and':
+      return condition.conditions.every((child) => holds(child, state, values));
+    case 'or':
+      return condition.conditions.some((child) => holds(child, state, values));
+  }
+};
+
+const applyNumericEffect = (operation: NumericEffectOperation, current: number, value: number) => {
+  switch (operation) {
+    case 'assign':
+      return value;
+    case 'increase':
+      return current + value;
+    case 'decrease':
+      return current - value;
+    case 'scale-up':
+      return current * value;
+    case 'scale-down':
+      return value === 0 ? NaN : current / value;
+  }
+};
+
+// 松弛问题只看合取位置上的正原子
+const collectRelaxedAtoms = (condition: GroundCondition, into: Set<number>) => {
+  if (condition.kind === 'atom') {
+    into.add(condition.atom);
+  } else if (condition.kind === 'and') {
+    condition.conditions.forEach((child) => collectRelaxedAtoms(child, into));
+  }
+};
+
+const collectComparisons = (condition: GroundCondition, into: GroundCondition[]) => {
+  if (condition.kind === 'compare') {
+    into.push(condition);
+  } else if (condition.kind === 'and') {
+    condition.conditions.forEach((child) => collectComparisons(child, into));
+  }
+};
+
+const getChildren = (expression: PddlExpression): PddlExpression[] => {
+  const children = (expression as { children?: PddlExpression[] }).children;
+  return Array.isArray(children) ? children : [];
+};
+
+const getArguments = (expression: PddlExpression | PddlExpressionArgument): PddlExpressionArgument[] => {
+  const args = (expression as { arguments?: PddlExpressionArgument[] }).arguments;
+  return Array.isArray(args) ? args : [];
+};
+
+const getArgument = (expression: PddlExpression): PddlExpression => {
+  const argument = (expression as { argument?: PddlExpression }).argument;
+  if (!argument) {
+    throw new PddlPlannerError(`"${expression.type}" is missing its argument.`);
+  }
+  return argument;
+};
+
+const getName = (expression: PddlExpression | PddlExpressionArgument) =>
+  normalize((expression as { name?: string }).name ?? '');
+
+const getTermName = (argument: PddlExpressionArgument | undefined): string | null => {
+  const value = argument as { name?: unknown; arguments?: unknown } | undefined;
+  if (!value || typeof value.name !== 'string' || 'arguments' in value) {
+    return null;
+  }
+  return value.name;
+};
+
+const collectEffectPredicates = (expression: PddlExpression, into: Set<string>) => {
+  switch (expression.type) {
+    case 'predicate':
+      into.add(getName(expression));
+      return;
+    case 'not':
+    case 'forall':
+      collectEffectPredicates(getArgument(expression), into);
+      return;
+    case 'when':
+      collectEffectPredicates(getChildren(expression)[1], into);
+      return;
+    default:
+      getChildren(expression).forEach((child) => collectEffectPredicates(child, into));
+  }
+};
+
+// 被数值效果修改的函数
+const collectEffectFunctions = (expression: PddlExpression, into: Set<string>) => {
+  if (NUMERIC_EFFECTS.has(expression.type)) {
+    into.add(getName(getArguments(expression)[0] ?? {}));
+    return;
+  }
+  if (expression.type === 'when') {
+    collectEffectFunctions(getChildren(expression)[1], into);
+    return;
+  }
+  if (expression.type === 'forall') {
+    collectEffectFunctions(getArgument(expression), into);
+    return;
+  }
+  getChildren(expression).forEach((child) => collectEffectFunctions(child, into));
+};
+
+// 在条件或数值表达式里被读取的函数；数值效果的目标本身不算读取
+const collectFunctionReads = (node: unknown, into: Set<string>) => {
+  if (Array.isArray(node)) {
+    node.forEach((child) => collectFunctionReads(child, into));
+    return;
+  }
+  if (!node || typeof node !== 'object') {
+    return;
+  }
+  const value = node as {
+    type?: string;
+    arguments?: unknown[];
+    argument?: unknown;
+    children?: unknown[];
+  };
+  if (value.type === 'function') {
+    into.add(getName(value as PddlExpressionArgument));
+  }
+  const args = Array.isArray(value.arguments) ? value.arguments : [];
+  const reads = value.type && NUMERIC_EFFECTS.has(value.type) ? args.slice(1) : args;
+  reads.forEach((child) => collectFunctionReads(child, into));
+  collectFunctionReads(value.argument, into);
+  (Array.isArray(value.children) ? value.children : []).forEach((child) => collectFunctionReads(child, into));
+};
+
+/**
+ * 把 domain/problem 接地成命题与数值编号。foldStatic 为 true 时，从不被修改的谓词和函数
+ * 直接代入初值；校验计划时关掉它，才能报告出具体是哪条静态事实不成立。
+ */
+export class Grounder {
+  private readonly typeParents = new Map<string, string | null>();
+  private readonly objects: Array<{ name: string; type: string | null }>;
+  private readonly objectsByType = new Map<string, string[]>();
+  private readonly fluentPredicates = new Set<string>();
+  private readonly fluentFunctions = new Set<string>();
+  private readonly readFunctions = new Set<string>();
+  private readonly staticFacts = new Set<string>();
+  private readonly staticValues = new Map<string, number>();
+  private readonly atomIds = new Map<string, number>();
+  private readonly fluentIds = new Map<string, number>();
+  readonly atoms: string[] = [];
+  readonly fluents: string[] = [];
+
+  constructor(
+    private readonly domain: PddlDomain,
+    private readonly problem: PddlProblem,
+    private readonly foldStatic = true
+  ) {
+    domain.types.forEach((type) => {
+      this.typeParents.set(normalize(type.name), type.parent ? normalize(type.parent) : null);
+    });
+    const seen = new Set<string>();
+    this.objects = [...(domain.constants ?? []), ...problem.objects].filter((object) => {
+      const key = normalize(object.name);
+      if (seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+    domain.actions.forEach((action) => {
+      action.effects.forEach((effect) => {
+        collectEffectPredicates(effect, this.fluentPredicates);
+        collectEffectFunctions(effect, this.fluentFunctions);
+      });
+      collectFunctionReads(action.preconditions, this.readFunctions);
+      collectFunctionReads(action.effects, this.readFunctions);
+    });
+    collectFunctionReads(problem.goal, this.readFunctions);
+    problem.init.forEach((fact) => {
+      if (fact.type === 'predicate' && !this.isFluentPredicate(getName(fact))) {
+        this.staticFacts.add(this.createAtomKey(fact, new Map()));
+      }
+      const assignment = this.readInitialValue(fact);
+      if (assignment && !this.isFluentFunction(getName(assignment.target))) {
+        this.staticValues.set(this.createAtomKey(assignment.target, new Map()), assignment.value);
+      }
+    });
+  }
+
+  ground(): PlanningTask {
+    const actions = this.domain.actions.flatMap((action) => this.groundAction(action));
+    const goal = this.problem.goal ? this.groundCondition(this.problem.goal, new Map()) : TRUE;
+    const metric = this.groundMetric();
+    const initial = this.createInitialState();
+    return {
+      atoms: this.atoms,
+      fluents: this.fluents,
+      initial: initial.atoms,
+      initialValues: initial.values,
+      stateFluents: this.fluents.map((_, id) => id).filter((id) => !this.isCostOnly(this.fluents[id])),
+      goal,
+      actions,
+      metric,
+    };
+  }
+
+  /** 需在接地完所有要用到的条件与效果之后调用，之后才出现的数值编号视为未定义 */
+  createInitialState(): SearchState {
+    const initial = new Set<number>();
+    const assigned = new Map<number, number>();
+    this.problem.init.forEach((fact) => {
+      if (fact.type === 'predicate' && this.isFluentPredicate(getName(fact))) {
+        initial.add(this.getAtomId(this.createAtomKey(fact, new Map())));
+      }
+      const assignment = this.readInitialValue(fact);
+      if (assignment && this.isFluentFunction(getName(assignment.target))) {
+        assigned.set(this.getFluentId(this.createAtomKey(assignment.target, new Map())), assignment.value);
+      }
+    });
+    return {
+      atoms: Array.from(initial).sort((a, b) => a - b),
+      // 只用于累计代价的函数常被省略初值，按 0 处理
+      values: this.fluents.map((key, id) => assigned.get(id) ?? (this.isCostOnly(key) ? 0 : NaN)),
+    };
+  }
+
+  /** 按名字与实参接地计划里的一步，返回各条顶层前提以便逐条检查 */
+  groundStep(
+    actionName: string,
+    args: string[]
+  ): {
+    action: GroundAction;
+    preconditions: Array<{
+      expression: PddlExpression;
+      condition: GroundCondition;
+    }>;
+    binding: Binding;
+  } {
+    const action = this.domain.actions.find((candidate) => normalize(candidate.name) === normalize(actionName));
+    if (!action) {
+      throw new PddlPlannerError(`Unknown action "${actionName}".`);
+    }
+    if (isDurativeAction(action)) {
+      throw new PddlPlannerError(`Durative action "${action.name}" needs a temporal validator.`);
+    }
+    if (args.length !== action.parameters.length) {
+      throw new PddlPlannerError(
+        `"${action.name}" expects ${action.parameters.length} argument(s), got ${args.length}.`
+      );
+    }
+    const binding: Binding = new Map();
+    action.parameters.forEach((parameter, index) => {
+      const object = this.objects.find((candidate) => normalize(candidate.name) === normalize(args[index]));
+      if (!object) {
+        throw new PddlPlannerError(`Unknown object "${args[index]}".`);
+      }
+      if (
+        !this.isSubtype(object.type ? normalize(object.type) : null, parameter.type ? normalize(parameter.type) : null)
+      ) {
+        throw new PddlPlannerError(`"${object.name}" is not of type ${parameter.type} required by ${parameter.name}.`);
+      }
+      binding.set(normalize(parameter.name), object.name);
+    });
+    const preconditions = action.preconditions.map((expression) => ({
+      expression,
+      condition: this.groundCondition(expression, binding),
+    }));
+    const effects: GroundEffect[] = [];
+    action.effects.forEach((effect) => this.groundEffect(effect, binding, null, effects));
+    return {
+      action: {
+        name: action.name,
+        parameters: action.parameters.map((parameter) => binding.get(normalize(parameter.name)) ?? ''),
+        precondition: junction(
+          'and',
+          preconditions.map(({ condition }) => condition)
+        ),
+        effects,
+      },
+      preconditions,
+      binding,
+    };
+  }
+
+  private isFluentPredicate(name: string) {
+    return !this.foldStatic || this.fluentPredicates.has(name);
+  }
+
+  private isFluentFunction(name: string) {
+    return !this.foldStatic || this.fluentFunctions.has(name);
+  }
+
+  private isCostOnly(key: string) {
+    return !this.readFunctions.has(key.slice(1).split(/[\s)]/)[0]);
+  }
+
+  // (= (f a) 5)
+  private readInitialValue(fact: PddlExpression): { target: PddlExpressionArgument; value: number } | null {
+    if (fact.type !== '=') {
+      return null;
+    }
+    const [target, value] = getArguments(fact);
+    const literal = value as { type?: string; value?: unknown } | undefined;
+    if ((target as { type?: string })?.type !== 'function' || literal?.type !== 'number') {
+      return null;
+    }
+    return { target, value: Number(literal.value) };
+  }
+
+  groundMetric(): PlanningTask['metric'] {
+    const metric = this.problem.metrics;
+    const expression = metric?.arguments?.[0];
+    if (!metric || !expression) {
+      return null;
+    }
+    // 经典规划里 total-time 就是步数
+    if ((expression as { type?: string }).type === 'function' && getName(expression) === 'total-time') {
+      return null;
+    }
+    return {
+      direction: metric.type,
+      expression: this.groundNumeric(expression, new Map()),
+    };
+  }
+
+  private isSubtype(type: string | null, ancestor: string | null): boolean {
+    if (!ancestor || ancestor === 'object') {
+      return true;
+    }
+    const visited = new Set<string>();
+    let current = type;
+    while (current && !visited.has(current)) {
+      if (current === ancestor) {
+        return true;
+      }
+      visited.add(current);
+      current = this.typeParents.get(current) ?? null;
+    }
+    return false;
+  }
+
+  private getObjectsOfType(type: string | null): string[] {
+    const key = type ? normalize(type) : '';
+    const cached = this.objectsByType.get(key);
+    if (cached) {
+      return cached;
+    }
+    const matches = this.objects
+      .filter((object) => this.isSubtype(object.type ? normalize(object.type) : null, key || null))
+      .map((object) => object.name);
+    this.objectsByType.set(key, matches);
+    return matches;
+  }
+
+  private resolveTerm(argument: PddlExpressionArgument | undefined, binding: Binding): string {
+    const name = getTermName(argument);
+    if (name === null) {
+      throw new PddlPlannerError('Expected an object or variable, found a numeric term.');
+    }
+    if (!name.startsWith('?')) {
+      return name;
+    }
+    const value = binding.get(normalize(name));
+    if (value === undefined) {
+      throw new PddlPlannerError(`Variable "${name}" is not bound.`);
+    }
+    return value;
+  }
+
+  private createAtomKey(expression: PddlExpression | PddlExpressionArgument, binding: Binding): string {
+    const name = getName(expression);
+    const args = getArguments(expression).map((argument) => normalize(this.resolveTerm(argument, binding)));
+    return `(${[name, ...args].join(' ')})`;
+  }
+
+  private getAtomId(key: string): number {
+    let id = this.atomIds.get(key);
+    if (id === undefined) {
+      id = this.atoms.length;
+      this.atomIds.set(key, id);
+      this.atoms.push(key);
+    }
+    return id;
+  }
+
+  private getFluentId(key: string): number {
+    let id = this.fluentIds.get(key);
+    if (id === undefined) {
+      id = this.fluents.length;
+      this.fluentIds.set(key, id);
+      this.fluents.push(key);
+    }
+    return id;
+  }
+
+  // 依次给变量取所有同类型对象
+  private forEachBinding(
+    variables: PddlTypedParameter[],
+    binding: Binding,
+    visit: (binding: Binding) => void,
+    index = 0
+  ) {
+    if (index === variables.length) {
+      visit(binding);
+      return;
+    }
+    const variable = variables[index];
+    const key = normalize(variable.name);
+    const previous = binding.get(key);
+    this.getObjectsOfType(variable.type).forEach((object) => {
+      binding.set(key, object);
+      this.forEachBinding(variables, binding, visit, index + 1);
+    });
+    if (previous === undefined) {
+      binding.delete(key);
+    } else {
+      binding.set(key, previous);
+    }
+  }
+
+  // 静态函数直接代入初值，全部为常量的运算提前算好
+  private groundNumeric(argument: PddlExpressionArgument | undefined, binding: Binding): GroundNumeric {
+    const value = argument as unknown;
+    if (typeof value === 'number') {
+      return { kind: 'value', value };
+    }
+    const expression = value as { type?: string; value?: unknown; name?: string } | undefined;
+    if (!expression) {
+      throw new PddlPlannerError('Numeric expression is missing an operand.');
+    }
+    if (expression.type === 'number') {
+      return { kind: 'value', value: Number(expression.value) };
+    }
+    if (expression.type === 'function') {
+      const key = this.createAtomKey(argument as PddlExpressionArgument, binding);
+      if (this.isFluentFunction(getName(argument as PddlExpressionArgument))) {
+        return { kind: 'fluent', fluent: this.getFluentId(key) };
+      }
+      return { kind: 'value', value: this.staticValues.get(key) ?? NaN };
+    }
+    const operator = expression.type ? ARITHMETIC_ALIASES[expression.type] : undefined;
+    if (operator) {
+      const operands = getArguments(argument as PddlExpressionArgument).map((operand) =>
+        this.groundNumeric(operand, binding)
+      );
+      const folded: GroundNumeric = { kind: 'operation', operator, operands };
+      return operands.every((operand) => operand.kind === 'value')
+        ? { kind: 'value', value: evaluateNumeric(folded, []) }
+        : folded;
+    }
+    throw new PddlPlannerError(
+      `Cannot evaluate "${expression.name ?? expression.type ?? ''}" as a number in the browser planner.`
+    );
+  }
+
+  groundCondition(expression: PddlExpression, binding: Binding = new Map()): GroundCondition {
+    const comparator = PDDL_COMPARATOR_ALIASES[expression.type];
+    if (comparator) {
+      const [left, right] = getArguments(expression);
+      const leftName = getTermName(left);
+      const rightName = getTermName(right);
+      // (= ?a ?b) 比较的是对象
+      if (comparator === '=' && leftName !== null && rightName !== null) {
+        return normalize(this.resolveTerm(left, binding)) === normalize(this.resolveTerm(right, binding))
+          ? TRUE
+          : FALSE;
+      }
+      const grounded: GroundCondition = {
+        kind: 'compare',
+        comparator,
+        left: this.groundNumeric(left, binding),
+        right: this.groundNumeric(right, binding),
+      };
+      return grounded.left.kind === 'value' && grounded.right.kind === 'value'
+        ? { kind: 'constant', value: holds(grounded, new Set(), []) }
+        : grounded;
+    }
+    switch (expression.type) {
+      case 'predicate': {
+        const key = this.createAtomKey(expression, binding);
+        if (!this.isFluentPredicate(getName(expression))) {
+          return this.staticFacts.has(key) ? TRUE : FALSE;
+        }
+        return { kind: 'atom', atom: this.getAtomId(key) };
+      }
+      case 'not':
+        return negate(this.groundCondition(getArgument(expression), binding));
+      case 'and':
+      case 'or':
+        return junction(
+          expression.type as 'and' | 'or',
+          getChildren(expression).map((child) => this.groundCondition(child, binding))
+        );
+      case 'imply': {
+        const [antecedent, consequent] = getChildren(expression);
+        return junction('or', [
+          negate(this.groundCondition(antecedent, binding)),
+          this.groundCondition(consequent, binding),
+        ]);
+      }
+      case 'forall':
+      case 'exists': {
+        const body = getArgument(expression);
+        const instances: GroundCondition[] = [];
+        this.forEachBinding(getArguments(expression) as PddlTypedParameter[], binding, (inner) => {
+          instances.push(this.groundCondition(body, inner));
+        });
+        return junction(expression.type === 'forall' ? 'and' : 'or', instances);
+      }
+      default:
+        throw new PddlPlannerError(`Condition "${expression.type}" is not supported by the browser planner yet.`);
+    }
+  }
+
+  private groundEffect(
+    expression: PddlExpression,
+    binding: Binding,
+    condition: GroundCondition | null,
+    into: GroundEffect[]
+  ) {
+    if (NUMERIC_EFFECTS.has(expression.type)) {
+      const [target, value] = getArguments(expression);
+      into.push({
+        kind: 'numeric',
+        condition,
+        fluent: this.getFluentId(this.createAtomKey(target, binding)),
+        operation: expression.type as NumericEffectOperation,
+        value: this.groundNumeric(value, binding),
+      });
+      return;
+    }
+    switch (expression.type) {
+      case 'and':
+        getChildren(expression).forEach((child) => this.groundEffect(child, binding, condition, into));
+        return;
+      case 'predicate':
+      case 'not': {
+        const add = expression.type === 'predicate';
+        const literal = add ? expression : getArgument(expression);
+        if (literal.type !== 'predicate') {
+          throw new PddlPlannerError(`Effect "(not ${literal.type})" is not supported.`);
+        }
+        into.push({
+          kind: 'literal',
+          condition,
+          atom: this.getAtomId(this.createAtomKey(literal, binding)),
+          add,
+        });
+        return;
+      }
+      case 'when': {
+        const [antecedent, consequent] = getChildren(expression);
+        const guard = junction('and', [condition ?? TRUE, this.groundCondition(antecedent, binding)]);
+        if (guard.kind === 'constant') {
+          if (guard.value) {
+            this.groundEffect(consequent, binding, null, into);
+          }
+          return;
+        }
+        this.groundEffect(consequent, binding, guard, into);
+        return;
+      }
+      case 'forall': {
+        const body = getArgument(expression);
+        this.forEachBinding(getArguments(expression) as PddlTypedParameter[], binding, (inner) => {
+          this.groundEffect(body, inner, condition, into);
+        });
+        return;
+      }
+      default:
+        throw new PddlPlannerError(`Effect "${expression.type}" is not supported by the browser planner yet.`);
+    }
+  }
+
+  private groundAction(action: PddlAction): GroundAction[] {
+    if (isDurativeAction(action)) {
+      throw new PddlPlannerError(`Durative action "${action.name}" needs a temporal planner.`);
+    }
+    const parameterIndex = new Map(action.parameters.map((parameter, index) => [normalize(parameter.name), index]));
+    // 只涉及静态谓词与相等的顶层前提，在变量刚好绑定完时就检查，尽早剪枝
+    const staticChecks: PddlExpression[][] = action.parameters.map(() => []);
+    action.preconditions.forEach((precondition) => {
+      const literal = precondition.type === 'not' ? getArgument(precondition) : precondition;
+      const isStatic =
+        (literal.type === 'predicate' && !this.isFluentPredicate(getName(literal))) || literal.type === '=';
+      if (!isStatic) {
+        return;
+      }
+      const names = getArguments(literal).map((argument) => getTermName(argument));
+      if (names.some((name) => name === null)) {
+        return;
+      }
+      const lastIndex = Math.max(
+        -1,
+        ...names.map((name) => (name?.startsWith('?') ? parameterIndex.get(normalize(name)) ?? Infinity : -1))
+      );
+      if (lastIndex >= 0 && lastIndex < action.parameters.length) {
+        staticChecks[lastIndex].push(precondition);
+      }
+    });
+
+    const grounded: GroundAction[] = [];
+    const binding: Binding = new Map();
+    const visit = (index: number) => {
+      if (index === action.parameters.length) {
+        const precondition = this.groundCondition({ type: 'and', children: action.preconditions }, binding);
+        if (precondition.kind === 'constant' && !precondition.value) {
+          return;
+        }
+        const effects: GroundEffect[] = [];
+        action.effects.forEach((effect) => this.groundEffect(effect, binding, null, effects));
+        grounded.push({
+          name: action.name,
+          parameters: action.parameters.map((parameter) => binding.get(normalize(parameter.name)) ?? ''),
+          precondition,
+          effects,
+        });
+        return;
+      }
+      const parameter = action.parameters[index];
+      const key = normalize(parameter.name);
+      this.getObjectsOfType(parameter.type).forEach((object) => {
+        binding.set(key, object);
+        const pruned = staticChecks[index].some((check) => {
+          const condition = this.groundCondition(check, binding);
+          return condition.kind === 'constant' && !condition.value;
+        });
+        if (!pruned) {
+          visit(index + 1);
+        }
+      });
+      binding.delete(key);
+    };
+    visit(0);
+    return grounded;
+  }
+}
+
+export function groundPlanningTask(domain: PddlDomain, problem: PddlProblem): PlanningTask {
+  return new Grounder(domain, problem).ground();
+}
+
+// 按 [优先级, 次优先级, 入队顺序] 排序的最小堆
+class MinHeap {
+  private readonly items: Array<{
+    priority: number;
+    tie: number;
+    order: number;
+    value: number;
+  }> = [];
+  private counter = 0;
+
+  get size() {
+    return this.items.length;
+  }
+
+  push(priority: number, value: number, tie = 0) {
+    const items = this.items;
+    items.push({ priority, tie, order: this.counter++, value });
+    let index = items.length - 1;
+    while (index > 0) {
+      const parent = (index - 1) >> 1;
+      if (!this.less(index, parent)) {
+        break;
+      }
+      [items[index], items[parent]] = [items[parent], items[index]];
+      index = parent;
+    }
+  }
+
+  pop(): { priority: number; value: number } | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (!top || !last || !items.length) {
+      return top;
+    }
+    items[0] = last;
+    let index = 0;
+    for (;;) {
+      const left = index * 2 + 1;
+      const right = left + 1;
+      let smallest = index;
+      if (left < items.length && this.less(left, smallest)) {
+        smallest = left;
+      }
+      if (right < items.length && this.less(right, smallest)) {
+        smallest = right;
+      }
+      if (smallest === index) {
+        break;
+      }
+      [items[index], items[smallest]] = [items[smallest], items[index]];
+      index = smallest;
+    }
+    return top;
+  }
+
+  private less(a: number, b: number) {
+    const left = this.items[a];
+    const right = this.items[b];
+    if (left.priority !== right.priority) {
+      return left.priority < right.priority;
+    }
+    return left.tie !== right.tie ? left.tie < right.tie : left.order < right.order;
+  }
+}
+
+export type SearchState = {
+  atoms: number[];
+  values: number[];
+};
+
+// 先算出所有效果的新值再统一写入：先删后加，数值效果按出现顺序累积
+export const applyAction = (action: GroundAction, atoms: Set<number>, values: number[]): SearchState | null => {
+  const next = new Set(atoms);
+  const nextValues = values.slice();
+  const active = action.effects.filter((effect) => !effect.condition || holds(effect.condition, atoms, values));
+  const updates = active.flatMap((effect) =>
+    effect.kind === 'numeric' ? [{ effect, value: evaluateNumeric(effect.value, values) }] : []
+  );
+  active.forEach((effect) => {
+    if (effect.kind === 'literal' && !effect.add) {
+      next.delete(effect.atom);
+    }
+  });
+  active.forEach((effect) => {
+    if (effect.kind === 'literal' && effect.add) {
+      next.add(effect.atom);
+    }
+  });
+  for (const { effect, value } of updates) {
+    const updated = applyNumericEffect(effect.operation, nextValues[effect.fluent], value);
+    // 用到未定义数值的动作不可执行
+    if (Number.isNaN(updated)) {
+      return null;
+    }
+    nextValues[effect.fluent] = updated;
+  }
+  return { atoms: Array.from(next).sort((a, b) => a - b), values: nextValues };
+};
+
+// 搜索统一最小化：maximize 的度量取负
+const createMetricEvaluator = (task: PlanningTask) => {
+  const metric = task.metric;
+  return (values: number[], steps: number) => {
+    if (!metric) {
+      return steps;
+    }
+    const value = evaluateNumeric(metric.expression, values);
+    return metric.direction === 'maximize' ? -value : value;
+  };
+};
+
+type RelaxedOperator = {
+  pre: number[];
+  add: number[];
+  cost: number;
+};
+
+/**
+ * h_add 与 h_FF 共用的松弛规划图：删除效果被忽略，条件效果拆成独立的松弛算子。
+ * 数值目标另外按"还差多少 ÷ 单步最大变化量"估计步数后加上去。
+ */
+const createRelaxedHeuristic = (task: PlanningTask, heuristic: PlannerHeuristic, useMetricCost: boolean) => {
+  const metricOf = createMetricEvaluator(task);
+  const initialSet = new Set(task.initial);
+  const baseline = metricOf(task.initialValues, 0);
+  // 动作对度量的贡献按初始数值估计
+  const estimateCost = (action: GroundAction) => {
+    if (!useMetricCost || !task.metric) {
+      return 1;
+    }
+    const after = applyAction(action, initialSet, task.initialValues);
+    const delta = after ? metricOf(after.values, 1) - baseline : NaN;
+    return Number.isFinite(delta) ? Math.max(0, delta) : 1;
+  };
+
+  const operators: RelaxedOperator[] = [];
+  const increaseStep = new Float64Array(task.fluents.length);
+  const decreaseStep = new Float64Array(task.fluents.length);
+  task.actions.forEach((action) => {
+    const pre = new Set<number>();
+    collectRelaxedAtoms(action.precondition, pre);
+    const cost = estimateCost(action);
+    const adds = action.effects.flatMap((effect) =>
+      effect.kind === 'literal' && effect.add && !effect.condition ? [effect.atom] : []
+    );
+    operators.push({ pre: Array.from(pre), add: adds, cost });
+    action.effects.forEach((effect) => {
+      if (effect.kind === 'numeric') {
+        const value = evaluateNumeric(effect.value, task.initialValues);
+        const change = effect.operation === 'increase' ? value : effect.operation === 'decrease' ? -value : Infinity;
+        if (Number.isNaN(change)) {
+          return;
+        }
+        if (change > 0) {
+          increaseStep[effect.fluent] = Math.max(increaseStep[effect.fluent], change);
+        }
+        if (change < 0 || change === Infinity) {
+          decreaseStep[effect.fluent] = Math.max(decreaseStep[effect.fluent], Math.abs(change));
+        }
+        return;
+      }
+      if (effect.add && effect.condition) {
+        const guarded = new Set(pre);
+        collectRelaxedAtoms(effect.condition, guarded);
+        operators.push({ pre: Array.from(guarded), add: [effect.atom], cost });
+      }
+    });
+  });
+  const goalAtoms = new Set<number>();
+  collectRelaxedAtoms(task.goal, goalAtoms);
+  const goals = Array.from(goalAtoms);
+  const goalComparisons: GroundCondition[] = [];
+  collectComparisons(task.goal, goalComparisons);
+  const preconditionOf: number[][] = task.atoms.map(() => []);
+  operators.forEach((operator, index) => operator.pre.forEach((atom) => preconditionOf[atom].push(index)));
+
+  // 一侧是单个数值函数、另一侧可求值时才能估计步数，其余未满足的比较记 1 步
+  const estimateNumericSteps = (values: number[]) => {
+    let total = 0;
+    for (const comparison of goalComparisons) {
+      if (comparison.kind !== 'compare' || holds(comparison, new Set(), values)) {
+        continue;
+      }
+      const { left, right } = comparison;
+      const fluentSide = left.kind === 'fluent' ? left : right.kind === 'fluent' ? right : null;
+      if (!fluentSide) {
+        total += 1;
+        continue;
+      }
+      const other = fluentSide === left ? right : left;
+      const gap = evaluateNumeric(other, values) - values[fluentSide.fluent];
+      const step = gap > 0 ? increaseStep[fluentSide.fluent] : decreaseStep[fluentSide.fluent];
+      if (Number.isNaN(gap) || step === 0) {
+        return Infinity;
+      }
+      total += step === Infinity ? 1 : Math.max(1, Math.ceil(Math.abs(gap) / step));
+    }
+    return total;
+  };
+
+  return (state: SearchState): number => {
+    const numericSteps = estimateNumericSteps(state.values);
+    if (numericSteps === Infinity) {
+      return Infinity;
+    }
+    const cost = new Float64Array(task.atoms.length).fill(Infinity);
+    const supporter = new Int32Array(task.atoms.length).fill(-1);
+    const unsatisfied = Int32Array.from(operators, (operator) => operator.pre.length);
+    const reached = new Float64Array(operators.length);
+    const queue = new MinHeap();
+    const apply = (index: number) => {
+      const operator = operators[index];
+      const value = reached[index] + operator.cost;
+      operator.add.forEach((atom) => {
+        if (value < cost[atom]) {
+          cost[atom] = value;
+          supporter[atom] = index;
+          queue.push(value, atom);
+        }
+      });
+    };
+    state.atoms.forEach((atom) => {
+      cost[atom] = 0;
+      queue.push(0, atom);
+    });
+    operators.forEach((operator, index) => {
+      if (!operator.pre.length) {
+        apply(index);
+      }
+    });
+    while (queue.size) {
+      const entry = queue.pop() as { priority: number; value: number };
+      if (entry.priority > cost[entry.value]) {
+        continue;
+      }
+      preconditionOf[entry.value].forEach((index) => {
+        reached[index] += entry.priority;
+        unsatisfied[index] -= 1;
+        if (unsatisfied[index] === 0) {
+          apply(index);
+        }
+      });
+    }
+
+    if (goals.some((atom) => cost[atom] === Infinity)) {
+      return Infinity;
+    }
+    if (heuristic === 'h_add') {
+      return goals.reduce((sum, atom) => sum + cost[atom], numericSteps);
+    }
+    // h_FF：沿最优支持者回溯出一个松弛计划，按其中的算子计数
+    const used = new Set<number>();
+    const visited = new Set<number>();
+    const pending = [...goals];
+    while (pending.length) {
+      const atom = pending.pop() as number;
+      if (visited.has(atom) || cost[atom] === 0) {
+        continue;
+      }
+      visited.add(atom);
+      const index = supporter[atom];
+      if (!used.has(index)) {
+        used.add(index);
+        pending.push(...operators[index].pre);
+      }
+    }
+    let total = numericSteps;
+    used.forEach((index) => {
+      total += operators[index].cost;
+    });
+    return total;
+  };
+};
+
+type SearchNode = SearchState & {
+  parent: number;
+  action: number;
+  steps: number;
+  /** 按搜索方向统一成越小越好的度量 */
+  g: number;
+};
+
+/**
+ * 在已接地的任务上做前向搜索。bfs/gbfs 在生成节点时检查目标，
+ * ucs/astar 在展开时检查，遇到更便宜的路径会重新打开已访问的状态。
+ */
+export function searchPlan(
+  task: PlanningTask,
+  options: PlannerOptions,
+  onProgress?: (statistics: PlannerStatistics) => void
+): PlannerResult {
+  const statistics: PlannerStatistics = {
+    groundActions: task.actions.length,
+    expanded: 0,
+    generated: 1,
+  };
+  const metricOf = createMetricEvaluator(task);
+  const costAware = options.search === 'ucs' || options.search === 'astar';
+  const evaluate =
+    options.search === 'gbfs' || options.search === 'astar'
+      ? createRelaxedHeuristic(task, options.heuristic, options.search === 'astar')
+      : null;
+  const keyOf = (state: SearchState) =>
+    `${state.atoms.join(',')}|${task.stateFluents.map((fluent) => state.values[fluent]).join(',')}`;
+  const isGoal = (state: SearchState) => holds(task.goal, new Set(state.atoms), state.values);
+
+  const root: SearchNode = {
+    atoms: task.initial,
+    values: task.initialValues,
+    parent: -1,
+    action: -1,
+    steps: 0,
+    g: metricOf(task.initialValues, 0),
+  };
+  const nodes: SearchNode[] = [root];
+  const bestCost = new Map<string, number>([[keyOf(root), root.g]]);
+
+  const extractPlan = (index: number): PlannerResult => {
+    const steps: SolverPlanStep[] = [];
+    for (let current = index; nodes[current].parent >= 0; current = nodes[current].parent) {
+      const action = task.actions[nodes[current].action];
+      steps.push({ action: action.name, parameters: action.parameters });
+    }
+    steps.reverse();
+    const goal = nodes[index];
+    return {
+      status: 'solved',
+      plan: steps.map((step, time) => ({ ...step, time })),
+      cost: task.metric ? evaluateNumeric(task.metric.expression, goal.values) : goal.steps,
+      statistics,
+    };
+  };
+  const fail = (status: 'unsolvable' | 'budget-exceeded'): PlannerResult => ({
+    status,
+    plan: [],
+    cost: NaN,
+    statistics,
+  });
+
+  if (!costAware && isGoal(root)) {
+    return extractPlan(0);
+  }
+
+  const fifo: number[] = [];
+  let fifoHead = 0;
+  const open = new MinHeap();
+  const enqueue = (index: number): boolean => {
+    const node = nodes[index];
+    if (options.search === 'bfs') {
+      fifo.push(index);
+      return true;
+    }
+    if (options.search === 'ucs') {
+      open.push(node.g, index);
+      return true;
+    }
+    const h = (evaluate as (state: SearchState) => number)(node);
+    if (h === Infinity) {
+      return false;
+    }
+    // gbfs 同样启发值时优先代价低的节点
+    if (options.search === 'gbfs') {
+      open.push(h, index, node.g);
+    } else {
+      open.push(node.g + h, index, h);
+    }
+    return true;
+  };
+  const next = (): number | undefined => {
+    if (options.search === 'bfs') {
+      return fifoHead < fifo.length ? fifo[fifoHead++] : undefined;
+    }
+    return open.pop()?.value;
+  };
+
+  if (!enqueue(0)) {
+    return fail('unsolvable');
+  }
+
+  for (let index = next(); index !== undefined; index = next()) {
+    const node = nodes[index];
+    if (costAware) {
+      // 同一状态后来找到了更便宜的路径，这个节点已过期
+      if (node.g > (bestCost.get(keyOf(node)) ?? Infinity)) {
+        continue;
+      }
+      if (isGoal(node)) {
+        return extractPlan(index);
+      }
+    }
+    if (statistics.expanded >= options.maxNodes) {
+      return fail('budget-exceeded');
+    }
+    statistics.expanded += 1;
+    if (onProgress && statistics.expanded % PROGRESS_INTERVAL === 0) {
+      onProgress({ ...statistics });
+    }
+    const atoms = new Set(node.atoms);
+    for (let actionIndex = 0; actionIndex < task.actions.length; actionIndex++) {
+      const action = task.actions[actionIndex];
+      if (!holds(action.precondition, atoms, node.values)) {
+        continue;
+      }
+      const successor = applyAction(action, atoms, node.values);
+      if (!successor) {
+        continue;
+      }
+      const steps = node.steps + 1;
+      const g = metricOf(successor.values, steps);
+      const key = keyOf(successor);
+      const known = bestCost.get(key);
+      if (known !== undefined && (!costAware || g >= known)) {
+        continue;
+      }
+      bestCost.set(key, g);
+      statistics.generated += 1;
+      nodes.push({
+        ...successor,
+        parent: index,
+        action: actionIndex,
+        steps,
+        g,
+      });
+      const child = nodes.length - 1;
+      if (!costAware && isGoal(successor)) {
+        return extractPlan(child);
+      }
+      enqueue(child);
+    }
+  }
+  return fail('unsolvable');
+}
+
+export function solvePddlPlanningProblem(
+  domain: PddlDomain,
+  problem: PddlProblem,
+  options: PlannerOptions = DEFAULT_PLANNER_OPTIONS,
+  onProgress?: (statistics: PlannerStatistics) => void
+): PlannerResult {
+  return searchPlan(groundPlanningTask(domain, problem), options, onProgress);
+}
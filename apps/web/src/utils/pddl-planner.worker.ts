@@ -0,0 +1,22 @@
+/* eslint-disable no-restricted-globals -- self 是 worker 的全局作用域 */
+import { PlannerWorkerMessage, PlannerWorkerRequest, solvePddlPlanningProblem } from './pddl-planner';
+
+// 搜索是同步的，取消由主线程直接 terminate 这个 worker
+const post = (message: PlannerWorkerMessage) => {
+  self.postMessage(message);
+};
+
+self.addEventListener('message', (event: MessageEvent<PlannerWorkerRequest>) => {
+  const { domain, problem, options } = event.data;
+  try {
+    const result = solvePddlPlanningProblem(domain, problem, options, (statistics) => {
+      post({ type: 'progress', statistics });
+    });
+    post({ type: 'result', result });
+  } catch (error) {
+    post({
+      type: 'error',
+      message: error instanceof Error ? error.message : String(error),
+    });
+  }
+});
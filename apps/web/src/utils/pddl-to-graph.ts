@@ -1,5 +1,6 @@
 import { PlaitElement, Point } from '@plait/core';
-import { ArrowLineShape, ArrowLineMarkerType, BasicShapes } from '@plait/draw';
+import { ArrowLineShape, ArrowLineMarkerType, BasicShapes, PlaitTable, PlaitTableCell } from '@plait/draw';
+import { Alignment, StrokeStyle } from '@plait/common';
 import {
   PddlDomain,
   PddlAction,
@@ -12,13 +13,43 @@ import {
   PddlCompositeExpression,
   PddlExpressionArgument,
   PddlNumericExpression,
+  PddlElementMetadata,
+  PddlGraphElement,
+  PddlTypeDeclaration,
+  PddlTimeSpecifier,
+  PddlDurativeAction,
+  SolverPlanStep,
 } from '../app/pddl_types';
+import { isDurativeAction, PDDL_COMPARATOR_ALIASES } from '../app/pddl-utils';
+import { formatPddlConjunction, formatPddlExpression } from './pddl-writer';
+import type { PlanPartialOrder } from './pddl-partial-order';
 
 // 清理ID中的特殊字符，使其符合CSS选择器规范
 function sanitizeId(id: string): string {
   return id.replace(/[^a-zA-Z0-9_-]/g, '_');
 }
 
+// 在元素上记录其 PDDL 含义，供回写、校验等功能使用
+function withPddl(element: PlaitElement, meta: PddlElementMetadata): PddlGraphElement {
+  return Object.assign(element, { pddl: meta });
+}
+
+interface PddlElementStyle {
+  fill?: string;
+  strokeColor?: string;
+  strokeStyle?: StrokeStyle;
+  groupId?: string;
+}
+
+// 生成之后再调整颜色、线型或归属的分组
+function setElementStyle(element: PlaitElement, style: PddlElementStyle): PlaitElement {
+  return Object.assign(element, style);
+}
+
+function getArgumentNames(args?: PddlExpressionArgument[]): string[] {
+  return (Array.isArray(args) ? args : []).map((arg) => stringifyExpressionArgument(arg));
+}
+
 // 节点和边的配置
 const NODE_WIDTH = 120;
 const NODE_HEIGHT = 60;
@@ -28,17 +59,17 @@ const NODE_SPACING_X = 200;
 const NODE_SPACING_Y = 110;
 const START_X = 100;
 const START_Y = 100;
-const PRECONDITION_COLOR = '#f28b82';
-const EFFECT_COLOR = '#81c995';
+export const PRECONDITION_COLOR = '#f28b82';
+export const EFFECT_COLOR = '#81c995';
 const SECTION_GAP = NODE_SPACING_Y / 2;
 const ACTION_COLUMNS = 3;
 const ACTION_GROUP_WIDTH = NODE_WIDTH + NODE_SPACING_X * (ACTION_COLUMNS - 1);
 const PROBLEM_MAX_COLUMNS = 8;
-const FUNCTION_NODE_COLOR = '#b39ddb';
-const OPERATOR_NODE_COLOR = '#4a90e2';
-const LITERAL_NODE_COLOR = '#ffcc80';
+export const FUNCTION_NODE_COLOR = '#b39ddb';
+export const OPERATOR_NODE_COLOR = '#4a90e2';
+export const LITERAL_NODE_COLOR = '#ffcc80';
 const NUMERIC_EFFECT_TYPES = new Set(['increase', 'decrease']);
-const NUMERIC_OPERATOR_LABEL_MAP: Record<string, string> = {
+export const NUMERIC_OPERATOR_LABEL_MAP: Record<string, string> = {
   times: '×',
   '*': '×',
   multiply: '×',
@@ -65,22 +96,47 @@ const COMPARATOR_TYPES = new Set([
   'lesser',
   'greater',
 ]);
-const COMPARATOR_LABEL_MAP: Record<string, string> = {
-  '=': '=',
-  equal: '=',
-  '<=': '<=',
-  'lesser-equal': '<=',
-  '≤': '<=',
-  '>=': '>=',
-  'greater-equal': '>=',
-  '≥': '>=',
-  '<': '<',
-  lesser: '<',
-  '>': '>',
-  greater: '>',
-};
+const ROOT_TYPE = 'object';
+const TYPE_NODE_SPACING_X = PARAMETER_NODE_WIDTH + 40;
+// 类型节点与 action 中对应参数节点共用的填充色
+const TYPE_COLOR_PALETTE = [
+  '#e8f4fd',
+  '#fde2e4',
+  '#e2f0cb',
+  '#fff1c1',
+  '#e4dcf5',
+  '#d5f2f0',
+  '#fbe3cf',
+  '#e9e4dc',
+];
+const LOGIC_CONNECTIVE_TYPES = new Set(['and', 'or', 'imply', 'not', 'when']);
+const QUANTIFIER_TYPES = new Set(['forall', 'exists']);
+const LOGIC_GAP_X = NODE_SPACING_X - NODE_WIDTH;
+const SCOPE_PADDING = 20;
+const TIME_LANES: PddlTimeSpecifier[] = ['at start', 'over all', 'at end'];
 let actionGroupCounter = 0;
 let problemGroupCounter = 0;
+let typeGroupCounter = 0;
+let signatureGroupCounter = 0;
+let causalGroupCounter = 0;
+const SIGNATURE_NODE_WIDTH = NODE_WIDTH * 2.5;
+const SIGNATURE_ROW_SPACING_Y = NODE_HEIGHT + 10;
+const UNUSED_SIGNATURE_COLOR = '#d93025';
+const NUMERIC_ASSIGNMENT_TYPES = new Set(['increase', 'decrease', 'assign', 'scale-up', 'scale-down']);
+let usageMatrixCounter = 0;
+const MATRIX_ROW_HEIGHT = 32;
+const MATRIX_MIN_COLUMN_WIDTH = 48;
+const MATRIX_CHAR_WIDTH = 8;
+const MATRIX_HEADER_FILL = '#f1f3f4';
+const MATRIX_READ_FILL = '#e8f4fd';
+const PLAN_STEP_NODE_WIDTH = NODE_WIDTH * 2;
+const PLAN_STEP_COLUMN_SPACING = PLAN_STEP_NODE_WIDTH + NODE_SPACING_X;
+const CAUSAL_LABEL_MAX_FACTS = 2;
+const CAUSAL_ORDERING_COLORS: Record<PlanPartialOrder['orderings'][number]['reason'], string> = {
+  causal: '#1e88e5',
+  threat: '#d93025',
+  numeric: FUNCTION_NODE_COLOR,
+};
 
 type GraphNodeShape = 'rectangle' | 'ellipse';
 
@@ -498,7 +554,7 @@ function getComparatorLabel(type?: string): string {
     return '=';
   }
   const normalized = type.trim();
-  return COMPARATOR_LABEL_MAP[normalized] ?? normalized;
+  return PDDL_COMPARATOR_ALIASES[normalized] ?? normalized;
 }
 
 function getOperatorLabel(type?: string, fallback?: string): string {
@@ -629,8 +685,56 @@ function extractComparatorExpressions(expressions: PddlExpression[]): PddlCompos
   return comparators;
 }
 
+function isLiteralExpression(expr: PddlExpression): boolean {
+  return (
+    expr.type === 'predicate' ||
+    (expr.type === 'not' && 'argument' in expr && expr.argument?.type === 'predicate')
+  );
+}
+
+// 由文字与数值比较组成的合取，画布上的节点足以还原
+function isLiteralConjunction(expr: PddlExpression): boolean {
+  const parts = expr.type === 'and' && 'children' in expr && Array.isArray(expr.children) ? expr.children : [expr];
+  return parts.every((part) => isLiteralExpression(part) || isComparatorExpression(part));
+}
+
+// 顶层 and 中的谓词、数值效果仍按原来的分层平铺，or/imply/量词/when 等逻辑结构和比较式单独成块
+function splitStructuredExpressions(expressions: PddlExpression[]): {
+  flat: PddlExpression[];
+  structured: PddlExpression[];
+} {
+  const flat: PddlExpression[] = [];
+  const structured: PddlExpression[] = [];
+  const visit = (expr: PddlExpression) => {
+    if (expr.type === 'and' && 'children' in expr && Array.isArray(expr.children)) {
+      expr.children.forEach((child) => visit(child));
+    } else if (
+      LOGIC_CONNECTIVE_TYPES.has(expr.type) ||
+      QUANTIFIER_TYPES.has(expr.type) ||
+      COMPARATOR_TYPES.has(expr.type)
+    ) {
+      (isLiteralExpression(expr) ? flat : structured).push(expr);
+    } else {
+      flat.push(expr);
+    }
+  };
+  expressions.forEach((expr) => visit(expr));
+  return { flat, structured };
+}
+
+interface LogicLayout {
+  node: GraphNodeInfo;
+  width: number;
+  height: number;
+}
+
 // 为单个action创建图形（包含参数节点、谓词节点与连线）
-export function createActionGraph(action: PddlAction, startX: number, startY: number): {
+export function createActionGraph(
+  action: PddlAction,
+  startX: number,
+  startY: number,
+  options: { typeColors?: Map<string, string> } = {}
+): {
   elements: PlaitElement[];
   width: number;
   height: number;
@@ -644,8 +748,11 @@ export function createActionGraph(action: PddlAction, startX: number, startY: nu
       ? action.actionDescription.trim()
       : 'Action description');
   const groupedElementIds: string[] = [];
-  const registerElement = <T extends PlaitElement>(element: T): T => {
+  // 持续动作的泳道内生成的节点都记录所在时间点
+  let currentTime: PddlTimeSpecifier | undefined;
+  const registerElement = <T extends PlaitElement>(element: T, metadata: PddlElementMetadata): T => {
     (element as any).groupId = groupId;
+    withPddl(element, { ...metadata, action: action.name, ...(currentTime ? { time: currentTime } : {}) });
     groupedElementIds.push(element.id);
     elements.push(element);
     return element;
@@ -656,6 +763,8 @@ export function createActionGraph(action: PddlAction, startX: number, startY: nu
       expr: PddlPredicateExpression;
       label: string;
       type: 'precondition' | 'effect';
+      // 量词内的谓词优先连到约束变量节点
+      scope?: Map<string, GraphNodeInfo>;
     }
   > = [];
   const functionNodes: FunctionGraphNodeInfo[] = [];
@@ -676,13 +785,18 @@ export function createActionGraph(action: PddlAction, startX: number, startY: nu
       actionTitleId,
       ACTION_GROUP_WIDTH,
       NODE_HEIGHT
-    )
+    ),
+    { role: 'action-title', name: action.name }
   );
   let maxElementBottom = startY + NODE_HEIGHT;
 
-  const preconditionPredicates = extractAllPredicates(action.preconditions);
-  const effectPredicates = extractAllPredicates(action.effects);
-  const numericEffects = extractNumericEffects(action.effects);
+  // 持续动作的条件与效果全部放进三条时间泳道，不走下面的平铺分层
+  const durative = isDurativeAction(action);
+  const preconditionParts = splitStructuredExpressions(durative ? [] : action.preconditions);
+  const effectParts = splitStructuredExpressions(durative ? [] : action.effects);
+  const preconditionPredicates = extractAllPredicates(preconditionParts.flat);
+  const effectPredicates = extractAllPredicates(effectParts.flat);
+  const numericEffects = extractNumericEffects(effectParts.flat);
   const preconditionRows = Math.ceil(preconditionPredicates.length / ACTION_COLUMNS);
   const parameterRows = Math.ceil(action.parameters.length / ACTION_COLUMNS);
   const effectRows = Math.ceil(effectPredicates.length / ACTION_COLUMNS);
@@ -703,13 +817,29 @@ export function createActionGraph(action: PddlAction, startX: number, startY: nu
       ACTION_GROUP_WIDTH,
       descriptionHeight,
       'action'
-    )
+    ),
+    { role: 'action-description' }
   );
   lastSectionStartY = descriptionBaseY;
   lastSectionRows = Math.max(1, Math.ceil(descriptionHeight / NODE_SPACING_Y));
   maxElementBottom = Math.max(maxElementBottom, descriptionBaseY + descriptionHeight);
   nextSectionY = descriptionBaseY + descriptionHeight + SECTION_GAP;
 
+  if (durative) {
+    const durationNode = createGeometryNode(
+      `:duration ${formatPddlConjunction(action.duration)}`,
+      startX,
+      nextSectionY,
+      sanitizeId(`${groupId}-duration`),
+      ACTION_GROUP_WIDTH,
+      PARAMETER_NODE_HEIGHT
+    );
+    setElementStyle(durationNode, { fill: LITERAL_NODE_COLOR });
+    registerElement(durationNode, { role: 'duration' });
+    maxElementBottom = Math.max(maxElementBottom, nextSectionY + PARAMETER_NODE_HEIGHT);
+    nextSectionY += PARAMETER_NODE_HEIGHT + SECTION_GAP;
+  }
+
   const placePredicateNode = (
     extracted: ExtractedPredicate,
     index: number,
@@ -724,7 +854,12 @@ export function createActionGraph(action: PddlAction, startX: number, startY: nu
     const label = extracted.isNegated ? `not ${predicate.name}` : predicate.name;
 
     const nodeInfo = createGraphNodeInfo(nodeId, x, y, NODE_WIDTH, NODE_HEIGHT, 'ellipse');
-    registerElement(createPredicateNode(label, x, y, nodeId, fillColor));
+    registerElement(createPredicateNode(label, x, y, nodeId, fillColor), {
+      role: type,
+      name: predicate.name,
+      arguments: getArgumentNames(predicate.arguments),
+      polarity: extracted.isNegated ? 'negative' : 'positive',
+    });
       predicateNodes.push({
         ...nodeInfo,
         expr: predicate,
@@ -734,6 +869,164 @@ export function createActionGraph(action: PddlAction, startX: number, startY: nu
     maxElementBottom = Math.max(maxElementBottom, y + NODE_HEIGHT);
   };
 
+  let logicNodeCounter = 0;
+  let logicRight = startX + ACTION_GROUP_WIDTH;
+  const createLogicEdge = (source: GraphNodeInfo, target: GraphNodeInfo, argumentIndex: number) => {
+    const edgeId = sanitizeId(`edge-${action.name}-logic-${logicNodeCounter++}`);
+    registerElement(createArrowLine(source, target, undefined, edgeId), { role: 'operand-edge', argumentIndex });
+  };
+
+  // 虚线框标出量词或 when 的作用范围，放在框内节点的下层
+  const createScopeBox = (x: number, y: number, width: number, height: number, insertAt: number, name: string) => {
+    const box = createGeometryNode('', x, y, sanitizeId(`scope-${action.name}-${logicNodeCounter++}`), width, height);
+    delete box.fill;
+    setElementStyle(box, { strokeColor: OPERATOR_NODE_COLOR, strokeStyle: StrokeStyle.dashed });
+    registerElement(box, { role: 'scope', name });
+    elements.splice(elements.indexOf(box), 1);
+    elements.splice(insertAt, 0, box);
+  };
+
+  // 逻辑结构按树形布局：运算符在上，操作数在下一行从左到右排列，操作数连线指向运算符
+  const layoutLogic = (
+    expr: PddlExpression,
+    x: number,
+    y: number,
+    section: 'precondition' | 'effect',
+    scope: Map<string, GraphNodeInfo>
+  ): LogicLayout => {
+    const nodeId = sanitizeId(`logic-${action.name}-${section}-${logicNodeCounter++}`);
+    if (isLiteralExpression(expr)) {
+      const isNegated = expr.type === 'not';
+      const predicate = (isNegated ? (expr as PddlCompositeExpression).argument : expr) as PddlPredicateExpression;
+      const label = isNegated ? `not ${predicate.name}` : predicate.name;
+      registerElement(
+        createPredicateNode(label, x, y, nodeId, section === 'precondition' ? PRECONDITION_COLOR : EFFECT_COLOR),
+        {
+          role: section,
+          name: predicate.name,
+          arguments: getArgumentNames(predicate.arguments),
+          polarity: isNegated ? 'negative' : 'positive',
+          section,
+        }
+      );
+      const info = createGraphNodeInfo(nodeId, x, y, NODE_WIDTH, NODE_HEIGHT, 'ellipse');
+      predicateNodes.push({ ...info, expr: predicate, label, type: section, scope });
+      return { node: info, width: NODE_WIDTH, height: NODE_HEIGHT };
+    }
+
+    if (QUANTIFIER_TYPES.has(expr.type) && 'argument' in expr && expr.argument) {
+      const insertAt = elements.length;
+      const quantified = expr as PddlCompositeExpression;
+      const variables = (Array.isArray(quantified.arguments) ? quantified.arguments : []) as PddlTypedParameter[];
+      const innerX = x + SCOPE_PADDING;
+      const innerY = y + SCOPE_PADDING;
+      registerElement(createPredicateNode(expr.type, innerX, innerY, nodeId, OPERATOR_NODE_COLOR), {
+        role: 'quantifier',
+        name: expr.type,
+        arguments: variables.map((variable) => (variable.type ? `${variable.name} - ${variable.type}` : variable.name)),
+        section,
+      });
+      const quantifierInfo = createGraphNodeInfo(nodeId, innerX, innerY, NODE_WIDTH, NODE_HEIGHT, 'ellipse');
+      const innerScope = new Map(scope);
+      variables.forEach((variable, index) => {
+        const variableX = innerX + (index + 1) * (NODE_WIDTH + LOGIC_GAP_X);
+        const variableY = innerY + (NODE_HEIGHT - PARAMETER_NODE_HEIGHT) / 2;
+        const variableId = sanitizeId(`bound-${action.name}-${variable.name}-${logicNodeCounter++}`);
+        const variableNode = createGeometryNode(
+          variable.type ? `${variable.name}: ${variable.type}` : variable.name,
+          variableX,
+          variableY,
+          variableId,
+          PARAMETER_NODE_WIDTH,
+          PARAMETER_NODE_HEIGHT
+        );
+        const typeColor = variable.type ? options.typeColors?.get(variable.type) : undefined;
+        if (typeColor) {
+          setElementStyle(variableNode, { fill: typeColor });
+        }
+        registerElement(variableNode, { role: 'bound-variable', name: variable.name, type: variable.type, section });
+        innerScope.set(
+          variable.name,
+          createGraphNodeInfo(variableId, variableX, variableY, PARAMETER_NODE_WIDTH, PARAMETER_NODE_HEIGHT)
+        );
+      });
+      const headerWidth = variables.length
+        ? variables.length * (NODE_WIDTH + LOGIC_GAP_X) + PARAMETER_NODE_WIDTH
+        : NODE_WIDTH;
+      const body = layoutLogic(expr.argument, innerX, innerY + NODE_SPACING_Y, section, innerScope);
+      createLogicEdge(body.node, quantifierInfo, 0);
+      const width = Math.max(headerWidth, body.width) + SCOPE_PADDING * 2;
+      const height = NODE_SPACING_Y + body.height + SCOPE_PADDING * 2;
+      createScopeBox(x, y, width, height, insertAt, expr.type);
+      return { node: quantifierInfo, width, height };
+    }
+
+    if (!LOGIC_CONNECTIVE_TYPES.has(expr.type)) {
+      // 比较式、数值效果等其余表达式直接以 PDDL 文本作为叶子节点
+      const fillColor = NUMERIC_ASSIGNMENT_TYPES.has(expr.type) ? EFFECT_COLOR : OPERATOR_NODE_COLOR;
+      registerElement(createPredicateNode(formatPddlExpression(expr), x, y, nodeId, fillColor), {
+        role: 'logic-term',
+        name: expr.type,
+        section,
+      });
+      return {
+        node: createGraphNodeInfo(nodeId, x, y, NODE_WIDTH, NODE_HEIGHT, 'ellipse'),
+        width: NODE_WIDTH,
+        height: NODE_HEIGHT,
+      };
+    }
+
+    const isWhen = expr.type === 'when';
+    const insertAt = elements.length;
+    const offset = isWhen ? SCOPE_PADDING : 0;
+    const children = 'children' in expr && Array.isArray(expr.children) ? expr.children : [];
+    const operands: Array<{ expr: PddlExpression; section: 'precondition' | 'effect' }> =
+      expr.type === 'not' && 'argument' in expr && expr.argument
+        ? [{ expr: expr.argument, section }]
+        : children.map((child, index) => ({ expr: child, section: isWhen && index === 0 ? 'precondition' : section }));
+    let childX = x + offset;
+    const childLayouts = operands.map((operand) => {
+      const layout = layoutLogic(operand.expr, childX, y + offset + NODE_SPACING_Y, operand.section, scope);
+      childX += layout.width + LOGIC_GAP_X;
+      return layout;
+    });
+    const childrenWidth = childLayouts.length ? childX - LOGIC_GAP_X - (x + offset) : 0;
+    const innerWidth = Math.max(NODE_WIDTH, childrenWidth);
+    const nodeX = x + offset + (innerWidth - NODE_WIDTH) / 2;
+    registerElement(createPredicateNode(expr.type, nodeX, y + offset, nodeId, OPERATOR_NODE_COLOR), {
+      role: 'connective',
+      name: expr.type,
+      section,
+    });
+    const info = createGraphNodeInfo(nodeId, nodeX, y + offset, NODE_WIDTH, NODE_HEIGHT, 'ellipse');
+    // when 的条件指向 when 节点，when 节点再指向条件效果
+    childLayouts.forEach((layout, index) => {
+      if (isWhen && index > 0) {
+        createLogicEdge(info, layout.node, index);
+      } else {
+        createLogicEdge(layout.node, info, index);
+      }
+    });
+    const childrenHeight = Math.max(0, ...childLayouts.map((layout) => layout.height));
+    const width = innerWidth + offset * 2;
+    const height = (childLayouts.length ? NODE_SPACING_Y + childrenHeight : NODE_HEIGHT) + offset * 2;
+    if (isWhen) {
+      createScopeBox(x, y, width, height, insertAt, expr.type);
+    }
+    return { node: info, width, height };
+  };
+
+  const placeStructuredSection = (expressions: PddlExpression[], section: 'precondition' | 'effect') => {
+    expressions.forEach((expr) => {
+      const layout = layoutLogic(expr, startX, nextSectionY, section, new Map());
+      logicRight = Math.max(logicRight, startX + layout.width);
+      maxElementBottom = Math.max(maxElementBottom, nextSectionY + layout.height);
+      lastSectionStartY = nextSectionY;
+      lastSectionRows = Math.max(1, Math.ceil(layout.height / NODE_SPACING_Y));
+      nextSectionY += layout.height + (NODE_SPACING_Y - NODE_HEIGHT) + SECTION_GAP;
+    });
+  };
+
   if (preconditionPredicates.length > 0) {
     preconditionPredicates.forEach((predicate, index) => {
       placePredicateNode(predicate, index, 'precondition', nextSectionY);
@@ -742,6 +1035,7 @@ export function createActionGraph(action: PddlAction, startX: number, startY: nu
     lastSectionRows = Math.max(preconditionRows, 1);
     nextSectionY += preconditionRows * NODE_SPACING_Y + SECTION_GAP;
   }
+  placeStructuredSection(preconditionParts.structured, 'precondition');
 
   const parameterStartY = nextSectionY;
   if (action.parameters.length > 0) {
@@ -754,18 +1048,98 @@ export function createActionGraph(action: PddlAction, startX: number, startY: nu
       const paramText = param.type ? `${param.name}: ${param.type}` : param.name;
       const nodeId = sanitizeId(`param-${action.name}-${param.name}`);
 
-      registerElement(createGeometryNode(paramText, x, y, nodeId, width, height));
+      const paramNode = createGeometryNode(paramText, x, y, nodeId, width, height);
+      const typeColor = param.type ? options.typeColors?.get(param.type) : undefined;
+      if (typeColor) {
+        setElementStyle(paramNode, { fill: typeColor });
+      }
+      registerElement(paramNode, {
+        role: 'parameter',
+        name: param.name,
+        type: param.type,
+      });
       parameterNodes.set(param.name, createGraphNodeInfo(nodeId, x, y, width, height));
       maxElementBottom = Math.max(maxElementBottom, y + height);
     });
     lastSectionStartY = parameterStartY;
     lastSectionRows = Math.max(parameterRows, 1);
     nextSectionY += parameterRows * NODE_SPACING_Y + SECTION_GAP;
-  } else if (preconditionPredicates.length > 0) {
+  } else if (preconditionPredicates.length > 0 || preconditionParts.structured.length > 0) {
     // 即使没有参数，也在谓词层与效果层之间保留一个额外间隔
     nextSectionY += SECTION_GAP;
   }
 
+  // 三条泳道从左到右依次为 at start / over all / at end，每条泳道内先条件后效果
+  const placeTimedLanes = (durativeAction: PddlDurativeAction) => {
+    const lanes = new Map(
+      TIME_LANES.map((time) => [time, { conditions: [] as PddlExpression[], effects: [] as PddlExpression[] }])
+    );
+    const distribute = (expressions: PddlExpression[], kind: 'conditions' | 'effects', fallback: PddlTimeSpecifier) => {
+      const visit = (expr: PddlExpression, time: PddlTimeSpecifier | null) => {
+        if (expr.type === 'and' && 'children' in expr && Array.isArray(expr.children)) {
+          expr.children.forEach((child) => visit(child, time));
+        } else if (!time && TIME_LANES.includes(expr.type as PddlTimeSpecifier) && 'argument' in expr && expr.argument) {
+          visit(expr.argument, expr.type as PddlTimeSpecifier);
+        } else {
+          // 无法识别的时间标记放进 over all 泳道
+          (lanes.get(time ?? fallback) ?? lanes.get('over all'))?.[kind].push(expr);
+        }
+      };
+      expressions.forEach((expr) => visit(expr, null));
+    };
+    distribute(durativeAction.preconditions, 'conditions', 'at start');
+    distribute(durativeAction.effects, 'effects', 'at end');
+
+    const laneY = nextSectionY;
+    let laneX = startX;
+    let laneBottom = laneY;
+    const boxes: Array<{ x: number; width: number; insertAt: number; time: PddlTimeSpecifier }> = [];
+    TIME_LANES.forEach((time) => {
+      const insertAt = elements.length;
+      const innerX = laneX + SCOPE_PADDING;
+      let cursorY = laneY + SCOPE_PADDING;
+      currentTime = time;
+      const headerNode = createGeometryNode(
+        time,
+        innerX,
+        cursorY,
+        sanitizeId(`lane-${action.name}-${time}-${logicNodeCounter++}`),
+        NODE_WIDTH,
+        PARAMETER_NODE_HEIGHT
+      );
+      setElementStyle(headerNode, { fill: '#ffffff' });
+      registerElement(headerNode, { role: 'time-lane', name: time });
+      cursorY += PARAMETER_NODE_HEIGHT + SECTION_GAP;
+      let laneWidth = NODE_WIDTH;
+      const { conditions, effects } = lanes.get(time) ?? { conditions: [], effects: [] };
+      [
+        ...conditions.map((expr) => ({ expr, section: 'precondition' as const })),
+        ...effects.map((expr) => ({ expr, section: 'effect' as const })),
+      ].forEach(({ expr, section }) => {
+        const layout = layoutLogic(expr, innerX, cursorY, section, new Map());
+        laneWidth = Math.max(laneWidth, layout.width);
+        cursorY += layout.height + (NODE_SPACING_Y - NODE_HEIGHT);
+      });
+      currentTime = undefined;
+      const width = laneWidth + SCOPE_PADDING * 2;
+      boxes.push({ x: laneX, width, insertAt, time });
+      laneBottom = Math.max(laneBottom, cursorY);
+      laneX += width + LOGIC_GAP_X;
+    });
+    const laneHeight = laneBottom - laneY + SCOPE_PADDING;
+    // 从后往前插入，保证前面记录的插入位置仍然有效
+    [...boxes].reverse().forEach((box) => createScopeBox(box.x, laneY, box.width, laneHeight, box.insertAt, box.time));
+
+    logicRight = Math.max(logicRight, laneX - LOGIC_GAP_X);
+    maxElementBottom = Math.max(maxElementBottom, laneY + laneHeight);
+    lastSectionStartY = laneY;
+    lastSectionRows = Math.max(1, Math.ceil(laneHeight / NODE_SPACING_Y));
+    nextSectionY = laneY + laneHeight + SECTION_GAP;
+  };
+  if (durative) {
+    placeTimedLanes(action);
+  }
+
   const effectStartY = nextSectionY;
   if (effectPredicates.length > 0) {
     effectPredicates.forEach((predicate, index) => {
@@ -776,9 +1150,15 @@ export function createActionGraph(action: PddlAction, startX: number, startY: nu
     nextSectionY += effectRows * NODE_SPACING_Y;
     maxElementBottom = Math.max(maxElementBottom, effectStartY + effectRows * NODE_SPACING_Y);
   }
+  if (effectParts.structured.length > 0) {
+    if (effectPredicates.length > 0) {
+      nextSectionY += SECTION_GAP;
+    }
+    placeStructuredSection(effectParts.structured, 'effect');
+  }
 
   if (numericEffects.length > 0) {
-    if (effectPredicates.length > 0) {
+    if (effectPredicates.length > 0 && effectParts.structured.length === 0) {
       nextSectionY += SECTION_GAP;
     }
     const numericSectionStartY = nextSectionY;
@@ -800,16 +1180,21 @@ export function createActionGraph(action: PddlAction, startX: number, startY: nu
     const createLiteralNode = (label: string, suffix: string): GraphNodeInfo => {
       const { x, y } = getNumericNodePosition();
       const nodeId = sanitizeId(`literal-${action.name}-${suffix}-${literalNodeCounter++}`);
-      registerElement(createPredicateNode(label, x, y, nodeId, LITERAL_NODE_COLOR));
+      registerElement(createPredicateNode(label, x, y, nodeId, LITERAL_NODE_COLOR), { role: 'literal', name: label });
       const info = createGraphNodeInfo(nodeId, x, y, NODE_WIDTH, NODE_HEIGHT, 'ellipse');
       maxElementBottom = Math.max(maxElementBottom, y + NODE_HEIGHT);
       return info;
     };
 
-    const createOperatorNode = (label: string, suffix: string, fillColor: string): GraphNodeInfo => {
+    const createOperatorNode = (
+      label: string,
+      suffix: string,
+      fillColor: string,
+      metadata: PddlElementMetadata
+    ): GraphNodeInfo => {
       const { x, y } = getNumericNodePosition();
       const nodeId = sanitizeId(`operator-${action.name}-${suffix}-${operatorNodeCounter++}`);
-      registerElement(createPredicateNode(label, x, y, nodeId, fillColor));
+      registerElement(createPredicateNode(label, x, y, nodeId, fillColor), metadata);
       const info = createGraphNodeInfo(nodeId, x, y, NODE_WIDTH, NODE_HEIGHT, 'ellipse');
       maxElementBottom = Math.max(maxElementBottom, y + NODE_HEIGHT);
       return info;
@@ -824,7 +1209,11 @@ export function createActionGraph(action: PddlAction, startX: number, startY: nu
       const { x, y } = getNumericNodePosition();
       const label = formatFunctionLabel(funcExpr);
       const nodeId = sanitizeId(`function-${action.name}-${sanitizeId(key)}-${functionNodeCounter++}`);
-      registerElement(createPredicateNode(label, x, y, nodeId, FUNCTION_NODE_COLOR));
+      registerElement(createPredicateNode(label, x, y, nodeId, FUNCTION_NODE_COLOR), {
+        role: 'function',
+        name: funcExpr.name,
+        arguments: getArgumentNames(funcExpr.arguments),
+      });
       const info = createGraphNodeInfo(nodeId, x, y, NODE_WIDTH, NODE_HEIGHT, 'ellipse');
       const record: FunctionGraphNodeInfo = {
         ...info,
@@ -839,7 +1228,7 @@ export function createActionGraph(action: PddlAction, startX: number, startY: nu
 
     const createNumericEdge = (source: GraphNodeInfo, target: GraphNodeInfo) => {
       const edgeId = sanitizeId(`edge-${action.name}-numeric-${numericEdgeCounter++}`);
-      registerElement(createArrowLine(source, target, undefined, edgeId));
+      registerElement(createArrowLine(source, target, undefined, edgeId), { role: 'operand-edge' });
     };
 
     const handleArgument = (
@@ -897,7 +1286,8 @@ export function createActionGraph(action: PddlAction, startX: number, startY: nu
       const operatorNode = createOperatorNode(
         operatorLabel || expr.type,
         `operator-${expr.type}-${suffix}`,
-        fillColor
+        fillColor,
+        { role: 'operator', name: expr.type === 'predicate' ? expr.name : expr.type }
       );
       createNumericEdge(operatorNode, parentNode);
 
@@ -931,7 +1321,11 @@ export function createActionGraph(action: PddlAction, startX: number, startY: nu
       const label = targetFunction
         ? `${numericExpr.type} ${formatFunctionLabel(targetFunction, { includeArguments: false })}`
         : numericExpr.type;
-      const numericNode = createOperatorNode(label, `numeric-${numericExpr.type}-${index}`, EFFECT_COLOR);
+      const numericNode = createOperatorNode(label, `numeric-${numericExpr.type}-${index}`, EFFECT_COLOR, {
+        role: 'numeric-effect',
+        name: numericExpr.type,
+        arguments: targetFunction ? [targetFunction.name] : [],
+      });
       const args = Array.isArray(numericExpr.arguments) ? numericExpr.arguments : [];
       args.forEach((arg, argIndex) => {
         handleArgument(numericNode, arg, `numeric-${index}-arg-${argIndex}`);
@@ -950,8 +1344,9 @@ export function createActionGraph(action: PddlAction, startX: number, startY: nu
     if (args.length === 0) {
       return;
     }
+    const resolveParam = (name: string) => predicateNode.scope?.get(name) ?? parameterNodes.get(name);
 
-    const firstParam = parameterNodes.get(args[0]);
+    const firstParam = resolveParam(args[0]);
     if (firstParam) {
       const edgeId = sanitizeId(`edge-${action.name}-${predicateNode.id}-in-${edgeIndex++}`);
       registerElement(
@@ -960,12 +1355,13 @@ export function createActionGraph(action: PddlAction, startX: number, startY: nu
           predicateNode,
           undefined,
           edgeId
-        )
+        ),
+        { role: 'argument-edge', name: args[0], argumentIndex: 0 }
       );
     }
 
     for (let i = 1; i < args.length; i += 1) {
-      const targetParam = parameterNodes.get(args[i]);
+      const targetParam = resolveParam(args[i]);
       if (!targetParam) {
         continue;
       }
@@ -976,7 +1372,8 @@ export function createActionGraph(action: PddlAction, startX: number, startY: nu
           targetParam,
           undefined,
           edgeId
-        )
+        ),
+        { role: 'argument-edge', name: args[i], argumentIndex: i }
       );
     }
   });
@@ -989,7 +1386,11 @@ export function createActionGraph(action: PddlAction, startX: number, startY: nu
     const firstParam = parameterNodes.get(args[0]);
     if (firstParam) {
       const edgeId = sanitizeId(`edge-${action.name}-${functionNode.id}-in-${edgeIndex++}`);
-      registerElement(createArrowLine(firstParam, functionNode, undefined, edgeId));
+      registerElement(createArrowLine(firstParam, functionNode, undefined, edgeId), {
+        role: 'argument-edge',
+        name: args[0],
+        argumentIndex: 0,
+      });
     }
     for (let i = 1; i < args.length; i += 1) {
       const targetParam = parameterNodes.get(args[i]);
@@ -997,7 +1398,11 @@ export function createActionGraph(action: PddlAction, startX: number, startY: nu
         continue;
       }
       const edgeId = sanitizeId(`edge-${action.name}-${functionNode.id}-out-${edgeIndex++}`);
-      registerElement(createArrowLine(functionNode, targetParam, undefined, edgeId));
+      registerElement(createArrowLine(functionNode, targetParam, undefined, edgeId), {
+        role: 'argument-edge',
+        name: args[i],
+        argumentIndex: i,
+      });
     }
   });
 
@@ -1012,11 +1417,12 @@ export function createActionGraph(action: PddlAction, startX: number, startY: nu
       descriptionElementId: descriptionId,
       elementIds: groupedElementIds,
     },
-  } as any;
+    pddl: { role: 'action', action: action.name },
+  } as PddlGraphElement;
   elements.unshift(groupElement);
 
   // 计算总宽度和高度
-  const width = ACTION_GROUP_WIDTH;
+  const width = Math.max(ACTION_GROUP_WIDTH, logicRight - startX);
   const lastSectionBottomY = Math.max(
     maxElementBottom,
     lastSectionRows > 0 ? lastSectionStartY + lastSectionRows * NODE_SPACING_Y : startY + NODE_SPACING_Y
@@ -1042,12 +1448,23 @@ export function createProblemGraph(problem: PddlProblem, startX: number, startY:
       ? problem.goalDescription.trim()
       : 'Goal description';
   const groupedElementIds: string[] = [];
-  const registerElement = <T extends PlaitElement>(element: T): T => {
+  // 合并节点的 instances 在之后逐个追加，因此按 id 保留元数据的引用
+  const metadataById = new Map<string, PddlElementMetadata>();
+  const registerElement = <T extends PlaitElement>(element: T, metadata: PddlElementMetadata): T => {
+    const ownedMetadata = { ...metadata, problem: problem.name };
     (element as any).groupId = groupId;
+    withPddl(element, ownedMetadata);
+    metadataById.set(element.id, ownedMetadata);
     groupedElementIds.push(element.id);
     elements.push(element);
     return element;
   };
+  const addInstance = (nodeId: string, args: string[]) => {
+    const metadata = metadataById.get(nodeId);
+    if (metadata) {
+      metadata.instances = [...(metadata.instances ?? []), args];
+    }
+  };
 
   const objectNodes = new Map<string, GraphNodeInfo>();
   const predicateNodes: Array<
@@ -1133,11 +1550,15 @@ export function createProblemGraph(problem: PddlProblem, startX: number, startY:
       const nodeId = sanitizeId(
         `function-${problem.name}-${category}-${suffix}-${functionNodeCounter++}-${funcExpr.name}`
       );
-      registerElement(createPredicateNode(label, x, y, nodeId, FUNCTION_NODE_COLOR));
+      registerElement(createPredicateNode(label, x, y, nodeId, FUNCTION_NODE_COLOR), {
+        role: 'function',
+        name: funcExpr.name,
+      });
       info = createGraphNodeInfo(nodeId, x, y, NODE_WIDTH, NODE_HEIGHT, 'ellipse');
       categoryFunctionMap.set(functionKey, info);
       maxElementBottom = Math.max(maxElementBottom, y + NODE_HEIGHT);
     }
+    addInstance(info.id, getArgumentNames(funcExpr.arguments));
     functionNodes.push({
       ...info,
       expr: funcExpr,
@@ -1169,7 +1590,7 @@ export function createProblemGraph(problem: PddlProblem, startX: number, startY:
     const label = stringifyExpressionArgument(argument);
     const { x, y } = getNextPosition();
     const nodeId = sanitizeId(`literal-${problem.name}-${category}-${suffix}-${valueNodeCounter++}`);
-    registerElement(createPredicateNode(label, x, y, nodeId, FUNCTION_NODE_COLOR));
+    registerElement(createPredicateNode(label, x, y, nodeId, FUNCTION_NODE_COLOR), { role: 'literal', name: label });
     const info = createGraphNodeInfo(nodeId, x, y, NODE_WIDTH, NODE_HEIGHT, 'ellipse');
     maxElementBottom = Math.max(maxElementBottom, y + NODE_HEIGHT);
     return {
@@ -1202,6 +1623,7 @@ export function createProblemGraph(problem: PddlProblem, startX: number, startY:
     type ComparatorRecord = {
       index: number;
       operatorLabel: string;
+      comparatorSymbol: string;
       comparatorKey: string | null;
       leftNode: GraphNodeInfo | null;
       rightNode: GraphNodeInfo | null;
@@ -1240,6 +1662,7 @@ export function createProblemGraph(problem: PddlProblem, startX: number, startY:
       comparatorRecords.push({
         index,
         operatorLabel,
+        comparatorSymbol,
         comparatorKey,
         leftNode: leftArg.node,
         rightNode: rightArg.node,
@@ -1274,7 +1697,10 @@ export function createProblemGraph(problem: PddlProblem, startX: number, startY:
         const operatorId = sanitizeId(
           `operator-${problem.name}-${category}-${record.index}-${comparatorNodeCounter++}`
         );
-        registerElement(createPredicateNode(record.operatorLabel, x, y, operatorId, OPERATOR_NODE_COLOR));
+        registerElement(createPredicateNode(record.operatorLabel, x, y, operatorId, OPERATOR_NODE_COLOR), {
+          role: 'comparator',
+          name: record.comparatorSymbol,
+        });
         operatorInfo = createGraphNodeInfo(operatorId, x, y, NODE_WIDTH, NODE_HEIGHT, 'ellipse');
         if (record.comparatorKey) {
           categoryComparatorMap.set(record.comparatorKey, operatorInfo);
@@ -1286,14 +1712,20 @@ export function createProblemGraph(problem: PddlProblem, startX: number, startY:
         const edgeId = sanitizeId(
           `comp-edge-${problem.name}-${category}-in-${comparatorEdgeCounter++}`
         );
-        registerElement(createArrowLine(record.leftNode, operatorInfo, undefined, edgeId));
+        registerElement(createArrowLine(record.leftNode, operatorInfo, undefined, edgeId), {
+          role: 'operand-edge',
+          argumentIndex: 0,
+        });
       }
 
       if (record.rightNode) {
         const edgeId = sanitizeId(
           `comp-edge-${problem.name}-${category}-out-${comparatorEdgeCounter++}`
         );
-        registerElement(createArrowLine(operatorInfo, record.rightNode, undefined, edgeId));
+        registerElement(createArrowLine(operatorInfo, record.rightNode, undefined, edgeId), {
+          role: 'operand-edge',
+          argumentIndex: 1,
+        });
       }
     });
 
@@ -1323,7 +1755,11 @@ export function createProblemGraph(problem: PddlProblem, startX: number, startY:
     let nodeInfo = categoryPredicateMap.get(label);
     if (!nodeInfo) {
       nodeInfo = createGraphNodeInfo(nodeId, x, y, NODE_WIDTH, NODE_HEIGHT, 'ellipse');
-      registerElement(createPredicateNode(label, x, y, nodeId, fillColor));
+      registerElement(createPredicateNode(label, x, y, nodeId, fillColor), {
+        role: category,
+        name: predicate.name,
+        polarity: extracted.isNegated ? 'negative' : 'positive',
+      });
       categoryPredicateMap.set(label, nodeInfo);
       maxElementBottom = Math.max(maxElementBottom, y + NODE_HEIGHT);
     }
@@ -1356,7 +1792,11 @@ export function createProblemGraph(problem: PddlProblem, startX: number, startY:
       const nodeId = sanitizeId(`object-${problem.name}-${object.name}`);
       const label = object.type ? `${object.name}: ${object.type}` : object.name;
 
-      registerElement(createGeometryNode(label, x, y, nodeId, width, height));
+      registerElement(createGeometryNode(label, x, y, nodeId, width, height), {
+        role: 'object',
+        name: object.name,
+        type: object.type,
+      });
       objectNodes.set(object.name, createGraphNodeInfo(nodeId, x, y, width, height));
       maxElementBottom = Math.max(maxElementBottom, y + height);
     });
@@ -1398,7 +1838,8 @@ export function createProblemGraph(problem: PddlProblem, startX: number, startY:
       descriptionWidth,
       descriptionHeight ,
       'problem-init'
-    )
+    ),
+    { role: 'init-description' }
   );
   maxElementBottom = Math.max(maxElementBottom, initDescriptionY + descriptionHeight);
   registerElement(
@@ -1410,7 +1851,8 @@ export function createProblemGraph(problem: PddlProblem, startX: number, startY:
       descriptionWidth,
       descriptionHeight / 2,
       'problem-goal'
-    )
+    ),
+    { role: 'goal-description' }
   );
   maxElementBottom = Math.max(maxElementBottom, goalDescriptionY + descriptionHeight);
 
@@ -1425,6 +1867,7 @@ export function createProblemGraph(problem: PddlProblem, startX: number, startY:
       if (!nodeInfo) {
         return;
       }
+      addInstance(nodeInfo.id, getArgumentNames(predicate.expr.arguments));
       predicateNodes.push({
         ...nodeInfo,
         expr: predicate.expr,
@@ -1448,7 +1891,8 @@ export function createProblemGraph(problem: PddlProblem, startX: number, startY:
     if (firstObject) {
       const edgeId = sanitizeId(`problem-edge-${predicateNode.id}-in-${edgeIndex++}`);
       registerElement(
-        createArrowLine(firstObject, predicateNode, undefined, edgeId)
+        createArrowLine(firstObject, predicateNode, undefined, edgeId),
+        { role: 'argument-edge', name: args[0], argumentIndex: 0 }
       );
     }
 
@@ -1459,7 +1903,8 @@ export function createProblemGraph(problem: PddlProblem, startX: number, startY:
       }
       const edgeId = sanitizeId(`problem-edge-${predicateNode.id}-out-${edgeIndex++}`);
       registerElement(
-        createArrowLine(predicateNode, targetObject, undefined, edgeId)
+        createArrowLine(predicateNode, targetObject, undefined, edgeId),
+        { role: 'argument-edge', name: args[i], argumentIndex: i }
       );
     }
   });
@@ -1473,7 +1918,11 @@ export function createProblemGraph(problem: PddlProblem, startX: number, startY:
     const firstObject = objectNodes.get(args[0]);
     if (firstObject) {
       const edgeId = sanitizeId(`problem-function-edge-${functionNode.id}-in-${edgeIndex++}`);
-      registerElement(createArrowLine(firstObject, functionNode, undefined, edgeId));
+      registerElement(createArrowLine(firstObject, functionNode, undefined, edgeId), {
+        role: 'argument-edge',
+        name: args[0],
+        argumentIndex: 0,
+      });
     }
 
     for (let i = 1; i < args.length; i += 1) {
@@ -1482,7 +1931,11 @@ export function createProblemGraph(problem: PddlProblem, startX: number, startY:
         continue;
       }
       const edgeId = sanitizeId(`problem-function-edge-${functionNode.id}-out-${edgeIndex++}`);
-      registerElement(createArrowLine(functionNode, targetObject, undefined, edgeId));
+      registerElement(createArrowLine(functionNode, targetObject, undefined, edgeId), {
+        role: 'argument-edge',
+        name: args[i],
+        argumentIndex: i,
+      });
     }
   });
 
@@ -1493,11 +1946,18 @@ export function createProblemGraph(problem: PddlProblem, startX: number, startY:
     data: {
       type: 'problem',
       name: problem.name,
+      // 画布上不展示 domain 名与 metric，保存在分组上以便导出时还原
+      domain: problem.domain ?? problem.domain_name ?? null,
+      requirements: problem.requirements ?? [],
+      metric: problem.metrics ?? null,
+      // 画布只展示目标中的文字，含 or/imply/量词等结构时保存整棵目标树
+      goal: problem.goal && !isLiteralConjunction(problem.goal) ? problem.goal : null,
       initDescriptionId,
       goalDescriptionId,
       elementIds: groupedElementIds,
     },
-  } as any;
+    pddl: { role: 'problem', problem: problem.name },
+  } as PddlGraphElement;
   elements.unshift(groupElement);
 
   const width = descriptionWidth + sidebarGap + problemWidth;
@@ -1510,22 +1970,574 @@ export function createProblemGraph(problem: PddlProblem, startX: number, startY:
   return { elements, width, height };
 }
 
+// 类型层次树：object 为根，箭头由子类型指向父类型，叶子从左到右依次排列
+export function createTypeHierarchyGraph(types: PddlTypeDeclaration[], startX: number, startY: number): {
+  elements: PlaitElement[];
+  width: number;
+  height: number;
+  typeColors: Map<string, string>;
+} {
+  const elements: PlaitElement[] = [];
+  const groupId = sanitizeId(`types-${typeGroupCounter++}`);
+  const groupedElementIds: string[] = [];
+  const registerElement = <T extends PlaitElement>(element: T, metadata: PddlElementMetadata): T => {
+    setElementStyle(element, { groupId });
+    withPddl(element, metadata);
+    groupedElementIds.push(element.id);
+    elements.push(element);
+    return element;
+  };
+
+  const children = new Map<string, string[]>();
+  const addChild = (parent: string, child: string) => {
+    const siblings = children.get(parent) ?? [];
+    if (!siblings.includes(child)) {
+      children.set(parent, [...siblings, child]);
+    }
+  };
+  const declared = new Set(types.map((type) => type.name));
+  types.forEach((type) => {
+    if (type.name === ROOT_TYPE) {
+      return;
+    }
+    const parent = type.parent && type.parent !== type.name ? type.parent : ROOT_TYPE;
+    addChild(parent, type.name);
+    // 只作为父类型出现的类型挂在 object 下
+    if (parent !== ROOT_TYPE && !declared.has(parent)) {
+      declared.add(parent);
+      addChild(ROOT_TYPE, parent);
+    }
+  });
+
+  const typeColors = new Map<string, string>();
+  const nodeInfos = new Map<string, GraphNodeInfo>();
+  const placed = new Set<string>();
+  let nextLeafIndex = 0;
+  let maxDepth = 0;
+  // 后序遍历：叶子占一列，父节点居中于子节点之上
+  const place = (name: string, depth: number): number => {
+    placed.add(name);
+    maxDepth = Math.max(maxDepth, depth);
+    const childCenters = (children.get(name) ?? [])
+      .filter((child) => !placed.has(child))
+      .map((child) => place(child, depth + 1));
+    const x =
+      childCenters.length > 0
+        ? (childCenters[0] + childCenters[childCenters.length - 1]) / 2
+        : startX + nextLeafIndex++ * TYPE_NODE_SPACING_X;
+    const y = startY + depth * NODE_SPACING_Y;
+    const nodeId = sanitizeId(`type-${groupId}-${name}`);
+    const color = TYPE_COLOR_PALETTE[typeColors.size % TYPE_COLOR_PALETTE.length];
+    typeColors.set(name, color);
+    const node = createGeometryNode(name, x, y, nodeId, PARAMETER_NODE_WIDTH, PARAMETER_NODE_HEIGHT);
+    setElementStyle(node, { fill: color });
+    registerElement(node, { role: 'type', name });
+    nodeInfos.set(name, createGraphNodeInfo(nodeId, x, y, PARAMETER_NODE_WIDTH, PARAMETER_NODE_HEIGHT));
+    return x;
+  };
+  place(ROOT_TYPE, 0);
+
+  children.forEach((childNames, parent) => {
+    childNames.forEach((child) => {
+      const parentInfo = nodeInfos.get(parent);
+      const childInfo = nodeInfos.get(child);
+      if (!parentInfo || !childInfo) {
+        return;
+      }
+      const edgeId = sanitizeId(`type-edge-${groupId}-${child}-${parent}`);
+      registerElement(createArrowLine(childInfo, parentInfo, undefined, edgeId), {
+        role: 'subtype-edge',
+        name: child,
+        type: parent,
+      });
+    });
+  });
+
+  const groupElement: PlaitElement = {
+    id: groupId,
+    type: 'group',
+    data: {
+      type: 'type-hierarchy',
+      elementIds: groupedElementIds,
+    },
+    pddl: { role: 'type-hierarchy' },
+  } as PddlGraphElement;
+  elements.unshift(groupElement);
+
+  return {
+    elements,
+    width: Math.max(1, nextLeafIndex) * TYPE_NODE_SPACING_X,
+    height: maxDepth * NODE_SPACING_Y + PARAMETER_NODE_HEIGHT,
+    typeColors,
+  };
+}
+
+export interface ActionSignatureUsage {
+  predicateReads: Set<string>;
+  predicateWrites: Set<string>;
+  functionReads: Set<string>;
+  functionWrites: Set<string>;
+}
+
+// 统计 action 读取/修改了哪些谓词和函数：前提与 when 条件算读取，效果算修改
+export function collectActionSignatureUsage(action: PddlAction): ActionSignatureUsage {
+  const usage: ActionSignatureUsage = {
+    predicateReads: new Set(),
+    predicateWrites: new Set(),
+    functionReads: new Set(),
+    functionWrites: new Set(),
+  };
+  const visit = (value: unknown, isWrite: boolean) => {
+    if (!value || typeof value !== 'object') {
+      return;
+    }
+    const expr = value as Record<string, any>;
+    if (expr.type === 'predicate' && typeof expr.name === 'string') {
+      (isWrite ? usage.predicateWrites : usage.predicateReads).add(expr.name);
+      return;
+    }
+    if (expr.type === 'function' && typeof expr.name === 'string') {
+      usage.functionReads.add(expr.name);
+      (Array.isArray(expr.arguments) ? expr.arguments : []).forEach((arg: unknown) => visit(arg, false));
+      return;
+    }
+    if (expr.type === 'when' && Array.isArray(expr.children)) {
+      visit(expr.children[0], false);
+      visit(expr.children[1], isWrite);
+      return;
+    }
+    if (isWrite && NUMERIC_ASSIGNMENT_TYPES.has(expr.type) && Array.isArray(expr.arguments)) {
+      const [target, ...values] = expr.arguments;
+      if (isFunctionExpressionArgument(target)) {
+        usage.functionWrites.add(target.name);
+        (Array.isArray(target.arguments) ? target.arguments : []).forEach((arg) => visit(arg, false));
+      }
+      values.forEach((arg: unknown) => visit(arg, false));
+      return;
+    }
+    ['children', 'items', 'arguments'].forEach((key) => {
+      if (Array.isArray(expr[key])) {
+        expr[key].forEach((child: unknown) => visit(child, isWrite));
+      }
+    });
+    if (expr.argument) {
+      visit(expr.argument, isWrite);
+    }
+  };
+  (action.preconditions || []).forEach((expr) => visit(expr, false));
+  (action.effects || []).forEach((expr) => visit(expr, true));
+  return usage;
+}
+
+function formatSignatureText(name: string, args: PddlTypedParameter[], returnType?: string | null): string {
+  const params = args.map((arg) => (arg.type ? `${arg.name} - ${arg.type}` : arg.name));
+  const signature = `(${[name, ...params].join(' ')})`;
+  return returnType ? `${signature} - ${returnType}` : signature;
+}
+
+// 签名目录：列出所有谓词/函数的参数类型与返回类型，以及读写它们的 action 数量
+export function createSignatureCatalogGraph(domain: PddlDomain, startX: number, startY: number): {
+  elements: PlaitElement[];
+  width: number;
+  height: number;
+} {
+  const elements: PlaitElement[] = [];
+  const groupId = sanitizeId(`signatures-${signatureGroupCounter++}`);
+  const groupedElementIds: string[] = [];
+  const registerElement = <T extends PlaitElement>(element: T, metadata: PddlElementMetadata): T => {
+    setElementStyle(element, { groupId });
+    withPddl(element, metadata);
+    groupedElementIds.push(element.id);
+    elements.push(element);
+    return element;
+  };
+
+  const actions = Array.isArray(domain.actions) ? domain.actions : [];
+  const usages = actions.map((action) => ({ name: action.name, usage: collectActionSignatureUsage(action) }));
+  const usedBy = (pick: (usage: ActionSignatureUsage) => Set<string>, name: string) =>
+    usages.filter(({ usage }) => pick(usage).has(name)).map((entry) => entry.name);
+
+  let currentY = startY;
+  const titleNode = createGeometryNode(
+    'Signatures',
+    startX,
+    currentY,
+    sanitizeId(`signature-title-${groupId}`),
+    SIGNATURE_NODE_WIDTH,
+    PARAMETER_NODE_HEIGHT
+  );
+  setElementStyle(titleNode, { fill: '#ffffff' });
+  registerElement(titleNode, { role: 'signature-catalog' });
+  currentY += PARAMETER_NODE_HEIGHT + 10;
+
+  const addRow = (
+    role: 'predicate-signature' | 'function-signature',
+    name: string,
+    args: PddlTypedParameter[],
+    returnType: string | null,
+    readBy: string[],
+    writtenBy: string[]
+  ) => {
+    const signature = formatSignatureText(name, args, returnType);
+    const unused = readBy.length === 0 && writtenBy.length === 0;
+    const summary = `read ${readBy.length} · write ${writtenBy.length}${unused ? ' · unused' : ''}`;
+    const node = createGeometryNode(
+      signature,
+      startX,
+      currentY,
+      sanitizeId(`signature-${groupId}-${role}-${name}`),
+      SIGNATURE_NODE_WIDTH,
+      NODE_HEIGHT
+    );
+    setElementStyle(node, {
+      fill: role === 'function-signature' ? FUNCTION_NODE_COLOR : '#e8f4fd',
+      ...(unused ? { strokeColor: UNUSED_SIGNATURE_COLOR } : {}),
+    });
+    node.text = {
+      children: [signature, summary].map((line) => ({
+        type: 'paragraph',
+        align: 'left',
+        children: [{ text: line }],
+      })),
+    };
+    registerElement(node, {
+      role,
+      name,
+      type: returnType,
+      arguments: args.map((arg) => (arg.type ? `${arg.name} - ${arg.type}` : arg.name)),
+      readBy,
+      writtenBy,
+    });
+    currentY += SIGNATURE_ROW_SPACING_Y;
+  };
+
+  (Array.isArray(domain.predicates) ? domain.predicates : []).forEach((predicate) => {
+    addRow(
+      'predicate-signature',
+      predicate.name,
+      predicate.arguments || [],
+      null,
+      usedBy((usage) => usage.predicateReads, predicate.name),
+      usedBy((usage) => usage.predicateWrites, predicate.name)
+    );
+  });
+  (Array.isArray(domain.functions) ? domain.functions : []).forEach((func) => {
+    addRow(
+      'function-signature',
+      func.name,
+      func.arguments || [],
+      func.return_type ?? 'number',
+      usedBy((usage) => usage.functionReads, func.name),
+      usedBy((usage) => usage.functionWrites, func.name)
+    );
+  });
+
+  const groupElement: PlaitElement = {
+    id: groupId,
+    type: 'group',
+    data: {
+      type: 'signature-catalog',
+      elementIds: groupedElementIds,
+    },
+    pddl: { role: 'signature-catalog' },
+  } as PddlGraphElement;
+  elements.unshift(groupElement);
+
+  return {
+    elements,
+    width: SIGNATURE_NODE_WIDTH,
+    height: currentY - startY - 10,
+  };
+}
+
+export type PredicateUsageKind = 'read' | 'read-negated' | 'add' | 'delete' | 'numeric';
+
+const USAGE_SYMBOLS: Record<PredicateUsageKind, string> = {
+  read: 'R',
+  'read-negated': '¬R',
+  add: '+',
+  delete: '−',
+  numeric: 'Δ',
+};
+
+// action 对每个谓词/函数的用法：前提中读取（含否定）、效果中添加/删除、数值改变
+export function collectActionPredicateUsage(action: PddlAction): Map<string, Set<PredicateUsageKind>> {
+  const usage = new Map<string, Set<PredicateUsageKind>>();
+  const mark = (name: string, kind: PredicateUsageKind) => {
+    const kinds = usage.get(name) ?? new Set<PredicateUsageKind>();
+    kinds.add(kind);
+    usage.set(name, kinds);
+  };
+  // when 的条件部分属于读取，只把结果部分当作效果
+  const conditions: PddlExpression[] = [...(action.preconditions || [])];
+  const effects: PddlExpression[] = [];
+  const splitEffects = (expr: PddlExpression) => {
+    if (expr.type === 'when' && 'children' in expr && Array.isArray(expr.children)) {
+      conditions.push(expr.children[0]);
+      splitEffects(expr.children[1]);
+    } else if ((expr.type === 'and' || expr.type === 'forall') && 'children' in expr && Array.isArray(expr.children)) {
+      expr.children.forEach((child) => splitEffects(child));
+    } else if (expr.type === 'forall' && 'argument' in expr && expr.argument) {
+      splitEffects(expr.argument);
+    } else {
+      effects.push(expr);
+    }
+  };
+  (action.effects || []).forEach((expr) => splitEffects(expr));
+
+  extractAllPredicates(conditions).forEach(({ expr, isNegated }) =>
+    mark(expr.name, isNegated ? 'read-negated' : 'read')
+  );
+  extractAllPredicates(effects).forEach(({ expr, isNegated }) => mark(expr.name, isNegated ? 'delete' : 'add'));
+  const { functionReads, functionWrites } = collectActionSignatureUsage(action);
+  functionReads.forEach((name) => mark(name, 'read'));
+  functionWrites.forEach((name) => mark(name, 'numeric'));
+  return usage;
+}
+
+function getUsageCellFill(kinds: Set<PredicateUsageKind>): string | undefined {
+  if (kinds.has('delete')) {
+    return PRECONDITION_COLOR;
+  }
+  if (kinds.has('add')) {
+    return EFFECT_COLOR;
+  }
+  if (kinds.has('numeric')) {
+    return FUNCTION_NODE_COLOR;
+  }
+  return kinds.size ? MATRIX_READ_FILL : undefined;
+}
+
+// action × 谓词/函数的用法矩阵，以 Plait 表格形式放在画布上
+export function createUsageMatrixGraph(
+  domain: PddlDomain,
+  startX: number,
+  startY: number
+): {
+  elements: PlaitElement[];
+  width: number;
+  height: number;
+} {
+  const matrixId = sanitizeId(`usage-matrix-${usageMatrixCounter++}`);
+  const actions = Array.isArray(domain.actions) ? domain.actions : [];
+  const symbols = [
+    ...(Array.isArray(domain.predicates) ? domain.predicates : []).map((predicate) => predicate.name),
+    ...(Array.isArray(domain.functions) ? domain.functions : []).map((func) => func.name),
+  ];
+  // 只在动作中出现、未声明的谓词也列出来
+  const usages = actions.map((action) => collectActionPredicateUsage(action));
+  usages.forEach((usage) =>
+    usage.forEach((_, name) => {
+      if (!symbols.includes(name)) {
+        symbols.push(name);
+      }
+    })
+  );
+
+  const columnWidth = (text: string) => Math.max(MATRIX_MIN_COLUMN_WIDTH, text.length * MATRIX_CHAR_WIDTH + 16);
+  const headerColumn = {
+    id: `${matrixId}-col-action`,
+    width: Math.max(...['action', ...actions.map((action) => action.name)].map(columnWidth)),
+  };
+  const columns = [
+    headerColumn,
+    ...symbols.map((name, index) => ({
+      id: `${matrixId}-col-${index}`,
+      width: columnWidth(name),
+    })),
+  ];
+  const headerRow = { id: `${matrixId}-row-header`, height: MATRIX_ROW_HEIGHT };
+  const legendRow = { id: `${matrixId}-row-legend`, height: MATRIX_ROW_HEIGHT };
+  const rows = [
+    headerRow,
+    ...actions.map((_, index) => ({
+      id: `${matrixId}-row-${index}`,
+      height: MATRIX_ROW_HEIGHT,
+    })),
+    legendRow,
+  ];
+
+  const createCell = (rowId: string, columnId: string, text: string, fill?: string): PlaitTableCell => ({
+    id: `${rowId}-${columnId}`,
+    rowId,
+    columnId,
+    text: { children: [{ text }], align: Alignment.center },
+    ...(fill ? { fill } : {}),
+  });
+  const cells: PlaitTableCell[] = [createCell(headerRow.id, headerColumn.id, 'action', MATRIX_HEADER_FILL)];
+  symbols.forEach((name, index) =>
+    cells.push(createCell(headerRow.id, columns[index + 1].id, name, MATRIX_HEADER_FILL))
+  );
+  actions.forEach((action, actionIndex) => {
+    const rowId = rows[actionIndex + 1].id;
+    cells.push(createCell(rowId, headerColumn.id, action.name, MATRIX_HEADER_FILL));
+    symbols.forEach((name, index) => {
+      const kinds = usages[actionIndex].get(name) ?? new Set<PredicateUsageKind>();
+      const text = (Object.keys(USAGE_SYMBOLS) as PredicateUsageKind[])
+        .filter((kind) => kinds.has(kind))
+        .map((kind) => USAGE_SYMBOLS[kind])
+        .join(' ');
+      cells.push(createCell(rowId, columns[index + 1].id, text, getUsageCellFill(kinds)));
+    });
+  });
+  cells.push({
+    ...createCell(legendRow.id, headerColumn.id, 'R read  ¬R read negated  + add  − delete  Δ numeric change'),
+    colspan: columns.length,
+  });
+
+  const width = columns.reduce((sum, column) => sum + column.width, 0);
+  const height = rows.length * MATRIX_ROW_HEIGHT;
+  const table: PlaitTable = {
+    id: matrixId,
+    type: 'table',
+    points: [
+      [startX, startY],
+      [startX + width, startY + height],
+    ],
+    rows,
+    columns,
+    cells,
+  };
+  withPddl(table, { role: 'usage-matrix', name: domain.name });
+  return { elements: [table], width, height };
+}
+
 // 为整个domain创建图形
 export function createDomainGraph(domain: PddlDomain): PlaitElement[] {
   const allElements: PlaitElement[] = [];
   let currentX = START_X;
+  let actionStartY = START_Y;
   const actions = Array.isArray(domain.actions) ? domain.actions : [];
+  const types = Array.isArray(domain.types) ? domain.types : [];
+  let typeColors: Map<string, string> | undefined;
+
+  // 类型层次与签名目录并排放在所有 action 的上方
+  let headerX = START_X;
+  let headerHeight = 0;
+  if (types.length > 0) {
+    const hierarchy = createTypeHierarchyGraph(types, START_X, START_Y);
+    allElements.push(...hierarchy.elements);
+    typeColors = hierarchy.typeColors;
+    headerX += hierarchy.width + NODE_SPACING_X / 2;
+    headerHeight = hierarchy.height;
+  }
+  if (domain.predicates?.length || domain.functions?.length) {
+    const catalog = createSignatureCatalogGraph(domain, headerX, START_Y);
+    allElements.push(...catalog.elements);
+    headerX += catalog.width + NODE_SPACING_X / 2;
+    headerHeight = Math.max(headerHeight, catalog.height);
+  }
+  if (actions.length > 0) {
+    const matrix = createUsageMatrixGraph(domain, headerX, START_Y);
+    allElements.push(...matrix.elements);
+    headerHeight = Math.max(headerHeight, matrix.height);
+  }
+  if (headerHeight > 0) {
+    actionStartY += headerHeight + NODE_SPACING_Y;
+  }
 
   // 为每个action创建图形（从左到右单行排列）
   actions.forEach((action) => {
-    const { elements, width } = createActionGraph(action, currentX, START_Y);
+    const { elements, width } = createActionGraph(action, currentX, actionStartY, { typeColors });
     allElements.push(...elements);
     currentX += width + NODE_SPACING_X;
   });
 
+  // 画布上不展示 domain 名、requirements 与常量，与 problem 分组一样保存在分组数据上以便导出时原样还原
+  allElements.forEach((element) => {
+    if (element.type === 'group') {
+      element.data = {
+        ...element.data,
+        domain: domain.name,
+        requirements: Array.isArray(domain.requirements) ? domain.requirements : [],
+        constants: Array.isArray(domain.constants) ? domain.constants : [],
+      };
+    }
+  });
+
   return allElements;
 }
 
+/**
+ * 把偏序计划画成有向无环图：每一列是一层可以并行执行的步骤，箭头是排序约束。
+ * 因果链接用实线并标出所支撑的事实，解决威胁或数值冲突而加的排序用虚线。
+ */
+export function createPlanCausalGraph(
+  plan: SolverPlanStep[],
+  order: PlanPartialOrder,
+  startX: number,
+  startY: number
+): {
+  elements: PlaitElement[];
+  width: number;
+  height: number;
+} {
+  const elements: PlaitElement[] = [];
+  const groupId = sanitizeId(`causal-${causalGroupCounter++}`);
+  const groupedElementIds: string[] = [];
+  const registerElement = <T extends PlaitElement>(element: T, metadata: PddlElementMetadata): T => {
+    setElementStyle(element, { groupId });
+    withPddl(element, metadata);
+    groupedElementIds.push(element.id);
+    elements.push(element);
+    return element;
+  };
+
+  const rowsByLayer = new Map<number, number>();
+  const nodeInfos = plan.map((step, index) => {
+    const layer = order.layers[index] ?? 0;
+    const row = rowsByLayer.get(layer) ?? 0;
+    rowsByLayer.set(layer, row + 1);
+    const x = startX + layer * PLAN_STEP_COLUMN_SPACING;
+    const y = startY + row * NODE_SPACING_Y;
+    const nodeId = sanitizeId(`causal-step-${groupId}-${index}`);
+    const parameters = Array.isArray(step.parameters) ? step.parameters : [];
+    const label = `${index + 1}. (${[step.action, ...parameters].join(' ')})`;
+    registerElement(createGeometryNode(label, x, y, nodeId, PLAN_STEP_NODE_WIDTH, NODE_HEIGHT), {
+      role: 'plan-step',
+      name: step.action,
+      arguments: parameters,
+    });
+    return createGraphNodeInfo(nodeId, x, y, PLAN_STEP_NODE_WIDTH, NODE_HEIGHT);
+  });
+
+  order.orderings.forEach(({ from, to, reason, facts }) => {
+    const source = nodeInfos[from];
+    const target = nodeInfos[to];
+    if (!source || !target) {
+      return;
+    }
+    const shown = facts.slice(0, CAUSAL_LABEL_MAX_FACTS).join(' ');
+    const label = facts.length > CAUSAL_LABEL_MAX_FACTS ? `${shown} …` : shown;
+    const edgeId = sanitizeId(`causal-edge-${groupId}-${from}-${to}`);
+    const line = createArrowLine(source, target, label, edgeId);
+    setElementStyle(line, {
+      strokeColor: CAUSAL_ORDERING_COLORS[reason],
+      ...(reason !== 'causal' ? { strokeStyle: StrokeStyle.dashed } : {}),
+    });
+    registerElement(line, { role: 'causal-link', name: reason, arguments: facts });
+  });
+
+  const groupElement: PlaitElement = {
+    id: groupId,
+    type: 'group',
+    data: {
+      type: 'causal-graph',
+      elementIds: groupedElementIds,
+    },
+    pddl: { role: 'causal-graph' },
+  } as PddlGraphElement;
+  elements.unshift(groupElement);
+
+  const layerCount = Math.max(0, ...order.layers) + 1;
+  const maxRows = Math.max(1, ...Array.from(rowsByLayer.values()));
+  return {
+    elements,
+    width: (layerCount - 1) * PLAN_STEP_COLUMN_SPACING + PLAN_STEP_NODE_WIDTH,
+    height: (maxRows - 1) * NODE_SPACING_Y + NODE_HEIGHT,
+  };
+}
+
 // 主要的转换函数
 export function convertPddlDomainToGraph(domain: PddlDomain): PlaitElement[] {
   return createDomainGraph(domain);
@@ -0,0 +1,99 @@
+import { parsePddlDomain, parsePddlProblem } from './pddl-parser';
+import { diffPlanStates, simulatePddlPlan, validatePddlPlan } from './pddl-validator';
+
+const parse = (domainText: string, problemText: string) => {
+  const domain = parsePddlDomain(domainText);
+  const problem = parsePddlProblem(problemText);
+  if (!domain.success || !problem.success) {
+    throw new Error(!domain.success ? domain.error : !problem.success ? problem.error : '');
+  }
+  return { domain: domain.content, problem: problem.content };
+};
+
+const DOMAIN = `(define (domain delivery)
+  (:requirements :strips :typing :numeric-fluents)
+  (:types place package)
+  (:predicates (at-truck ?p - place) (at ?k - package ?p - place) (loaded ?k - package))
+  (:functions (total-cost))
+  (:action drive
+    :parameters (?from ?to - place)
+    :precondition (at-truck ?from)
+    :effect (and (not (at-truck ?from)) (at-truck ?to) (increase (total-cost) 2)))
+  (:action load
+    :parameters (?k - package ?p - place)
+    :precondition (and (at-truck ?p) (at ?k ?p))
+    :effect (and (loaded ?k) (not (at ?k ?p)) (increase (total-cost) 1)))
+  (:action unload
+    :parameters (?k - package ?p - place)
+    :precondition (and (at-truck ?p) (loaded ?k))
+    :effect (and (at ?k ?p) (not (loaded ?k)) (increase (total-cost) 1))))`;
+
+const PROBLEM = `(define (problem one-parcel)
+  (:domain delivery)
+  (:objects depot shop - place parcel - package)
+  (:init (at-truck depot) (at parcel depot) (= (total-cost) 0))
+  (:goal (at parcel shop))
+  (:metric minimize (total-cost)))`;
+
+const step = (action: string, ...parameters: string[]) => ({ action, parameters });
+
+const PLAN = [step('load', 'parcel', 'depot'), step('drive', 'depot', 'shop'), step('unload', 'parcel', 'shop')];
+
+describe('validatePddlPlan', () => {
+  const { domain, problem } = parse(DOMAIN, PROBLEM);
+
+  it('accepts a plan that reaches the goal and recomputes the metric', () => {
+    expect(validatePddlPlan(domain, problem, PLAN)).toMatchObject({
+      valid: true,
+      failedStep: null,
+      unsatisfiedGoal: null,
+      metricValue: 4,
+      cost: 4,
+    });
+  });
+
+  it('stops at the first step whose precondition fails', () => {
+    const result = validatePddlPlan(domain, problem, [PLAN[1], PLAN[0], PLAN[2]]);
+    expect(result.valid).toBe(false);
+    expect(result.failedStep).toBe(1);
+    expect(result.steps.map(({ status }) => status)).toEqual(['valid', 'invalid', 'unchecked']);
+    expect(result.steps[1].message).toBe('Precondition not satisfied: (at-truck depot)');
+    expect(result.cost).toBeNull();
+  });
+
+  it('reports a goal left unsatisfied', () => {
+    const result = validatePddlPlan(domain, problem, PLAN.slice(0, 2));
+    expect(result).toMatchObject({ valid: false, failedStep: null, unsatisfiedGoal: '(at parcel shop)' });
+  });
+
+  it('rejects unknown actions', () => {
+    const result = validatePddlPlan(domain, problem, [step('fly', 'depot', 'shop')]);
+    expect(result.failedStep).toBe(0);
+    expect(result.steps[0].status).toBe('invalid');
+    expect(result.steps[0].message).toBeTruthy();
+  });
+
+  it('counts steps when the problem has no metric', () => {
+    const plain = parse(DOMAIN, PROBLEM.replace('(:metric minimize (total-cost))', ''));
+    expect(validatePddlPlan(plain.domain, plain.problem, PLAN)).toMatchObject({
+      valid: true,
+      metricValue: null,
+      cost: 3,
+    });
+  });
+});
+
+describe('simulatePddlPlan', () => {
+  const { domain, problem } = parse(DOMAIN, PROBLEM);
+
+  it('records the state after every step', () => {
+    const { states } = simulatePddlPlan(domain, problem, PLAN);
+    expect(states).toHaveLength(PLAN.length + 1);
+    expect(states[0].facts).toEqual(['(at parcel depot)', '(at-truck depot)']);
+    expect(diffPlanStates(states[0], states[1])).toEqual({
+      added: ['(loaded parcel)'],
+      deleted: ['(at parcel depot)'],
+      changed: [{ name: '(total-cost)', before: 0, after: 1 }],
+    });
+  });
+});
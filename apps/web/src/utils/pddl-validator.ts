@@ -0,0 +1,252 @@
+import type { PddlDomain, PddlExpression, PddlProblem, SolverPlanStep } from '../app/pddl_types';
+import {
+  applyAction,
+  Binding,
+  evaluateNumeric,
+  GroundAction,
+  GroundCondition,
+  Grounder,
+  GroundNumeric,
+  holds,
+  SearchState,
+} from './pddl-planner';
+import { formatPddlExpression } from './pddl-writer';
+
+export interface PlanStepValidation {
+  status: 'valid' | 'invalid' | 'unchecked';
+  /** 失败原因，其中的文字已代入实参 */
+  message?: string;
+}
+
+export interface PlanValidationResult {
+  valid: boolean;
+  steps: PlanStepValidation[];
+  /** 第一个失败步骤的下标 */
+  failedStep: number | null;
+  /** 计划执行完后仍不成立的目标 */
+  unsatisfiedGoal: string | null;
+  /** 计划执行完后 :metric 表达式的取值，没有度量或中途失败时为 null */
+  metricValue: number | null;
+  /** 重新算出的计划代价：有度量时取度量值，没有度量或是 total-time 时取步数 */
+  cost: number | null;
+}
+
+export interface PlanStateSnapshot {
+  /** 成立的原子，包括静态事实 */
+  facts: string[];
+  /** 各数值函数的取值，未定义为 null */
+  fluents: Array<{ name: string; value: number | null }>;
+}
+
+export interface PlanSimulation extends PlanValidationResult {
+  /** states[i] 是执行完前 i 步后的状态，states[0] 为初始状态；遇到失败的步骤即停止 */
+  states: PlanStateSnapshot[];
+}
+
+export interface PlanStateDiff {
+  added: string[];
+  deleted: string[];
+  changed: Array<{ name: string; before: number | null; after: number | null }>;
+}
+
+type GroundedStep =
+  | {
+      action: GroundAction;
+      preconditions: Array<{ expression: PddlExpression; condition: GroundCondition }>;
+      binding: Binding;
+    }
+  | { error: string };
+
+const collectFluents = (expression: GroundNumeric, into: Set<number>) => {
+  if (expression.kind === 'fluent') {
+    into.add(expression.fluent);
+  } else if (expression.kind === 'operation') {
+    expression.operands.forEach((operand) => collectFluents(operand, into));
+  }
+};
+
+const formatNumeric = (expression: GroundNumeric, fluents: string[]): string => {
+  switch (expression.kind) {
+    case 'value':
+      return `${expression.value}`;
+    case 'fluent':
+      return fluents[expression.fluent];
+    case 'operation':
+      return `(${[expression.operator, ...expression.operands.map((operand) => formatNumeric(operand, fluents))].join(
+        ' '
+      )})`;
+  }
+};
+
+const formatCondition = (condition: GroundCondition, grounder: Grounder): string => {
+  switch (condition.kind) {
+    case 'constant':
+      return condition.value ? '(and)' : '(or)';
+    case 'atom':
+      return grounder.atoms[condition.atom];
+    case 'compare':
+      return `(${condition.comparator} ${formatNumeric(condition.left, grounder.fluents)} ${formatNumeric(
+        condition.right,
+        grounder.fluents
+      )})`;
+    case 'not':
+      return `(not ${formatCondition(condition.condition, grounder)})`;
+    case 'and':
+    case 'or':
+      return `(${condition.kind} ${condition.conditions.map((child) => formatCondition(child, grounder)).join(' ')})`;
+  }
+};
+
+// 合取里逐项往下找，停在第一个不成立的最小子条件上
+const findUnsatisfied = (condition: GroundCondition, state: Set<number>, values: number[]): GroundCondition | null => {
+  if (holds(condition, state, values)) {
+    return null;
+  }
+  if (condition.kind === 'and') {
+    for (const child of condition.conditions) {
+      const failing = findUnsatisfied(child, state, values);
+      if (failing) {
+        return failing;
+      }
+    }
+  }
+  return condition;
+};
+
+// 数值比较后面附上当前取值，例如 "(< (load truck1) 5) where (load truck1) = 5"
+const describeFailure = (failing: GroundCondition, fallback: string, grounder: Grounder, values: number[]): string => {
+  // 相等判断等在接地时就被算成常量，只能退回到代入实参后的原始写法
+  if (failing.kind === 'constant') {
+    return fallback;
+  }
+  const text = formatCondition(failing, grounder);
+  if (failing.kind !== 'compare') {
+    return text;
+  }
+  const fluents = new Set<number>();
+  collectFluents(failing.left, fluents);
+  collectFluents(failing.right, fluents);
+  const current = Array.from(fluents).map((fluent) => {
+    const value = values[fluent];
+    return `${grounder.fluents[fluent]} = ${value === undefined || Number.isNaN(value) ? 'undefined' : value}`;
+  });
+  return current.length ? `${text} where ${current.join(', ')}` : text;
+};
+
+const substitute = (expression: PddlExpression, binding: Binding) =>
+  formatPddlExpression(expression).replace(
+    /\?[^\s()]+/g,
+    (variable) => binding.get(variable.toLowerCase()) ?? variable
+  );
+
+/**
+ * 像 VAL 一样从初始状态逐步执行计划：每一步先检查前提，失败时报告第一条不成立的前提，
+ * 之后的步骤不再检查；全部执行完再检查目标。同时记下每一步之后的完整状态。
+ */
+export function simulatePddlPlan(domain: PddlDomain, problem: PddlProblem, plan: SolverPlanStep[]): PlanSimulation {
+  const grounder = new Grounder(domain, problem, false);
+  const grounded: GroundedStep[] = plan.map((step) => {
+    try {
+      return grounder.groundStep(step.action, Array.isArray(step.parameters) ? step.parameters : []);
+    } catch (error) {
+      return { error: error instanceof Error ? error.message : String(error) };
+    }
+  });
+  let goal: GroundCondition | string;
+  try {
+    goal = problem.goal ? grounder.groundCondition(problem.goal) : { kind: 'constant', value: true };
+  } catch (error) {
+    goal = error instanceof Error ? error.message : String(error);
+  }
+  let metric: ReturnType<Grounder['groundMetric']> = null;
+  try {
+    metric = grounder.groundMetric();
+  } catch {
+    metric = null;
+  }
+  // 所有步骤接地后再取初始状态，保证用到的数值都已编号
+  let state: SearchState = grounder.createInitialState();
+  const snapshot = ({ atoms, values }: SearchState): PlanStateSnapshot => ({
+    facts: atoms.map((atom) => grounder.atoms[atom]).sort(),
+    fluents: grounder.fluents
+      .map((name, fluent) => {
+        const value = values[fluent];
+        return { name, value: value === undefined || Number.isNaN(value) ? null : value };
+      })
+      .sort((a, b) => a.name.localeCompare(b.name)),
+  });
+  const states = [snapshot(state)];
+
+  const steps: PlanStepValidation[] = plan.map(() => ({ status: 'unchecked' }));
+  const fail = (index: number, message: string): PlanSimulation => {
+    steps[index] = { status: 'invalid', message };
+    return { valid: false, steps, failedStep: index, unsatisfiedGoal: null, metricValue: null, cost: null, states };
+  };
+
+  for (let index = 0; index < grounded.length; index++) {
+    const step = grounded[index];
+    if ('error' in step) {
+      return fail(index, step.error);
+    }
+    const atoms = new Set(state.atoms);
+    for (const { expression, condition } of step.preconditions) {
+      const failing = findUnsatisfied(condition, atoms, state.values);
+      if (failing) {
+        const literal = describeFailure(failing, substitute(expression, step.binding), grounder, state.values);
+        return fail(index, `Precondition not satisfied: ${literal}`);
+      }
+    }
+    const next = applyAction(step.action, atoms, state.values);
+    if (!next) {
+      return fail(index, 'An effect uses an undefined numeric value.');
+    }
+    steps[index] = { status: 'valid' };
+    state = next;
+    states.push(snapshot(state));
+  }
+
+  const evaluated = metric ? evaluateNumeric(metric.expression, state.values) : null;
+  const metricValue = evaluated === null || Number.isNaN(evaluated) ? null : evaluated;
+  const result = {
+    steps,
+    failedStep: null,
+    metricValue,
+    cost: metric ? metricValue : plan.length,
+    states,
+  };
+  if (typeof goal === 'string') {
+    return { ...result, valid: false, unsatisfiedGoal: goal };
+  }
+  const failingGoal = findUnsatisfied(goal, new Set(state.atoms), state.values);
+  if (failingGoal) {
+    const fallback = problem.goal ? formatPddlExpression(problem.goal) : '';
+    return {
+      ...result,
+      valid: false,
+      unsatisfiedGoal: describeFailure(failingGoal, fallback, grounder, state.values),
+    };
+  }
+  return { ...result, valid: true, unsatisfiedGoal: null };
+}
+
+// 只关心校验结论时使用，状态轨迹随结果一起返回但调用方可以忽略
+export function validatePddlPlan(
+  domain: PddlDomain,
+  problem: PddlProblem,
+  plan: SolverPlanStep[]
+): PlanValidationResult {
+  return simulatePddlPlan(domain, problem, plan);
+}
+
+export const diffPlanStates = (before: PlanStateSnapshot, after: PlanStateSnapshot): PlanStateDiff => {
+  const beforeFacts = new Set(before.facts);
+  const afterFacts = new Set(after.facts);
+  const beforeValues = new Map(before.fluents.map(({ name, value }) => [name, value]));
+  return {
+    added: after.facts.filter((fact) => !beforeFacts.has(fact)),
+    deleted: before.facts.filter((fact) => !afterFacts.has(fact)),
+    changed: after.fluents
+      .filter(({ name, value }) => (beforeValues.get(name) ?? null) !== value)
+      .map(({ name, value }) => ({ name, before: beforeValues.get(name) ?? null, after: value })),
+  };
+};
@@ -0,0 +1,136 @@
+import { PddlDomain, PddlProblem } from '../app/pddl_types';
+import { parsePddlDomain, parsePddlExpression, parsePddlProblem } from './pddl-parser';
+import {
+  formatPddlDomain,
+  formatPddlExpression,
+  formatPddlPlan,
+  formatPddlProblem,
+  formatTypedList,
+} from './pddl-writer';
+
+const expression = (text: string) => {
+  const result = parsePddlExpression(text);
+  if (!result.success) {
+    throw new Error(result.error);
+  }
+  return result.content;
+};
+
+describe('pddl-writer', () => {
+  it('groups adjacent names that share a type', () => {
+    expect(
+      formatTypedList([
+        { name: '?a', type: 't' },
+        { name: '?b', type: 't' },
+        { name: '?c', type: null },
+        { name: '?d', type: '(either u v)' },
+      ])
+    ).toBe('?a ?b - t ?c ?d - (either u v)');
+  });
+
+  it.each([
+    '(and (at ?t ?from) (not (= ?from ?to)))',
+    '(forall (?p - place) (when (visited ?p) (not (at ?t ?p))))',
+    '(exists (?p ?q - place) (or (at ?t ?p) (imply (at ?t ?q) (visited ?q))))',
+    '(increase (total-cost) (* (distance ?from ?to) 2))',
+    '(>= (fuel ?t) 1.5)',
+  ])('writes %s back unchanged', (text) => {
+    expect(formatPddlExpression(expression(text))).toBe(text);
+  });
+
+  it('writes timed conditions of durative actions', () => {
+    expect(formatPddlExpression({ type: 'at start', argument: expression('(at ?t ?from)') })).toBe(
+      '(at start (at ?t ?from))'
+    );
+  });
+
+  it('writes a domain that parses back to the same content', () => {
+    const domain: PddlDomain = {
+      name: 'logistics',
+      requirements: [':strips', ':typing', ':numeric-fluents'],
+      types: [
+        { name: 'truck', parent: 'vehicle' },
+        { name: 'vehicle', parent: null },
+        { name: 'place', parent: null },
+      ],
+      constants: [{ name: 'depot', type: 'place' }],
+      predicates: [
+        {
+          name: 'at',
+          arguments: [
+            { name: '?v', type: 'vehicle' },
+            { name: '?p', type: 'place' },
+          ],
+        },
+      ],
+      functions: [
+        { type: 'function', name: 'fuel', arguments: [{ name: '?v', type: 'vehicle' }], return_type: 'number' },
+      ],
+      actions: [
+        {
+          name: 'drive',
+          description: 'Drive a truck\nbetween two places',
+          parameters: [
+            { name: '?t', type: 'truck' },
+            { name: '?from', type: 'place' },
+            { name: '?to', type: 'place' },
+          ],
+          preconditions: [expression('(at ?t ?from)')],
+          effects: [expression('(not (at ?t ?from))'), expression('(at ?t ?to)'), expression('(decrease (fuel ?t) 1)')],
+        },
+      ],
+    };
+    const text = formatPddlDomain(domain);
+    expect(text).toContain('  ; Drive a truck\n  ; between two places\n  (:action drive');
+    expect(text).toContain('(:types vehicle place truck - vehicle)');
+    const parsed = parsePddlDomain(text);
+    expect(parsed.success && formatPddlDomain(parsed.content)).toBe(text.replace(/ {2}; .*\n/g, ''));
+  });
+
+  it('writes a problem with numeric facts, a conjunctive goal and a metric', () => {
+    const problem: PddlProblem = {
+      name: 'p1',
+      domain: 'logistics',
+      objects: [
+        { name: 't', type: 'truck' },
+        { name: 'x', type: 'place' },
+        { name: 'y', type: 'place' },
+      ],
+      init: [expression('(at t x)'), expression('(= (fuel t) 3)')],
+      goal: expression('(and (at t y) (not (at t x)))'),
+      metrics: { type: 'minimize', arguments: [expression('(total-cost)')] },
+    };
+    expect(formatPddlProblem(problem)).toBe(
+      [
+        '(define (problem p1)',
+        '  (:domain logistics)',
+        '  (:objects',
+        '    t - truck',
+        '    x y - place',
+        '  )',
+        '  (:init',
+        '    (at t x)',
+        '    (= (fuel t) 3)',
+        '  )',
+        '  (:goal (and',
+        '    (at t y)',
+        '    (not (at t x))',
+        '  ))',
+        '  (:metric minimize (total-cost))',
+        ')',
+        '',
+      ].join('\n')
+    );
+    expect(parsePddlProblem(formatPddlProblem(problem)).success).toBe(true);
+  });
+
+  it('writes sequential and timed plans', () => {
+    expect(formatPddlPlan([{ action: 'drive', parameters: ['t', 'x', 'y'] }, { action: 'wait' }])).toBe(
+      '(drive t x y)\n(wait)\n'
+    );
+    expect(formatPddlPlan([{ action: 'drive', parameters: ['t', 'x', 'y'], time: 0, duration: 2.5 }])).toBe(
+      '0.000: (drive t x y) [2.500]\n'
+    );
+    expect(formatPddlPlan([])).toBe('');
+  });
+});
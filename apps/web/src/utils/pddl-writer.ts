@@ -0,0 +1,234 @@
+import {
+  PddlAction,
+  PddlCompositeExpression,
+  PddlDomain,
+  PddlExpression,
+  PddlExpressionArgument,
+  PddlFunction,
+  PddlObject,
+  PddlPredicate,
+  PddlProblem,
+  PddlTypeDeclaration,
+  PddlTypedParameter,
+  SolverPlanStep,
+} from '../app/pddl_types';
+import { isDurativeAction } from '../app/pddl-utils';
+
+const INDENT = '  ';
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+// "?a ?b - t ?c - u"：相邻且类型相同的名字合并成一组
+export const formatTypedList = (items: PddlTypedParameter[]): string => {
+  const parts: string[] = [];
+  let index = 0;
+  while (index < items.length) {
+    const type = items[index].type;
+    const names: string[] = [];
+    while (index < items.length && items[index].type === type) {
+      names.push(items[index].name);
+      index += 1;
+    }
+    parts.push(type ? `${names.join(' ')} - ${type}` : names.join(' '));
+  }
+  return parts.join(' ');
+};
+
+export const formatPddlArgument = (argument: PddlExpressionArgument | undefined): string => {
+  // LLM 或后端给出的结构可能直接是字符串/数字
+  const value: unknown = argument;
+  if (typeof value === 'string' || typeof value === 'number') {
+    return `${value}`;
+  }
+  if (!isRecord(value)) {
+    return '';
+  }
+  if (value.type === 'number') {
+    return `${value.value}`;
+  }
+  if (value.type === 'function') {
+    const args: PddlExpressionArgument[] = Array.isArray(value.arguments) ? value.arguments : [];
+    return `(${[`${value.name}`, ...args.map((arg) => formatPddlArgument(arg))].join(' ')})`;
+  }
+  if (typeof value.name === 'string' && !('arguments' in value)) {
+    return value.name;
+  }
+  return formatPddlExpression(argument as PddlExpression);
+};
+
+export const formatPddlExpression = (expression: PddlExpression): string => {
+  const expr = expression as PddlCompositeExpression;
+  // 缺少子表达式时输出空的 (and)，保持括号配对
+  const argument = expr.argument ? formatPddlExpression(expr.argument) : '(and)';
+  switch (expr.type) {
+    case 'predicate':
+    case 'function': {
+      const args = Array.isArray(expr.arguments) ? expr.arguments : [];
+      return `(${[expr.name, ...args.map((arg) => formatPddlArgument(arg))].join(' ')})`;
+    }
+    case 'not':
+      return `(not ${argument})`;
+    case 'forall':
+    case 'exists':
+      return `(${expr.type} (${formatTypedList((expr.arguments ?? []) as PddlTypedParameter[])}) ${argument})`;
+    case 'at':
+      return `(at ${expr.value} ${argument})`;
+    case 'at start':
+    case 'over all':
+    case 'at end':
+      return `(${expr.type} ${argument})`;
+    case 'number':
+      return `${expr.value}`;
+    default:
+      break;
+  }
+  const operands: Array<PddlExpression | PddlExpressionArgument> = Array.isArray(expr.children)
+    ? expr.children
+    : Array.isArray(expr.arguments)
+    ? expr.arguments
+    : [];
+  return `(${[expr.type, ...operands.map((operand) => formatPddlArgument(operand))].join(' ')})`;
+};
+
+// 前提/效果/目标列表：单个表达式直接输出，多个时包一层 and
+export const formatPddlConjunction = (expressions: PddlExpression[]): string => {
+  if (expressions.length === 1) {
+    return formatPddlExpression(expressions[0]);
+  }
+  return `(and${expressions.map((expr) => ` ${formatPddlExpression(expr)}`).join('')})`;
+};
+
+const formatBlock = (keyword: string, lines: string[]): string[] => {
+  if (!lines.length) {
+    return [];
+  }
+  return [`${INDENT}(${keyword}`, ...lines.map((line) => `${INDENT}${INDENT}${line}`), `${INDENT})`];
+};
+
+const formatTypes = (types: PddlTypeDeclaration[]): string[] =>
+  types.length
+    ? [
+        `${INDENT}(:types ${formatTypedList(
+          [...types]
+            .sort((a, b) => Number(Boolean(a.parent)) - Number(Boolean(b.parent)))
+            .map((type) => ({ name: type.name, type: type.parent }))
+        )})`,
+      ]
+    : [];
+
+export const formatPredicate = (predicate: PddlPredicate): string =>
+  predicate.arguments.length
+    ? `(${predicate.name} ${formatTypedList(predicate.arguments)})`
+    : `(${predicate.name})`;
+
+export const formatFunction = (func: PddlFunction): string => {
+  const signature = func.arguments.length ? `(${func.name} ${formatTypedList(func.arguments)})` : `(${func.name})`;
+  return func.return_type ? `${signature} - ${func.return_type}` : signature;
+};
+
+export const formatAction = (action: PddlAction): string[] => {
+  const lines: string[] = [];
+  const description = action.description?.trim();
+  if (description) {
+    description.split(/\r\n|\r|\n/).forEach((line) => lines.push(`${INDENT}; ${line}`));
+  }
+  if (isDurativeAction(action)) {
+    lines.push(`${INDENT}(:durative-action ${action.name}`);
+    lines.push(`${INDENT}${INDENT}:parameters (${formatTypedList(action.parameters)})`);
+    lines.push(`${INDENT}${INDENT}:duration ${formatPddlConjunction(action.duration)}`);
+    lines.push(`${INDENT}${INDENT}:condition ${formatPddlConjunction(action.preconditions)}`);
+  } else {
+    lines.push(`${INDENT}(:action ${action.name}`);
+    lines.push(`${INDENT}${INDENT}:parameters (${formatTypedList(action.parameters)})`);
+    if (action.preconditions.length) {
+      lines.push(`${INDENT}${INDENT}:precondition ${formatPddlConjunction(action.preconditions)}`);
+    }
+  }
+  lines.push(`${INDENT}${INDENT}:effect ${formatPddlConjunction(action.effects)}`);
+  lines.push(`${INDENT})`);
+  return lines;
+};
+
+export function formatPddlDomain(domain: PddlDomain): string {
+  const lines = [`(define (domain ${domain.name})`];
+  if (domain.requirements.length) {
+    lines.push(`${INDENT}(:requirements ${domain.requirements.join(' ')})`);
+  }
+  lines.push(...formatTypes(domain.types));
+  if (domain.constants?.length) {
+    lines.push(`${INDENT}(:constants ${formatTypedList(domain.constants)})`);
+  }
+  lines.push(...formatBlock(':predicates', domain.predicates.map((predicate) => formatPredicate(predicate))));
+  lines.push(...formatBlock(':functions', domain.functions.map((func) => formatFunction(func))));
+  domain.actions.forEach((action) => {
+    lines.push('');
+    lines.push(...formatAction(action));
+  });
+  lines.push(')');
+  return `${lines.join('\n')}\n`;
+}
+
+// 对象按类型分行，未标注类型的放在最后
+const formatObjects = (objects: PddlObject[]): string[] => {
+  const byType = new Map<string | null, string[]>();
+  objects.forEach((object) => {
+    byType.set(object.type, [...(byType.get(object.type) ?? []), object.name]);
+  });
+  const typed = Array.from(byType.entries()).filter(([type]) => type !== null);
+  const untyped = byType.get(null) ?? [];
+  return [
+    ...typed.map(([type, names]) => `${names.join(' ')} - ${type}`),
+    ...(untyped.length ? [untyped.join(' ')] : []),
+  ];
+};
+
+const formatGoal = (goal: PddlExpression): string[] => {
+  const expr = goal as PddlCompositeExpression;
+  if (expr.type === 'and' && Array.isArray(expr.children)) {
+    return [
+      `${INDENT}(:goal (and`,
+      ...expr.children.map((child) => `${INDENT}${INDENT}${formatPddlExpression(child)}`),
+      `${INDENT}))`,
+    ];
+  }
+  return [`${INDENT}(:goal ${formatPddlExpression(goal)})`];
+};
+
+export function formatPddlProblem(problem: PddlProblem): string {
+  const lines = [`(define (problem ${problem.name})`];
+  const domainName = problem.domain ?? problem.domain_name;
+  if (domainName) {
+    lines.push(`${INDENT}(:domain ${domainName})`);
+  }
+  if (problem.requirements?.length) {
+    lines.push(`${INDENT}(:requirements ${problem.requirements.join(' ')})`);
+  }
+  lines.push(...formatBlock(':objects', formatObjects(problem.objects)));
+  lines.push(`${INDENT}(:init`);
+  problem.init.forEach((fact) => lines.push(`${INDENT}${INDENT}${formatPddlExpression(fact)}`));
+  lines.push(`${INDENT})`);
+  if (problem.goal) {
+    lines.push(...formatGoal(problem.goal));
+  }
+  const metric = problem.metrics;
+  if (metric && Array.isArray(metric.arguments) && metric.arguments.length) {
+    lines.push(`${INDENT}(:metric ${metric.type} ${formatPddlArgument(metric.arguments[0])})`);
+  }
+  lines.push(')');
+  return `${lines.join('\n')}\n`;
+}
+
+// 与 parsePddlPlan 读入的格式一致：带时间或持续时间的写成 "t: (a b) [d]"，否则每行一个 "(a b)"
+export function formatPddlPlan(steps: SolverPlanStep[]): string {
+  const timed = steps.some((step) => typeof step.duration === 'number');
+  const lines = steps.map((step) => {
+    const call = `(${[step.action, ...(step.parameters ?? [])].join(' ')})`;
+    if (!timed) {
+      return call;
+    }
+    const duration = typeof step.duration === 'number' ? ` [${step.duration.toFixed(3)}]` : '';
+    return `${(step.time ?? 0).toFixed(3)}: ${call}${duration}`;
+  });
+  return lines.length ? `${lines.join('\n')}\n` : '';
+}
@@ -0,0 +1,73 @@
+import { getGanttTickStep, layoutPlanGantt } from './plan-gantt';
+
+const step = (action: string, parameters: string[], time?: number, duration?: number) => ({
+  action,
+  parameters,
+  time,
+  duration,
+});
+
+describe('layoutPlanGantt', () => {
+  it('puts each first argument on its own lane and stacks overlapping actions', () => {
+    const layout = layoutPlanGantt([
+      step('drive', ['truck1', 'a', 'b'], 0, 10),
+      step('fly', ['plane', 'a', 'c'], 0, 4),
+      step('load', ['truck1', 'p1'], 2, 3),
+      step('unload', ['truck1', 'p2'], 5, 1),
+      step('refuel', ['truck1'], 10, 2),
+    ]);
+    expect(layout?.makespan).toBe(12);
+    expect(
+      layout?.lanes.map(({ name, rows, bars }) => ({
+        name,
+        rows,
+        bars: bars.map(({ index, row }) => [index, row]),
+      }))
+    ).toEqual([
+      // load 与 drive 重叠，另起一行；unload 在 load 结束时开始，沿用这一行
+      {
+        name: 'truck1',
+        rows: 2,
+        bars: [
+          [0, 0],
+          [2, 1],
+          [3, 1],
+          [4, 0],
+        ],
+      },
+      { name: 'plane', rows: 1, bars: [[1, 0]] },
+    ]);
+  });
+
+  it('times sequential plans by their position', () => {
+    const layout = layoutPlanGantt([{ action: 'start' }, { action: 'stop', parameters: [] }]);
+    expect(layout?.lanes).toEqual([
+      {
+        name: '（无参数）',
+        rows: 1,
+        bars: [
+          expect.objectContaining({ index: 0, start: 0, end: 0 }),
+          expect.objectContaining({ index: 1, start: 1, end: 1 }),
+        ],
+      },
+    ]);
+    expect(layout?.makespan).toBe(1);
+  });
+
+  it('has nothing to draw without duration', () => {
+    expect(layoutPlanGantt([])).toBeNull();
+    expect(layoutPlanGantt([step('noop', [], 0)])).toBeNull();
+  });
+});
+
+describe('getGanttTickStep', () => {
+  it.each([
+    [8, 1],
+    [12, 2],
+    [30, 5],
+    [80, 10],
+    [0.5, 0.1],
+  ])('picks a round step for a makespan of %s', (makespan, tick) => {
+    expect(getGanttTickStep(makespan)).toBeCloseTo(tick);
+  });
+});
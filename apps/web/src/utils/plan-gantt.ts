@@ -0,0 +1,69 @@
+import type { SolverPlanStep } from '../app/pddl_types';
+
+export interface PlanGanttBar {
+  step: SolverPlanStep;
+  /** 在计划中的下标 */
+  index: number;
+  start: number;
+  end: number;
+  /** 泳道内的行号，同一行的条形时间上互不重叠 */
+  row: number;
+}
+
+export interface PlanGanttLane {
+  /** 动作的第一个参数，没有参数的动作归到「（无参数）」 */
+  name: string;
+  rows: number;
+  bars: PlanGanttBar[];
+}
+
+export interface PlanGanttLayout {
+  makespan: number;
+  lanes: PlanGanttLane[];
+}
+
+/**
+ * 时序计划的甘特图布局：每个动作的第一个参数（通常是执行者，如卡车、无人机）占一条泳道，
+ * 同一泳道内时间重叠的动作错开到不同行。没有时间的步骤按下标计时，没有持续时间的长度为 0。
+ * 总时长为 0 时没有可画的内容，返回 null。
+ */
+export function layoutPlanGantt(planSteps: SolverPlanStep[]): PlanGanttLayout | null {
+  const timed = planSteps.map((step, index) => {
+    const start = typeof step.time === 'number' ? step.time : index;
+    const duration = typeof step.duration === 'number' ? step.duration : 0;
+    const lane = Array.isArray(step.parameters) && step.parameters.length ? step.parameters[0] : '（无参数）';
+    return { step, index, start, end: start + duration, lane };
+  });
+  const makespan = Math.max(...timed.map(({ end }) => end), 0);
+  if (!timed.length || makespan <= 0) {
+    return null;
+  }
+
+  const grouped = new Map<string, typeof timed>();
+  timed.forEach((item) => grouped.set(item.lane, [...(grouped.get(item.lane) ?? []), item]));
+  const lanes = [...grouped].map(([name, items]): PlanGanttLane => {
+    // 贪心分行：放进第一个已经空出来的行，都被占着就新开一行
+    const rowEnds: number[] = [];
+    const bars = [...items]
+      .sort((a, b) => a.start - b.start || a.index - b.index)
+      .map(({ step, index, start, end }) => {
+        let row = rowEnds.findIndex((rowEnd) => rowEnd <= start + 1e-9);
+        if (row === -1) {
+          row = rowEnds.length;
+          rowEnds.push(end);
+        } else {
+          rowEnds[row] = end;
+        }
+        return { step, index, start, end, row };
+      });
+    return { name, rows: rowEnds.length, bars };
+  });
+  return { makespan, lanes };
+}
+
+// 刻度间隔取 1/2/5 × 10^n，让时间轴上大约有 8 个刻度
+export const getGanttTickStep = (makespan: number) => {
+  const raw = makespan / 8;
+  const magnitude = Math.pow(10, Math.floor(Math.log10(raw)));
+  return [1, 2, 5, 10].map((factor) => factor * magnitude).find((step) => step >= raw) ?? raw;
+};
@@ -25,10 +25,11 @@ export default defineConfig({
 
   plugins: [react(), nxViteTsPaths()],
 
-  // Uncomment this if you are using workers.
-  // worker: {
-  //  plugins: [ nxViteTsPaths() ],
-  // },
+  // 内置规划器运行在 worker 中
+  worker: {
+    format: 'es',
+    plugins: () => [nxViteTsPaths()],
+  },
 
   build: {
     outDir: '../../dist/apps/web',
@@ -593,3 +593,46 @@ export const StraightLineIcon = createIcon(
     </g>
   </svg>
 );
+
+export const PlayIcon = createIcon(
+  <svg viewBox="0 0 16 16" xmlns="http://www.w3.org/2000/svg">
+    <g stroke="none" fill="currentColor">
+      <path d="M4.5,2.6 C4.5,2.1 5.05,1.8 5.47,2.07 L13.1,7.47 C13.45,7.72 13.45,8.28 13.1,8.53 L5.47,13.93 C5.05,14.2 4.5,13.9 4.5,13.4 L4.5,2.6 Z"></path>
+    </g>
+  </svg>
+);
+
+export const PauseIcon = createIcon(
+  <svg viewBox="0 0 16 16" xmlns="http://www.w3.org/2000/svg">
+    <g stroke="none" fill="currentColor">
+      <rect x="3.5" y="2.5" width="3" height="11" rx="0.8"></rect>
+      <rect x="9.5" y="2.5" width="3" height="11" rx="0.8"></rect>
+    </g>
+  </svg>
+);
+
+export const StepForwardIcon = createIcon(
+  <svg viewBox="0 0 16 16" xmlns="http://www.w3.org/2000/svg">
+    <g stroke="none" fill="currentColor">
+      <path d="M3,3.1 C3,2.6 3.55,2.3 3.97,2.57 L10.1,7.47 C10.45,7.72 10.45,8.28 10.1,8.53 L3.97,13.43 C3.55,13.7 3,13.4 3,12.9 L3,3.1 Z"></path>
+      <rect x="11" y="2.5" width="2" height="11" rx="0.6"></rect>
+    </g>
+  </svg>
+);
+
+export const StepBackIcon = createIcon(
+  <svg viewBox="0 0 16 16" xmlns="http://www.w3.org/2000/svg">
+    <g stroke="none" fill="currentColor">
+      <path d="M13,3.1 C13,2.6 12.45,2.3 12.03,2.57 L5.9,7.47 C5.55,7.72 5.55,8.28 5.9,8.53 L12.03,13.43 C12.45,13.7 13,13.4 13,12.9 L13,3.1 Z"></path>
+      <rect x="3" y="2.5" width="2" height="11" rx="0.6"></rect>
+    </g>
+  </svg>
+);
+
+export const StopIcon = createIcon(
+  <svg viewBox="0 0 16 16" xmlns="http://www.w3.org/2000/svg">
+    <g stroke="none" fill="currentColor">
+      <rect x="3" y="3" width="10" height="10" rx="1.2"></rect>
+    </g>
+  </svg>
+);
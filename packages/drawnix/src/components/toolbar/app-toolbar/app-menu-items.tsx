@@ -2,6 +2,7 @@ import {
   ExportImageIcon,
   GithubIcon,
   OpenFileIcon,
+  PddlLogoIcon,
   SaveFileIcon,
   TrashIcon,
 } from '../../icons';
@@ -43,6 +44,22 @@ export const SaveToFile = () => {
 };
 SaveToFile.displayName = 'SaveToFile';
 
+export const ExportPddl = () => {
+  const { t } = useI18n();
+  return (
+    <MenuItem
+      data-testid="export-pddl-button"
+      onSelect={() => {
+        // the host app owns the file metadata needed to rebuild PDDL
+        window.dispatchEvent(new CustomEvent('drawnix:pddl-export-request'));
+      }}
+      icon={PddlLogoIcon}
+      aria-label={t('menu.exportPddl')}
+    >{t('menu.exportPddl')}</MenuItem>
+  );
+};
+ExportPddl.displayName = 'ExportPddl';
+
 export const OpenFile = () => {
   const board = useBoard();
   const listRender = useListRender();
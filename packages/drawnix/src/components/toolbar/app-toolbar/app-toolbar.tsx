@@ -21,7 +21,14 @@ import {
 import { Island } from '../../island';
 import { Popover, PopoverContent, PopoverTrigger } from '../../popover/popover';
 import { useState } from 'react';
-import { CleanBoard, OpenFile, SaveAsImage, SaveToFile, Socials } from './app-menu-items';
+import {
+  CleanBoard,
+  ExportPddl,
+  OpenFile,
+  SaveAsImage,
+  SaveToFile,
+  Socials,
+} from './app-menu-items';
 import { LanguageSwitcherMenu } from './language-switcher-menu';
 import Menu from '../../menu/menu';
 import MenuSeparator from '../../menu/menu-separator';
@@ -71,6 +78,7 @@ export const AppToolbar = () => {
             >
               <OpenFile></OpenFile>
               <SaveToFile></SaveToFile>
+              <ExportPddl></ExportPddl>
               <SaveAsImage></SaveAsImage>
               <CleanBoard></CleanBoard>
               <MenuSeparator />
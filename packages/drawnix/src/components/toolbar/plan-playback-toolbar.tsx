@@ -0,0 +1,90 @@
+import Stack from '../stack';
+import { ToolButton } from '../tool-button';
+import {
+  PauseIcon,
+  PlayIcon,
+  StepBackIcon,
+  StepForwardIcon,
+  StopIcon,
+} from '../icons';
+import classNames from 'classnames';
+import { ATTACHED_ELEMENT_CLASS_NAME } from '@plait/core';
+import { Island } from '../island';
+import { useI18n } from '../../i18n';
+
+/**
+ * State and callbacks for replaying a plan on the board. The host app owns
+ * the plan and decides what each step looks like; the toolbar only drives it.
+ */
+export type PlanPlaybackControls = {
+  /** 0 is the initial state, `total` is the state after the last step */
+  position: number;
+  total: number;
+  playing: boolean;
+  /** shown next to the counter, e.g. the action of the current step */
+  label?: string;
+  onPlay: () => void;
+  onPause: () => void;
+  onStep: (delta: number) => void;
+  onStop: () => void;
+};
+
+export const PlanPlaybackToolbar = ({
+  position,
+  total,
+  playing,
+  label,
+  onPlay,
+  onPause,
+  onStep,
+  onStop,
+}: PlanPlaybackControls) => {
+  const { t } = useI18n();
+  return (
+    <Island
+      padding={1}
+      className={classNames('plan-playback-toolbar', ATTACHED_ELEMENT_CLASS_NAME)}
+    >
+      <Stack.Row gap={1}>
+        <ToolButton
+          type="button"
+          icon={StepBackIcon}
+          visible={true}
+          title={t('planPlayback.stepBack')}
+          aria-label={t('planPlayback.stepBack')}
+          disabled={position <= 0}
+          onPointerUp={() => onStep(-1)}
+        />
+        <ToolButton
+          type="button"
+          icon={playing ? PauseIcon : PlayIcon}
+          visible={true}
+          title={playing ? t('planPlayback.pause') : t('planPlayback.play')}
+          aria-label={playing ? t('planPlayback.pause') : t('planPlayback.play')}
+          onPointerUp={() => (playing ? onPause() : onPlay())}
+        />
+        <ToolButton
+          type="button"
+          icon={StepForwardIcon}
+          visible={true}
+          title={t('planPlayback.stepForward')}
+          aria-label={t('planPlayback.stepForward')}
+          disabled={position >= total}
+          onPointerUp={() => onStep(1)}
+        />
+        <div className="plan-playback-counter" title={label}>
+          {position}/{total}
+          {label ? <span className="plan-playback-label">{label}</span> : null}
+        </div>
+        <ToolButton
+          type="button"
+          icon={StopIcon}
+          visible={true}
+          title={t('planPlayback.stop')}
+          aria-label={t('planPlayback.stop')}
+          onPointerUp={onStop}
+        />
+      </Stack.Row>
+    </Island>
+  );
+};
@@ -16,6 +16,8 @@ import {
   WritableClipboardOperationType,
 } from '@plait/core';
 import { parsePddlToMind } from '../../utils/pddl-to-drawnix';
+import type { PddlDiagnostic } from '../../utils/pddl-sexpr';
+import { PddlSyntaxError } from '../../errors';
 
 const PddlToDrawnix = () => {
   const { appState, setAppState } = useDrawnix();
@@ -24,6 +26,7 @@ const PddlToDrawnix = () => {
   const [value, setValue] = useState<PlaitElement[]>([]);
   const deferredText = useDeferredValue(text.trim());
   const [error, setError] = useState<Error | null>(null);
+  const [diagnostics, setDiagnostics] = useState<PddlDiagnostic[]>([]);
   const board = useBoard();
 
   useEffect(() => {
@@ -34,18 +37,29 @@ const PddlToDrawnix = () => {
     if (!deferredText) {
       setValue([]);
       setError(null);
+      setDiagnostics([]);
       return;
     }
     try {
       const mind = parsePddlToMind(deferredText);
       setValue([mind]);
       setError(null);
+      setDiagnostics([]);
     } catch (err) {
       setError(err as Error);
+      setDiagnostics(err instanceof PddlSyntaxError ? err.diagnostics : []);
       setValue([]);
     }
   }, [deferredText]);
 
+  // diagnostics are located in the trimmed text, shift them back onto the textarea lines
+  const leadingLineCount =
+    text.slice(0, text.length - text.trimStart().length).split(/\r\n|\r|\n/)
+      .length - 1;
+  const highlightedLines = diagnostics.map(
+    (diagnostic) => diagnostic.line + leadingLineCount
+  );
+
   const insertToBoard = () => {
     if (!value.length) {
       return;
@@ -83,7 +97,19 @@ const PddlToDrawnix = () => {
             onKeyboardSubmit={() => {
               insertToBoard();
             }}
+            highlightedLines={highlightedLines}
           />
+          {diagnostics.length > 0 && (
+            <ul className="ttd-dialog-diagnostics">
+              {diagnostics.map((diagnostic, index) => (
+                <li key={index}>
+                  {`${diagnostic.line + leadingLineCount}:${
+                    diagnostic.column
+                  } ${diagnostic.message}`}
+                </li>
+              ))}
+            </ul>
+          )}
         </TTDDialogPanel>
         <TTDDialogPanel
           label={t('dialog.pddl.preview')}
@@ -103,4 +129,3 @@ const PddlToDrawnix = () => {
 };
 
 export default PddlToDrawnix;
-
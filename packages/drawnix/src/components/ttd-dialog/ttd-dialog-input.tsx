@@ -1,5 +1,6 @@
 import type { ChangeEventHandler } from "react";
-import { useEffect, useRef } from "react";
+import { useEffect, useMemo, useRef } from "react";
+import classNames from "classnames";
 import { EVENT } from "../../constants";
 import { KEYS } from "../../keys";
 
@@ -8,6 +9,8 @@ interface TTDDialogInputProps {
   placeholder: string;
   onChange: ChangeEventHandler<HTMLTextAreaElement>;
   onKeyboardSubmit?: () => void;
+  /** 1-based line numbers to mark; passing it (even empty) enables the highlight layer */
+  highlightedLines?: number[];
 }
 
 export const TTDDialogInput = ({
@@ -15,8 +18,14 @@ export const TTDDialogInput = ({
   placeholder,
   onChange,
   onKeyboardSubmit,
+  highlightedLines,
 }: TTDDialogInputProps) => {
   const ref = useRef<HTMLTextAreaElement>(null);
+  const backdropRef = useRef<HTMLDivElement>(null);
+  const highlightedLineSet = useMemo(
+    () => new Set(highlightedLines ?? []),
+    [highlightedLines]
+  );
 
   const callbackRef = useRef(onKeyboardSubmit);
   callbackRef.current = onKeyboardSubmit;
@@ -40,7 +49,7 @@ export const TTDDialogInput = ({
     }
   }, []);
 
-  return (
+  const textarea = (
     <textarea
       className="ttd-dialog-input"
       onChange={onChange}
@@ -48,6 +57,38 @@ export const TTDDialogInput = ({
       placeholder={placeholder}
       autoFocus
       ref={ref}
+      onScroll={(event) => {
+        if (backdropRef.current) {
+          backdropRef.current.scrollTop = event.currentTarget.scrollTop;
+          backdropRef.current.scrollLeft = event.currentTarget.scrollLeft;
+        }
+      }}
     />
   );
+
+  if (!highlightedLines) {
+    return textarea;
+  }
+
+  return (
+    <div className="ttd-dialog-input-container">
+      <div
+        className="ttd-dialog-input-backdrop"
+        aria-hidden="true"
+        ref={backdropRef}
+      >
+        {input.split(/\r\n|\r|\n/).map((line, index) => (
+          <div
+            key={index}
+            className={classNames("ttd-dialog-input-line", {
+              "ttd-dialog-input-line--error": highlightedLineSet.has(index + 1),
+            })}
+          >
+            {line || " "}
+          </div>
+        ))}
+      </div>
+      {textarea}
+    </div>
+  );
 };
@@ -20,6 +20,10 @@ import { withCommonPlugin } from './plugins/with-common';
 import { withBackgroundImage } from './plugins/with-background-image';
 import { CreationToolbar } from './components/toolbar/creation-toolbar';
 import { ZoomToolbar } from './components/toolbar/zoom-toolbar';
+import {
+  PlanPlaybackControls,
+  PlanPlaybackToolbar,
+} from './components/toolbar/plan-playback-toolbar';
 import { PopupToolbar } from './components/toolbar/popup-toolbar/popup-toolbar';
 import { AppToolbar } from './components/toolbar/app-toolbar/app-toolbar';
 import classNames from 'classnames';
@@ -53,8 +57,12 @@ export type DrawnixProps = {
   onThemeChange?: (value: ThemeColorMode) => void;
   afterInit?: (board: PlaitBoard) => void;
   tutorial?: boolean;
+  /** shows play/pause/step controls under the zoom toolbar while set */
+  planPlayback?: PlanPlaybackControls | null;
 } & React.HTMLAttributes<HTMLDivElement>;
 
+export type { PlanPlaybackControls };
+
 export const Drawnix: React.FC<DrawnixProps> = ({
   value,
   viewport,
@@ -66,6 +74,7 @@ export const Drawnix: React.FC<DrawnixProps> = ({
   onValueChange,
   afterInit,
   tutorial = false,
+  planPlayback,
 }) => {
   const options: PlaitBoardOptions = {
     readonly: false,
@@ -152,6 +161,7 @@ export const Drawnix: React.FC<DrawnixProps> = ({
             <AppToolbar></AppToolbar>
             <CreationToolbar></CreationToolbar>
             <ZoomToolbar></ZoomToolbar>
+            {planPlayback && <PlanPlaybackToolbar {...planPlayback} />}
             <ThemeToolbar></ThemeToolbar>
             <PopupToolbar></PopupToolbar>
             <LinkPopup></LinkPopup>
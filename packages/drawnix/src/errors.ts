@@ -1,5 +1,22 @@
+import type { PddlDiagnostic } from './utils/pddl-sexpr';
+
 export class AbortError extends DOMException {
   constructor(message = 'Request Aborted') {
     super(message, 'AbortError');
   }
 }
+
+export class PddlSyntaxError extends Error {
+  readonly diagnostics: PddlDiagnostic[];
+
+  constructor(diagnostics: PddlDiagnostic[]) {
+    const [first] = diagnostics;
+    super(
+      first
+        ? `Line ${first.line}, column ${first.column}: ${first.message}`
+        : 'Invalid PDDL.'
+    );
+    this.name = 'PddlSyntaxError';
+    this.diagnostics = diagnostics;
+  }
+}
@@ -31,6 +31,11 @@ const arTranslations: Translations = {
     "zoom.out": "تصغير — Cmd+-",
     "zoom.fit": "ملاءمة الشاشة",
     "zoom.100": "تكبير إلى 100%",
+    "planPlayback.play": "تشغيل الخطة",
+    "planPlayback.pause": "إيقاف مؤقت",
+    "planPlayback.stepBack": "خطوة للخلف",
+    "planPlayback.stepForward": "خطوة للأمام",
+    "planPlayback.stop": "إيقاف التشغيل",
 
     // Themes
     "theme.default": "افتراضي",
@@ -75,6 +80,7 @@ const arTranslations: Translations = {
     // Menu items
     "menu.open": "فتح",
     "menu.saveFile": "حفظ الملف",
+    "menu.exportPddl": "تصدير بصيغة .pddl",
     "menu.exportImage": "تصدير صورة",
     "menu.exportImage.png": "PNG",
     "menu.exportImage.jpg": "JPG",
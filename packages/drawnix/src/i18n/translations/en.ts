@@ -31,6 +31,11 @@ const enTranslations: Translations = {
   'zoom.out': 'Zoom Out — Cmd+-',
   'zoom.fit': 'Fit to Screen',
   'zoom.100': 'Zoom to 100%',
+  'planPlayback.play': 'Play plan',
+  'planPlayback.pause': 'Pause',
+  'planPlayback.stepBack': 'Step back',
+  'planPlayback.stepForward': 'Step forward',
+  'planPlayback.stop': 'Stop playback',
 
   // Themes
   'theme.default': 'Default',
@@ -74,6 +79,7 @@ const enTranslations: Translations = {
   // Menu items
   'menu.open': 'Open',
   'menu.saveFile': 'Save File',
+  'menu.exportPddl': 'Export as .pddl',
   'menu.exportImage': 'Export Image',
   'menu.exportImage.png': 'PNG',
   'menu.exportImage.jpg': 'JPG',
@@ -31,6 +31,11 @@ const ruTranslations: Translations = {
   'zoom.out': 'Уменьшить — Cmd+-',
   'zoom.fit': 'По размеру экрана',
   'zoom.100': 'Сбросить к 100%',
+  'planPlayback.play': 'Воспроизвести план',
+  'planPlayback.pause': 'Пауза',
+  'planPlayback.stepBack': 'Шаг назад',
+  'planPlayback.stepForward': 'Шаг вперёд',
+  'planPlayback.stop': 'Остановить воспроизведение',
   
   // Themes
   'theme.default': 'Стандартная',
@@ -75,6 +80,7 @@ const ruTranslations: Translations = {
   // Menu items
   'menu.open': 'Открыть',
   'menu.saveFile': 'Сохранить',
+  'menu.exportPddl': 'Экспорт в .pddl',
   'menu.exportImage': 'Экспортировать',
   'menu.exportImage.png': 'PNG',
   'menu.exportImage.jpg': 'JPG',
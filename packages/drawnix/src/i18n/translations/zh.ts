@@ -31,6 +31,11 @@ const zhTranslations: Translations = {
   'zoom.out': '缩小 — Cmd+-',
   'zoom.fit': '自适应',
   'zoom.100': '缩放至 100%',
+  'planPlayback.play': '播放计划',
+  'planPlayback.pause': '暂停',
+  'planPlayback.stepBack': '上一步',
+  'planPlayback.stepForward': '下一步',
+  'planPlayback.stop': '结束播放',
 
   // Themes
   'theme.default': '默认',
@@ -75,6 +80,7 @@ const zhTranslations: Translations = {
   // Menu items
   'menu.open': '打开',
   'menu.saveFile': '保存文件',
+  'menu.exportPddl': '导出为 .pddl',
   'menu.exportImage': '导出图片',
   'menu.exportImage.png': 'PNG',
   'menu.exportImage.jpg': 'JPG',
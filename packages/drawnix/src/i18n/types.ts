@@ -36,6 +36,13 @@ export interface Translations {
   'zoom.fit': string;
   'zoom.100': string;
 
+  // Plan playback
+  'planPlayback.play': string;
+  'planPlayback.pause': string;
+  'planPlayback.stepBack': string;
+  'planPlayback.stepForward': string;
+  'planPlayback.stop': string;
+
   // Themes
   'theme.default': string;
   'theme.colorful': string;
@@ -79,6 +86,7 @@ export interface Translations {
   // Menu items
   'menu.open': string;
   'menu.saveFile': string;
+  'menu.exportPddl': string;
   'menu.exportImage': string;
   'menu.exportImage.png': string;
   'menu.exportImage.jpg': string;
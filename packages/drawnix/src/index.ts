@@ -1,3 +1,4 @@
 export * from './drawnix';
 export * from './utils';
 export * from './i18n';
+export * from './errors';
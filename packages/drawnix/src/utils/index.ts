@@ -2,4 +2,5 @@ export * from './color';
 export * from './common';
 export * from './image';
 export * from './property';
-export * from './utility-types';
\ No newline at end of file
+export * from './utility-types';
+export * from './pddl-sexpr';
@@ -0,0 +1,252 @@
+import { PddlSyntaxError } from '../errors';
+
+export type SExprAtom = string;
+export type SExpr = Array<SExprAtom | SExpr>;
+
+export interface PddlSourceSpan {
+  /** offset of the first character, inclusive */
+  start: number;
+  /** offset after the last character, exclusive */
+  end: number;
+}
+
+export type PddlDiagnosticSeverity = 'error' | 'warning';
+
+export interface PddlDiagnostic {
+  message: string;
+  severity: PddlDiagnosticSeverity;
+  /** 1-based line of `span.start` */
+  line: number;
+  /** 1-based column of `span.start` */
+  column: number;
+  span: PddlSourceSpan;
+}
+
+interface Token {
+  value: string;
+  start: number;
+  end: number;
+}
+
+interface LocatedList {
+  span: PddlSourceSpan;
+  items: PddlSourceSpan[];
+}
+
+const locatedLists = new WeakMap<SExpr, LocatedList>();
+
+export const isAtom = (value: SExprAtom | SExpr): value is SExprAtom =>
+  typeof value === 'string';
+
+export const isList = (value: SExprAtom | SExpr): value is SExpr =>
+  Array.isArray(value);
+
+export const formatSExpr = (expr: SExprAtom | SExpr): string => {
+  if (isAtom(expr)) {
+    return expr;
+  }
+  return `(${expr.map((item) => formatSExpr(item)).join(' ')})`;
+};
+
+/**
+ * Returns where a list read by `readPddlSExpressions` came from, or where
+ * its `index`-th item came from when an index is given.
+ */
+export const getSExprSpan = (
+  expr: SExpr,
+  index?: number
+): PddlSourceSpan | undefined => {
+  const located = locatedLists.get(expr);
+  if (!located) {
+    return undefined;
+  }
+  if (index === undefined) {
+    return located.span;
+  }
+  return located.items[index] ?? located.span;
+};
+
+export const createPddlDiagnostic = (
+  source: string,
+  message: string,
+  span: PddlSourceSpan,
+  severity: PddlDiagnosticSeverity = 'error'
+): PddlDiagnostic => {
+  const before = source.slice(0, span.start);
+  const lines = before.split(/\r\n|\r|\n/);
+  return {
+    message,
+    severity,
+    line: lines.length,
+    column: lines[lines.length - 1].length + 1,
+    span,
+  };
+};
+
+const tokenize = (definition: string): Token[] => {
+  const tokens: Token[] = [];
+  let current = '';
+  let currentStart = 0;
+  const pushCurrent = (end: number) => {
+    if (current) {
+      tokens.push({ value: current, start: currentStart, end });
+    }
+    current = '';
+  };
+
+  for (let i = 0; i < definition.length; i++) {
+    const char = definition[i];
+    if (char === ';') {
+      pushCurrent(i);
+      while (i + 1 < definition.length && !/[\n\r]/.test(definition[i + 1])) {
+        i++;
+      }
+    } else if (char === '(' || char === ')') {
+      pushCurrent(i);
+      tokens.push({ value: char, start: i, end: i + 1 });
+    } else if (/\s/.test(char)) {
+      pushCurrent(i);
+    } else {
+      if (!current) {
+        currentStart = i;
+      }
+      current += char;
+    }
+  }
+
+  pushCurrent(definition.length);
+  return tokens;
+};
+
+/** Indentation of the line holding `offset`, and whether `offset` is its first non-blank character. */
+const getLineIndent = (source: string, offset: number) => {
+  const lineStart =
+    Math.max(
+      source.lastIndexOf('\n', offset - 1),
+      source.lastIndexOf('\r', offset - 1)
+    ) + 1;
+  const leading = source.slice(lineStart, offset);
+  const indent = leading.length - leading.trimStart().length;
+  return { indent, startsLine: leading.trim() === '' };
+};
+
+const parseTokensToSExpr = (tokens: Token[], source: string): SExpr => {
+  const root: SExpr = [];
+  type OpenList = {
+    list: SExpr;
+    located: LocatedList;
+    indent: number;
+    suspect?: Token;
+  };
+  const stack: OpenList[] = [
+    {
+      list: root,
+      located: { span: { start: 0, end: source.length }, items: [] },
+      indent: -1,
+    },
+  ];
+  const suspects: Required<OpenList>[] = [];
+  const diagnostics: PddlDiagnostic[] = [];
+
+  tokens.forEach((token) => {
+    const top = stack[stack.length - 1];
+    if (token.value === '(') {
+      const newList: SExpr = [];
+      const located: LocatedList = {
+        span: { start: token.start, end: token.end },
+        items: [],
+      };
+      const { indent, startsLine } = getLineIndent(source, token.start);
+      // a child starting a line no deeper than its parent usually means the parent lost its ")"
+      if (
+        startsLine &&
+        stack.length > 1 &&
+        indent <= top.indent &&
+        !top.suspect
+      ) {
+        top.suspect = token;
+      }
+      top.list.push(newList);
+      top.located.items.push(located.span);
+      stack.push({ list: newList, located, indent });
+    } else if (token.value === ')') {
+      if (stack.length === 1) {
+        diagnostics.push(
+          createPddlDiagnostic(source, 'Unexpected closing parenthesis.', {
+            start: token.start,
+            end: token.end,
+          })
+        );
+        return;
+      }
+      top.located.span.end = token.end;
+      locatedLists.set(top.list, top.located);
+      if (top.suspect) {
+        suspects.push(top as Required<OpenList>);
+      }
+      stack.pop();
+    } else {
+      top.list.push(token.value);
+      top.located.items.push({ start: token.start, end: token.end });
+    }
+  });
+
+  stack.slice(1).forEach(({ list, located }) => {
+    const head = list.find(isAtom);
+    diagnostics.push(
+      createPddlDiagnostic(
+        source,
+        head
+          ? `Parenthesis opened before "${head}" is never closed.`
+          : 'Parenthesis is never closed.',
+        { start: located.span.start, end: located.span.start + 1 }
+      )
+    );
+  });
+
+  // only worth guessing when some parenthesis is left open
+  if (stack.length > 1) {
+    suspects.forEach(({ list, located, suspect }) => {
+      const head = list.find(isAtom);
+      const next =
+        source.slice(suspect.start).match(/^\(\s*[^\s()]*/)?.[0] ?? '(';
+      diagnostics.push(
+        createPddlDiagnostic(
+          source,
+          `"${
+            head ?? '('
+          }" is probably missing a closing parenthesis before "${next}".`,
+          { start: located.span.start, end: located.span.start + 1 },
+          'warning'
+        )
+      );
+    });
+  }
+
+  if (diagnostics.length) {
+    throw new PddlSyntaxError(
+      diagnostics.sort((a, b) => a.span.start - b.span.start)
+    );
+  }
+
+  locatedLists.set(root, stack[0].located);
+  return root;
+};
+
+/**
+ * Reads every top-level list of a PDDL document, skipping comments.
+ * Syntax problems are reported together through a `PddlSyntaxError`.
+ */
+export const readPddlSExpressions = (definition: string): SExpr[] => {
+  const tokens = tokenize(definition);
+  if (!tokens.length) {
+    throw new PddlSyntaxError([
+      createPddlDiagnostic(definition, 'PDDL content is empty.', {
+        start: 0,
+        end: 0,
+      }),
+    ]);
+  }
+
+  return parseTokensToSExpr(tokens, definition).filter(isList);
+};
@@ -1,8 +1,13 @@
 import { MindLayoutType } from '@plait/layouts';
 import { createMindElement, MindElement } from '@plait/mind';
-
-type SExprAtom = string;
-type SExpr = Array<SExprAtom | SExpr>;
+import {
+  formatSExpr,
+  isAtom,
+  isList,
+  readPddlSExpressions,
+  SExpr,
+  SExprAtom,
+} from './pddl-sexpr';
 
 interface Definition {
   kind: 'domain' | 'problem' | 'unknown';
@@ -13,11 +18,6 @@ interface Definition {
 
 const DEFAULT_ROOT_LABEL = 'PDDL Diagram';
 
-const isAtom = (value: SExprAtom | SExpr): value is SExprAtom =>
-  typeof value === 'string';
-
-const isList = (value: SExprAtom | SExpr): value is SExpr => Array.isArray(value);
-
 const toTitleCase = (text: string) =>
   text
     .replace(/^:/, '')
@@ -26,76 +26,12 @@ const toTitleCase = (text: string) =>
     .map((chunk) => chunk.charAt(0).toUpperCase() + chunk.slice(1))
     .join(' ');
 
-const formatSExpr = (expr: SExprAtom | SExpr): string => {
-  if (isAtom(expr)) {
-    return expr;
-  }
-  return `(${expr.map((item) => formatSExpr(item)).join(' ')})`;
-};
-
-const formatInline = (items: (SExprAtom | SExpr)[]): string =>
-  items.map((item) => formatSExpr(item)).join(' ');
-
 const addChild = (parent: MindElement, text: string): MindElement => {
   const child = createMindElement(text, {});
   parent.children.push(child);
   return child;
 };
 
-const stripComments = (definition: string) =>
-  definition.replace(/;[^\n\r]*/g, '');
-
-const tokenize = (definition: string): string[] => {
-  const tokens: string[] = [];
-  let current = '';
-  const pushCurrent = () => {
-    if (current.trim()) {
-      tokens.push(current.trim());
-    }
-    current = '';
-  };
-
-  for (let i = 0; i < definition.length; i++) {
-    const char = definition[i];
-    if (char === '(' || char === ')') {
-      pushCurrent();
-      tokens.push(char);
-    } else if (/\s/.test(char)) {
-      pushCurrent();
-    } else {
-      current += char;
-    }
-  }
-
-  pushCurrent();
-  return tokens;
-};
-
-const parseTokensToSExpr = (tokens: string[]): SExpr => {
-  const stack: SExpr[] = [[]];
-
-  tokens.forEach((token) => {
-    if (token === '(') {
-      const newList: SExpr = [];
-      stack[stack.length - 1].push(newList);
-      stack.push(newList);
-    } else if (token === ')') {
-      if (stack.length === 1) {
-        throw new Error('Unexpected closing parenthesis while parsing PDDL.');
-      }
-      stack.pop();
-    } else {
-      stack[stack.length - 1].push(token);
-    }
-  });
-
-  if (stack.length !== 1) {
-    throw new Error('Unbalanced parentheses found while parsing PDDL.');
-  }
-
-  return stack[0];
-};
-
 const classifyDefinition = (expr: SExpr): Definition | null => {
   if (!expr.length) {
     return null;
@@ -327,17 +263,7 @@ const createRootMind = (label: string): MindElement => {
 };
 
 export const parsePddlToMind = (definition: string): MindElement => {
-  const cleanedDefinition = stripComments(definition).trim();
-  if (!cleanedDefinition) {
-    throw new Error('PDDL content is empty.');
-  }
-
-  const tokens = tokenize(cleanedDefinition);
-  if (!tokens.length) {
-    throw new Error('Unable to tokenize the provided PDDL content.');
-  }
-
-  const expressions = parseTokensToSExpr(tokens).filter(isList);
+  const expressions = readPddlSExpressions(definition);
   const definitions = expressions
     .map((expr) => classifyDefinition(expr))
     .filter((definition): definition is Definition => Boolean(definition));